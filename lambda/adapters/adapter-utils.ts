@@ -0,0 +1,61 @@
+// File: adapters/adapter-utils.ts
+
+/**
+ * Builds an error that LambdaUtils.handleError maps to a 400 response
+ * @param message Description of what is wrong with the provider payload
+ */
+export function invalidPayload(message: string): Error {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+// Periods 1-2 are normal time, 3-4 extra time and 5 the penalty shootout
+const LAST_PERIOD = 5;
+
+/**
+ * Turns a match clock into an absolute timestamp
+ * @param kickoff ISO kickoff time; required, provider clocks are relative to it
+ * @param minute Match minute
+ * @param second Second within the minute
+ * @returns ISO timestamp
+ */
+export function matchTimestamp(kickoff: string | undefined, minute: number, second: number): string {
+  if (!kickoff) {
+    throw invalidPayload('kickoff is required for provider events without an absolute time');
+  }
+  const kickoffTime = new Date(kickoff).getTime();
+  if (isNaN(kickoffTime)) {
+    throw invalidPayload('kickoff must be a valid ISO date');
+  }
+  return new Date(kickoffTime + (minute * 60 + second) * 1000).toISOString();
+}
+
+/**
+ * Canonical lifecycle event for a provider period start or end marker. Every period
+ * starts with a kickoff; the end of period 1 or 3 is halftime and the end of the
+ * final period is fulltime. The end of normal time before extra time, or of extra
+ * time before penalties, maps to nothing: the next period's kickoff moves the match on.
+ * @param marker Whether the provider marks the start or the end of the period
+ * @param period Provider period
+ * @param finalPeriod Last period in the provider payload
+ */
+export function periodMarkerEventType(marker: 'start' | 'end', period: number, finalPeriod: number): string | undefined {
+  if (!Number.isInteger(period) || period < 1 || period > LAST_PERIOD) {
+    return undefined;
+  }
+  if (marker === 'start') {
+    return 'kickoff';
+  }
+  if (period === 1 || period === 3) {
+    return 'halftime';
+  }
+  return period >= finalPeriod ? 'fulltime' : undefined;
+}
+
+/**
+ * Last period reported in a provider payload
+ */
+export function getFinalPeriod(periods: unknown[]): number {
+  return periods.reduce<number>((last, period) => (Number.isInteger(period) ? Math.max(last, period as number) : last), 0);
+}
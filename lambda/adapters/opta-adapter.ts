@@ -0,0 +1,353 @@
+// File: adapters/opta-adapter.ts
+import { AdapterContext, AdapterResult, ProviderAdapter } from '../dtos/provider-adapters';
+import { ShotOutcome } from '../dtos/event-schemas';
+import { toPitchPosition } from '../utils/pitch';
+import { getFinalPeriod, invalidPayload, matchTimestamp, periodMarkerEventType } from './adapter-utils';
+
+// Opta coordinates are percentages of the pitch length and width
+const OPTA_PITCH_SIZE = 100;
+
+// F24 type_id values
+const OPTA_TYPES = {
+  PASS: 1,
+  FOUL: 4,
+  MISS: 13,
+  POST: 14,
+  ATTEMPT_SAVED: 15,
+  GOAL: 16,
+  CARD: 17,
+  PLAYER_OFF: 18,
+  PLAYER_ON: 19,
+  END: 30,
+  START: 32,
+};
+
+// F24 qualifier_id values
+const OPTA_QUALIFIERS = {
+  PENALTY: 9,
+  HEAD: 15,
+  OTHER_BODY_PART: 21,
+  SET_PIECE: 24,
+  FROM_CORNER: 25,
+  FREE_KICK: 26,
+  OWN_GOAL: 28,
+  BLOCKED: 82,
+  YELLOW_CARD: 31,
+  SECOND_YELLOW: 32,
+  RED_CARD: 33,
+  PASS_END_X: 140,
+  PASS_END_Y: 141,
+};
+
+// Shot type_id values and the outcome each one reports
+const OPTA_SHOT_OUTCOMES: Record<number, ShotOutcome> = {
+  [OPTA_TYPES.MISS]: 'off_target',
+  [OPTA_TYPES.POST]: 'post',
+  [OPTA_TYPES.ATTEMPT_SAVED]: 'saved',
+  [OPTA_TYPES.GOAL]: 'goal',
+};
+
+interface OptaGame {
+  id?: string;
+  home_team_id?: string;
+  away_team_id?: string;
+  home_team_name?: string;
+  away_team_name?: string;
+  game_date?: string;
+}
+
+interface OptaEvent {
+  id?: string;
+  event_id?: string;
+  type_id: number;
+  period_id: number;
+  min: number;
+  sec: number;
+  team_id?: string;
+  player_id?: string;
+  outcome?: number;
+  x?: number;
+  y?: number;
+  timestamp?: string;
+  qualifiers: Array<{ qualifier_id: number; value?: string }>;
+}
+
+/**
+ * Converts an Opta-style F24 feed into canonical events. Accepts the F24 XML
+ * document or its JSON form: { game: {...}, events: [{ ..., qualifiers: [...] }] }.
+ */
+export class OptaAdapter implements ProviderAdapter {
+  public readonly source = 'opta';
+
+  public normalize(body: string, context: AdapterContext): AdapterResult {
+    const { game, events } = body.trim().startsWith('<') ? parseF24Xml(body) : parseF24Json(body);
+    const matchId = context.matchId || game.id;
+    if (!matchId) {
+      throw invalidPayload('Opta payload has no game id and no match_id query parameter was given');
+    }
+
+    const kickoff = context.kickoff || game.game_date;
+    const result: AdapterResult = { events: [], skipped: [] };
+    // A period end is fulltime only when no later period (extra time, penalties) follows it
+    const finalPeriod = getFinalPeriod(events.map((providerEvent) => providerEvent.period_id));
+
+    events.forEach((providerEvent, index) => {
+      const base = this.baseEvent(providerEvent, game, matchId, kickoff);
+      const emit = (event: Record<string, any>, source: unknown = providerEvent) =>
+        result.events.push({ event: { ...base, ...event }, source });
+      const skip = (reason: string) => result.skipped.push({ reason, providerEventId: providerEvent.id });
+      const qualifier = (id: number) => providerEvent.qualifiers.find((q) => q.qualifier_id === id);
+      const emitShot = () => {
+        if (!base.position) {
+          skip('Shot without a location');
+          return;
+        }
+        emit({
+          event_type: 'shot',
+          player: providerEvent.player_id,
+          body_part: qualifier(OPTA_QUALIFIERS.HEAD) ? 'head' : qualifier(OPTA_QUALIFIERS.OTHER_BODY_PART) ? 'other' : 'foot',
+          situation: qualifier(OPTA_QUALIFIERS.PENALTY)
+            ? 'penalty'
+            : [OPTA_QUALIFIERS.SET_PIECE, OPTA_QUALIFIERS.FROM_CORNER, OPTA_QUALIFIERS.FREE_KICK].some((id) => qualifier(id))
+              ? 'set_piece'
+              : 'open_play',
+          // Blocked attempts are reported as saved attempts with a qualifier
+          outcome: qualifier(OPTA_QUALIFIERS.BLOCKED) ? 'blocked' : OPTA_SHOT_OUTCOMES[providerEvent.type_id],
+        });
+      };
+
+      switch (providerEvent.type_id) {
+        case OPTA_TYPES.PASS: {
+          const endPosition = toPitchPosition(
+            Number(qualifier(OPTA_QUALIFIERS.PASS_END_X)?.value),
+            Number(qualifier(OPTA_QUALIFIERS.PASS_END_Y)?.value),
+            OPTA_PITCH_SIZE,
+            OPTA_PITCH_SIZE
+          );
+          // F24 has no recipient: an unsuccessful pass has none, a completed one is received by the team's next actor
+          if (providerEvent.outcome !== 1) {
+            emit({
+              event_type: 'pass',
+              from_player: providerEvent.player_id,
+              success: false,
+              outcome: 'incomplete',
+              end_position: endPosition,
+            });
+            break;
+          }
+          const next = events[index + 1];
+          if (!next || next.team_id !== providerEvent.team_id || !next.player_id) {
+            skip('Pass without an identifiable recipient');
+            break;
+          }
+          emit({
+            event_type: 'pass',
+            from_player: providerEvent.player_id,
+            to_player: next.player_id,
+            success: true,
+            end_position: endPosition,
+          });
+          break;
+        }
+        case OPTA_TYPES.MISS:
+        case OPTA_TYPES.POST:
+        case OPTA_TYPES.ATTEMPT_SAVED: {
+          emitShot();
+          break;
+        }
+        case OPTA_TYPES.GOAL: {
+          const ownGoal = Boolean(qualifier(OPTA_QUALIFIERS.OWN_GOAL));
+          // An own goal is not a shot of the scorer's team
+          if (!ownGoal) {
+            emitShot();
+          }
+          emit({
+            event_type: 'goal',
+            player: providerEvent.player_id,
+            own_goal: ownGoal || undefined,
+          });
+          break;
+        }
+        case OPTA_TYPES.FOUL: {
+          // Fouls come in pairs: outcome 0 is the offending player, outcome 1 the fouled player
+          if (providerEvent.outcome !== 0) {
+            skip('Fouled-player side of a foul');
+            break;
+          }
+          emit({ event_type: 'foul', player: providerEvent.player_id });
+          break;
+        }
+        case OPTA_TYPES.CARD: {
+          const card = qualifier(OPTA_QUALIFIERS.RED_CARD)
+            ? { card_type: 'red' }
+            : qualifier(OPTA_QUALIFIERS.SECOND_YELLOW)
+              ? { card_type: 'yellow', second_yellow: true }
+              : { card_type: 'yellow' };
+          emit({ event_type: 'card', player: providerEvent.player_id, ...card });
+          break;
+        }
+        case OPTA_TYPES.PLAYER_OFF: {
+          // Pair the player going off with the same team's player coming on at the same clock
+          const playerOn = events.find((candidate) =>
+            candidate.type_id === OPTA_TYPES.PLAYER_ON &&
+            candidate.team_id === providerEvent.team_id &&
+            candidate.period_id === providerEvent.period_id &&
+            candidate.min === providerEvent.min &&
+            candidate.sec === providerEvent.sec
+          );
+          if (!playerOn) {
+            skip('Player off without a matching player on');
+            break;
+          }
+          emit(
+            { event_type: 'substitution', player_out: providerEvent.player_id, player_in: playerOn.player_id },
+            [providerEvent, playerOn]
+          );
+          break;
+        }
+        case OPTA_TYPES.PLAYER_ON:
+          // Emitted together with the matching player off event
+          break;
+        case OPTA_TYPES.START:
+        case OPTA_TYPES.END: {
+          const eventType = periodMarkerEventType(
+            providerEvent.type_id === OPTA_TYPES.START ? 'start' : 'end',
+            providerEvent.period_id,
+            finalPeriod
+          );
+          // Start and end are reported once per team; keep the home team's marker
+          if (!eventType || (game.home_team_id && providerEvent.team_id !== game.home_team_id)) {
+            skip('Unmapped or duplicate period marker');
+            break;
+          }
+          const { team, team_id, player_id, ...matchLevel } = base;
+          result.events.push({
+            event: {
+              ...matchLevel,
+              event_type: eventType,
+              home_team: context.homeTeam || game.home_team_name || 'Home',
+              away_team: context.awayTeam || game.away_team_name || 'Away',
+            },
+            source: providerEvent,
+          });
+          break;
+        }
+        default:
+          skip(`Unsupported Opta type_id: ${providerEvent.type_id}`);
+      }
+    });
+
+    return result;
+  }
+
+  private baseEvent(providerEvent: OptaEvent, game: OptaGame, matchId: string, kickoff?: string): Record<string, any> {
+    const isHome = providerEvent.team_id === game.home_team_id;
+    const team = isHome ? (game.home_team_name || 'Home') : (game.away_team_name || 'Away');
+    return {
+      match_id: matchId,
+      timestamp: providerEvent.timestamp
+        ? toIsoTimestamp(providerEvent.timestamp)
+        : matchTimestamp(kickoff, providerEvent.min, providerEvent.sec),
+      team,
+      team_id: providerEvent.team_id,
+      player_id: providerEvent.player_id,
+      minute: providerEvent.min,
+      second: providerEvent.sec,
+      period: providerEvent.period_id,
+      position: toPitchPosition(providerEvent.x, providerEvent.y, OPTA_PITCH_SIZE, OPTA_PITCH_SIZE),
+      source_provider: this.source,
+      source_event_id: providerEvent.id,
+    };
+  }
+}
+
+// F24 timestamps have no zone designator and are treated as UTC
+function toIsoTimestamp(value: string): string {
+  const withZone = /([zZ]|[+-]\d{2}:?\d{2})$/.test(value) ? value : `${value}Z`;
+  const date = new Date(withZone);
+  if (isNaN(date.getTime())) {
+    throw invalidPayload(`Invalid Opta timestamp: ${value}`);
+  }
+  return date.toISOString();
+}
+
+function toOptaEvent(raw: Record<string, any>, qualifiers: Array<Record<string, any>>): OptaEvent {
+  const optionalNumber = (value: any) => (value === undefined || value === '' ? undefined : Number(value));
+  return {
+    id: raw.id !== undefined ? String(raw.id) : undefined,
+    event_id: raw.event_id !== undefined ? String(raw.event_id) : undefined,
+    type_id: Number(raw.type_id),
+    period_id: Number(raw.period_id),
+    min: Number(raw.min) || 0,
+    sec: Number(raw.sec) || 0,
+    team_id: raw.team_id !== undefined ? String(raw.team_id) : undefined,
+    player_id: raw.player_id !== undefined ? String(raw.player_id) : undefined,
+    outcome: optionalNumber(raw.outcome),
+    x: optionalNumber(raw.x),
+    y: optionalNumber(raw.y),
+    timestamp: raw.timestamp,
+    qualifiers: qualifiers.map((q) => ({ qualifier_id: Number(q.qualifier_id), value: q.value })),
+  };
+}
+
+function parseF24Json(body: string): { game: OptaGame; events: OptaEvent[] } {
+  let payload: any;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    throw invalidPayload('Opta payload is neither F24 XML nor valid JSON');
+  }
+  if (!payload || !Array.isArray(payload.events)) {
+    throw invalidPayload('Opta JSON payload must contain an events array');
+  }
+  return {
+    game: stringifyValues(payload.game || {}),
+    events: payload.events.map((raw: any) => toOptaEvent(raw, raw.qualifiers || [])),
+  };
+}
+
+function parseF24Xml(body: string): { game: OptaGame; events: OptaEvent[] } {
+  const gameTag = body.match(/<Game\b([^>]*)>/);
+  if (!gameTag) {
+    throw invalidPayload('F24 XML payload has no <Game> element');
+  }
+
+  const events: OptaEvent[] = [];
+  const eventPattern = /<Event\b([^>]*?)(?:\/>|>([\s\S]*?)<\/Event>)/g;
+  let eventMatch: RegExpExecArray | null;
+  while ((eventMatch = eventPattern.exec(body)) !== null) {
+    const qualifiers: Array<Record<string, string>> = [];
+    const qualifierPattern = /<Q\b([^>]*?)\/?>/g;
+    let qualifierMatch: RegExpExecArray | null;
+    while ((qualifierMatch = qualifierPattern.exec(eventMatch[2] || '')) !== null) {
+      qualifiers.push(parseXmlAttributes(qualifierMatch[1]));
+    }
+    events.push(toOptaEvent(parseXmlAttributes(eventMatch[1]), qualifiers));
+  }
+
+  return { game: parseXmlAttributes(gameTag[1]), events };
+}
+
+function parseXmlAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const attributePattern = /([\w:-]+)\s*=\s*"([^"]*)"/g;
+  let match: RegExpExecArray | null;
+  while ((match = attributePattern.exec(source)) !== null) {
+    attributes[match[1]] = match[2]
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&');
+  }
+  return attributes;
+}
+
+function stringifyValues(source: Record<string, any>): Record<string, string> {
+  return Object.keys(source).reduce<Record<string, string>>((result, key) => {
+    if (source[key] !== undefined && source[key] !== null) {
+      result[key] = String(source[key]);
+    }
+    return result;
+  }, {});
+}
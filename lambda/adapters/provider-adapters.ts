@@ -0,0 +1,90 @@
+// File: adapters/provider-adapters.ts
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { AdapterContext, ParsedProviderBody, ProviderAdapter, ProviderSource } from '../dtos/provider-adapters';
+import { getHeader } from '../utils/lambda-utils';
+import { parseBatchBody } from '../utils/ingestion-pipeline';
+import { invalidPayload } from './adapter-utils';
+import { StatsBombAdapter } from './statsbomb-adapter';
+import { OptaAdapter } from './opta-adapter';
+
+const PROVIDER_ADAPTERS: Record<Exclude<ProviderSource, 'canonical'>, ProviderAdapter> = {
+  statsbomb: new StatsBombAdapter(),
+  opta: new OptaAdapter(),
+};
+
+// Content types that identify a provider when no source query parameter is given
+const CONTENT_TYPE_SOURCES: Array<{ pattern: RegExp; source: ProviderSource }> = [
+  { pattern: /application\/vnd\.statsbomb\+json/i, source: 'statsbomb' },
+  { pattern: /application\/vnd\.opta\+(json|xml)/i, source: 'opta' },
+  { pattern: /(application|text)\/xml/i, source: 'opta' },
+];
+
+/**
+ * Picks the provider adapter for a request
+ * @param source Value of the `source` query parameter, which wins over the Content-Type
+ * @param contentType Request Content-Type header
+ * @returns The adapter, or null for canonical events that need no conversion
+ */
+export function resolveAdapter(source: string | undefined, contentType: string | undefined): ProviderAdapter | null {
+  const selected = source
+    ? source.toLowerCase()
+    : CONTENT_TYPE_SOURCES.find((entry) => contentType && entry.pattern.test(contentType))?.source;
+
+  if (!selected || selected === 'canonical') {
+    return null;
+  }
+
+  const adapter = PROVIDER_ADAPTERS[selected as keyof typeof PROVIDER_ADAPTERS];
+  if (!adapter) {
+    throw invalidPayload(`Unsupported source '${selected}'. Supported sources: canonical, ${Object.keys(PROVIDER_ADAPTERS).join(', ')}`);
+  }
+  return adapter;
+}
+
+/**
+ * Reads the adapter context (match id, kickoff, teams) from the query string
+ */
+export function resolveAdapterContext(event: APIGatewayProxyEvent): AdapterContext {
+  const query = event.queryStringParameters || {};
+  return {
+    matchId: query.match_id,
+    kickoff: query.kickoff,
+    homeTeam: query.home_team,
+    awayTeam: query.away_team,
+  };
+}
+
+/**
+ * Resolves the adapter and its context from an API Gateway request
+ */
+export function resolveRequestAdapter(event: APIGatewayProxyEvent): { adapter: ProviderAdapter | null; context: AdapterContext } {
+  const query = event.queryStringParameters || {};
+  return {
+    adapter: resolveAdapter(query.source, getHeader(event.headers, 'Content-Type')),
+    context: resolveAdapterContext(event),
+  };
+}
+
+/**
+ * Splits a multi-event body into ingestion items
+ * @param adapter Provider adapter, or null for canonical events (JSON array or NDJSON)
+ * @param body Raw request body
+ * @param context Adapter context
+ * @returns Items in body order with their provider payloads, plus skipped provider events
+ */
+export function parseProviderBody(
+  adapter: ProviderAdapter | null,
+  body: string | null,
+  context: AdapterContext
+): ParsedProviderBody {
+  if (!adapter) {
+    return { items: parseBatchBody(body), providerPayloads: [], skipped: [] };
+  }
+
+  const adapted = adapter.normalize(body || '', context);
+  return {
+    items: adapted.events.map((normalized) => normalized.event),
+    providerPayloads: adapted.events.map((normalized) => normalized.source),
+    skipped: adapted.skipped,
+  };
+}
@@ -0,0 +1,199 @@
+// File: adapters/statsbomb-adapter.ts
+import { AdapterContext, AdapterResult, ProviderAdapter } from '../dtos/provider-adapters';
+import { ShotBodyPart, ShotOutcome, ShotSituation } from '../dtos/event-schemas';
+import { toPitchPosition } from '../utils/pitch';
+import { getFinalPeriod, invalidPayload, matchTimestamp, periodMarkerEventType } from './adapter-utils';
+
+const STATSBOMB_PITCH_LENGTH = 120;
+const STATSBOMB_PITCH_WIDTH = 80;
+
+const CARD_TYPES: Record<string, { card_type: 'yellow' | 'red'; second_yellow?: boolean }> = {
+  'Yellow Card': { card_type: 'yellow' },
+  'Second Yellow': { card_type: 'yellow', second_yellow: true },
+  'Red Card': { card_type: 'red' },
+};
+
+const SHOT_BODY_PARTS: Record<string, ShotBodyPart> = {
+  'Right Foot': 'foot',
+  'Left Foot': 'foot',
+  Head: 'head',
+  Other: 'other',
+};
+
+const SHOT_SITUATIONS: Record<string, ShotSituation> = {
+  'Open Play': 'open_play',
+  Penalty: 'penalty',
+  'Free Kick': 'set_piece',
+  Corner: 'set_piece',
+  'Kick Off': 'set_piece',
+};
+
+const SHOT_OUTCOMES: Record<string, ShotOutcome> = {
+  Goal: 'goal',
+  Saved: 'saved',
+  'Saved To Post': 'saved',
+  Blocked: 'blocked',
+  Post: 'post',
+  'Off T': 'off_target',
+  Wayward: 'off_target',
+  'Saved Off Target': 'off_target',
+};
+
+/**
+ * Converts StatsBomb open-data event JSON (an array of events, or a single event)
+ * into canonical events. StatsBomb events carry no match id, so it comes from the context.
+ */
+export class StatsBombAdapter implements ProviderAdapter {
+  public readonly source = 'statsbomb';
+
+  public normalize(body: string, context: AdapterContext): AdapterResult {
+    let payload: any;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      throw invalidPayload('StatsBomb payload is not valid JSON');
+    }
+
+    if (!context.matchId) {
+      throw invalidPayload('match_id query parameter is required for StatsBomb payloads');
+    }
+    // StatsBomb clocks are relative to the kickoff; there is no absolute time to fall back to
+    if (!context.kickoff) {
+      throw invalidPayload('kickoff query parameter is required for StatsBomb payloads');
+    }
+
+    const providerEvents: any[] = Array.isArray(payload) ? payload : [payload];
+    // A Half End is fulltime only when no later period (extra time, penalties) follows it
+    const finalPeriod = getFinalPeriod(providerEvents.map((providerEvent) => providerEvent?.period));
+    const result: AdapterResult = { events: [], skipped: [] };
+    // StatsBomb emits Half Start / Half End once per team; keep one per period
+    const seenPeriodMarkers = new Set<string>();
+
+    for (const providerEvent of providerEvents) {
+      const typeName: string | undefined = providerEvent?.type?.name;
+      const base = this.baseEvent(providerEvent, context);
+      const emit = (event: Record<string, any>) =>
+        result.events.push({ event: { ...base, ...event }, source: providerEvent });
+      const skip = (reason: string) => result.skipped.push({ reason, providerEventId: providerEvent?.id });
+
+      switch (typeName) {
+        case 'Pass': {
+          // Incomplete passes often have no recipient; a completed pass without one is unusable
+          if (!providerEvent.pass?.recipient?.name && !providerEvent.pass?.outcome) {
+            skip('Pass without a recipient');
+            break;
+          }
+          emit({
+            event_type: 'pass',
+            from_player: providerEvent.player?.name,
+            to_player: providerEvent.pass.recipient?.name,
+            success: !providerEvent.pass.outcome,
+            outcome: providerEvent.pass.recipient?.name ? undefined : 'incomplete',
+            out_of_play: providerEvent.pass.outcome?.name === 'Out' || undefined,
+            end_position: this.position(providerEvent.pass.end_location),
+          });
+          break;
+        }
+        case 'Shot': {
+          if (!base.position) {
+            skip('Shot without a location');
+          } else {
+            emit({
+              event_type: 'shot',
+              player: providerEvent.player?.name,
+              body_part: SHOT_BODY_PARTS[providerEvent.shot?.body_part?.name] || 'other',
+              situation: SHOT_SITUATIONS[providerEvent.shot?.type?.name] || 'open_play',
+              outcome: SHOT_OUTCOMES[providerEvent.shot?.outcome?.name],
+            });
+          }
+          if (providerEvent.shot?.outcome?.name === 'Goal') {
+            emit({
+              event_type: 'goal',
+              player: providerEvent.player?.name,
+              body_part: providerEvent.shot?.body_part?.name,
+            });
+          }
+          break;
+        }
+        case 'Own Goal Against': {
+          emit({ event_type: 'goal', player: providerEvent.player?.name, own_goal: true });
+          break;
+        }
+        case 'Foul Committed': {
+          emit({ event_type: 'foul', player: providerEvent.player?.name });
+          const card = CARD_TYPES[providerEvent.foul_committed?.card?.name];
+          if (card) {
+            emit({ event_type: 'card', player: providerEvent.player?.name, ...card });
+          }
+          break;
+        }
+        case 'Bad Behaviour': {
+          const card = CARD_TYPES[providerEvent.bad_behaviour?.card?.name];
+          if (!card) {
+            skip('Bad Behaviour without a card');
+            break;
+          }
+          emit({ event_type: 'card', player: providerEvent.player?.name, ...card });
+          break;
+        }
+        case 'Substitution': {
+          emit({
+            event_type: 'substitution',
+            player_out: providerEvent.player?.name,
+            player_in: providerEvent.substitution?.replacement?.name,
+          });
+          break;
+        }
+        case 'Half Start':
+        case 'Half End': {
+          const eventType = periodMarkerEventType(typeName === 'Half Start' ? 'start' : 'end', providerEvent.period, finalPeriod);
+          const markerKey = `${typeName}#${providerEvent.period}`;
+          if (!eventType || seenPeriodMarkers.has(markerKey)) {
+            skip(`Unmapped or duplicate ${typeName} marker`);
+            break;
+          }
+          seenPeriodMarkers.add(markerKey);
+          const { team, team_id, ...matchLevel } = base;
+          result.events.push({
+            event: {
+              ...matchLevel,
+              event_type: eventType,
+              home_team: context.homeTeam,
+              away_team: context.awayTeam,
+            },
+            source: providerEvent,
+          });
+          break;
+        }
+        default:
+          skip(`Unsupported StatsBomb event type: ${typeName}`);
+      }
+    }
+
+    return result;
+  }
+
+  private baseEvent(providerEvent: any, context: AdapterContext): Record<string, any> {
+    const minute = Number(providerEvent?.minute) || 0;
+    const second = Number(providerEvent?.second) || 0;
+    return {
+      match_id: context.matchId,
+      timestamp: matchTimestamp(context.kickoff, minute, second),
+      team: providerEvent?.team?.name,
+      team_id: providerEvent?.team?.id,
+      player_id: providerEvent?.player?.id !== undefined ? String(providerEvent.player.id) : undefined,
+      minute,
+      second,
+      period: providerEvent?.period,
+      position: this.position(providerEvent?.location),
+      source_provider: this.source,
+      source_event_id: providerEvent?.id,
+    };
+  }
+
+  private position(location: unknown) {
+    return Array.isArray(location)
+      ? toPitchPosition(location[0], location[1], STATSBOMB_PITCH_LENGTH, STATSBOMB_PITCH_WIDTH)
+      : undefined;
+  }
+}
@@ -1,6 +1,7 @@
 import * as AWS from 'aws-sdk';
 import { BaseClient } from './base-client';
 import { AppContext } from '../../lib/utils/app-context';
+import { createDLQEnvelope } from '../utils/dlq';
 
 export class DynamoDBClient extends BaseClient {
   checkTableExists(arg0: string) {
@@ -117,7 +118,14 @@ export class DynamoDBClient extends BaseClient {
    */
   public async putItem<T extends AWS.DynamoDB.DocumentClient.PutItemInputAttributeMap>(
     tableKey: keyof AppContext['dynamoTables'],
-    item: T
+    item: T,
+    options: {
+      conditionExpression?: string;
+      expressionAttributeNames?: Record<string, string>;
+      expressionAttributeValues?: Record<string, any>;
+      // Only event items can be redriven; other writes fail without a DLQ message
+      sendToDLQOnFailure?: boolean;
+    } = {}
   ): Promise<T> {
     const tableName = this.getTableName(tableKey); // ✅ Ensure table exists
   
@@ -125,7 +133,13 @@ export class DynamoDBClient extends BaseClient {
       this.logger.debug('Putting item into DynamoDB', { tableName, item });
   
       await this.withRetry(() =>
-        this.docClient.put({ TableName: tableName, Item: item }).promise()
+        this.docClient.put({
+          TableName: tableName,
+          Item: item,
+          ConditionExpression: options.conditionExpression,
+          ExpressionAttributeNames: options.expressionAttributeNames,
+          ExpressionAttributeValues: options.expressionAttributeValues,
+        }).promise()
       );
   
       this.logger.info('Successfully put item into DynamoDB', { tableName, item });
@@ -133,11 +147,18 @@ export class DynamoDBClient extends BaseClient {
       return item;
     } catch (err) {
       const error = err instanceof Error ? err : new Error(String(err));
+
+      // A failed condition is an expected outcome for the caller, not a write failure
+      if (DynamoDBClient.isConditionalCheckFailed(error)) {
+        this.logger.debug('Conditional put rejected by DynamoDB', { tableName, conditionExpression: options.conditionExpression });
+        throw error;
+      }
+
       this.logger.error('Failed to put item into DynamoDB', error, { tableName });
   
       // **Fallback: Send to SQS DLQ for later retry**
-      if (this.dlqUrl) {
-        await this.sendToDLQ(item, tableName);
+      if (this.dlqUrl && options.sendToDLQOnFailure) {
+        await this.sendToDLQ(item, tableName, 'put', error);
       }
   
       throw error;
@@ -175,27 +196,51 @@ export class DynamoDBClient extends BaseClient {
       return result;
     } catch (err: unknown) {
       const error = err instanceof Error ? err : new Error(String(err));
+      // An update is not an event, so it cannot be redriven from the DLQ
       this.logger.error('Failed to update item in DynamoDB', error, { tableName, key, updateExpression });
+      throw error;
+    }
+  }
 
-      // **Fallback: Send to SQS DLQ for later retry**
-      if (this.dlqUrl) {
-        await this.sendToDLQ({ key, updateExpression, expressionAttributeValues }, tableName);
-      }
+  /**
+   * Delete a single item by key
+   */
+  public async deleteItem(
+    tableKey: keyof AppContext['dynamoTables'],
+    key: Record<string, any>
+  ): Promise<void> {
+    const tableName = this.getTableName(tableKey);
+
+    try {
+      this.logger.debug('Deleting item from DynamoDB', { tableName, key });
 
+      await this.withRetry(() => this.docClient.delete({ TableName: tableName, Key: key }).promise());
+
+      this.logger.info('Successfully deleted item from DynamoDB', { tableName, key });
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      this.logger.error('Failed to delete item from DynamoDB', error, { tableName, key });
       throw error;
     }
   }
 
+  /**
+   * Whether an error was caused by a ConditionExpression evaluating to false
+   */
+  public static isConditionalCheckFailed(error: any): boolean {
+    return Boolean(error) && (error.code === 'ConditionalCheckFailedException' || error.name === 'ConditionalCheckFailedException');
+  }
+
   /**
    * Send failed operations to SQS DLQ
    */
-  private async sendToDLQ<T>(item: T, tableName: string): Promise<void> {
+  private async sendToDLQ(item: Record<string, any>, tableName: string, operation: 'put', error: Error): Promise<void> {
     try {
-      const messageBody = JSON.stringify({
-        tableName,
-        item,
-        failedAt: new Date().toISOString(),
-      });
+      const messageBody = JSON.stringify(createDLQEnvelope(item, {
+        origin: 'dynamodb-write',
+        error,
+        context: { table_name: tableName, operation },
+      }));
 
       await this.sqs
         .sendMessage({
@@ -8,6 +8,7 @@ import { BaseClient } from './base-client';
 import { AppContext } from '../../lib/utils/app-context';
 import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
 import { S3Client } from './s3-client';
+import { createDLQEnvelope } from '../utils/dlq';
 
 interface EventBridgeClientConfig {
   eventBusName: string;
@@ -21,6 +22,23 @@ interface PublishOptions {
   timeToLive?: number; // TTL in seconds
 }
 
+export interface MatchEventEntry {
+  matchId: string | number;
+  eventType: string;
+  detail: Record<string, any>;
+  idempotencyKey?: string;
+}
+
+export interface MatchEventEntryResult {
+  index: number;
+  eventId?: string;
+  errorCode?: string;
+  errorMessage?: string;
+}
+
+// PutEvents accepts at most 10 entries per call
+const MAX_ENTRIES_PER_PUT = 10;
+
 export class EventBridgeClient extends BaseClient {
   private readonly client: AwsEventBridgeClient;
   private readonly sqsClient: SQSClient;
@@ -174,10 +192,115 @@ export class EventBridgeClient extends BaseClient {
         }
       );
       // Send to DLQ if EventBridge fails
-      await this.sendToDLQ(matchId, eventType, detail, idempotencyKey);
+      await this.sendToDLQ(matchId, eventType, detail, idempotencyKey, err);
       throw err;
     }
   }
+
+  /**
+   * Publishes several events using multi-entry PutEvents calls.
+   * Never throws for individual failures: each entry gets its own result and
+   * failed entries are sent to the DLQ.
+   */
+  public async publishMatchEvents(entries: MatchEventEntry[]): Promise<MatchEventEntryResult[]> {
+    const results: MatchEventEntryResult[] = [];
+
+    for (let offset = 0; offset < entries.length; offset += MAX_ENTRIES_PER_PUT) {
+      const chunk = entries.slice(offset, offset + MAX_ENTRIES_PER_PUT);
+      const requestEntries = chunk.map((entry) => ({
+        EventBusName: this.config.eventBusName,
+        Source: this.config.eventSource,
+        DetailType: entry.eventType,
+        Detail: JSON.stringify({
+          match_id: entry.matchId,
+          ...entry.detail,
+        }),
+        Time: new Date(),
+      }));
+
+      this.logger.info('Publishing event batch to EventBridge', {
+        entryCount: chunk.length,
+        offset,
+        eventBus: this.config.eventBusName,
+      });
+
+      let chunkResults: MatchEventEntryResult[];
+      try {
+        const result = await this.retryWithBackoff(
+          () => this.client.send(new PutEventsCommand({ Entries: requestEntries })),
+          3, // Max retries
+          500 // Initial delay (ms)
+        );
+
+        // Result entries are returned in the same order as the request entries
+        chunkResults = chunk.map((_, i) => {
+          const resultEntry = result.Entries?.[i];
+          return resultEntry?.ErrorCode
+            ? { index: offset + i, errorCode: resultEntry.ErrorCode, errorMessage: resultEntry.ErrorMessage }
+            : { index: offset + i, eventId: resultEntry?.EventId };
+        });
+      } catch (err: any) {
+        this.logger.error('Failed to publish event batch to EventBridge', err, {
+          entryCount: chunk.length,
+          offset,
+          eventBus: this.config.eventBusName,
+        });
+        chunkResults = chunk.map((_, i) => ({
+          index: offset + i,
+          errorCode: 'PublishFailed',
+          errorMessage: err instanceof Error ? err.message : String(err),
+        }));
+      }
+
+      for (const chunkResult of chunkResults) {
+        const entry = entries[chunkResult.index];
+        const idempotencyKey = entry.idempotencyKey || `${entry.matchId}-${entry.eventType}-${Date.now()}`;
+        if (chunkResult.errorCode) {
+          await this.sendToDLQ(
+            entry.matchId,
+            entry.eventType,
+            entry.detail,
+            idempotencyKey,
+            new Error(`${chunkResult.errorCode}: ${chunkResult.errorMessage || 'Failed to publish event'}`)
+          );
+        } else {
+          this.cacheEvent(idempotencyKey);
+        }
+        results.push(chunkResult);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Publishes one event with the configured source, without the DLQ fallback;
+   * for callers that handle a failure themselves (redrives from the DLQ)
+   * @returns The EventBridge event id
+   * @throws Error when the entry is rejected
+   */
+  public async putEvent(detailType: string, detail: Record<string, any>): Promise<string | undefined> {
+    const result = await this.retryWithBackoff(
+      () => this.client.send(new PutEventsCommand({
+        Entries: [{
+          EventBusName: this.config.eventBusName,
+          Source: this.config.eventSource,
+          DetailType: detailType,
+          Detail: JSON.stringify(detail),
+          Time: new Date(),
+        }],
+      })),
+      3, // Max retries
+      500 // Initial delay (ms)
+    );
+
+    const entry = result.Entries?.[0];
+    if (!entry || entry.ErrorCode) {
+      throw new Error(`Failed to publish event: ${entry?.ErrorCode} - ${entry?.ErrorMessage}`);
+    }
+    return entry.EventId;
+  }
+
   /**
    * Sends failed events to Dead-Letter Queue (DLQ)
    */
@@ -185,19 +308,24 @@ export class EventBridgeClient extends BaseClient {
     matchId: string | number,
     eventType: string,
     detail: Record<string, any>,
-    idempotencyKey: string
+    idempotencyKey: string,
+    error?: unknown
   ) {
+    // The payload is the detail as published, so a redrive republishes the same event
+    const envelope = createDLQEnvelope({ match_id: matchId, ...detail }, {
+      origin: 'eventbridge-publish',
+      reason: 'publish_failed',
+      error,
+      eventSource: this.config.eventSource,
+      detailType: eventType,
+    });
+    envelope.idempotency_key = idempotencyKey;
+
     try {
       await this.sqsClient.send(
         new SendMessageCommand({
           QueueUrl: this.config.deadLetterQueueUrl,
-          MessageBody: JSON.stringify({
-            match_id: matchId,
-            event_type: eventType,
-            idempotency_key: idempotencyKey,
-            payload: detail,
-            failed_at: new Date().toISOString(),
-          }),
+          MessageBody: JSON.stringify(envelope),
         })
       );
 
@@ -210,13 +338,7 @@ export class EventBridgeClient extends BaseClient {
       await this.s3Client.uploadRawData(
         'errors',
         s3Key,
-        JSON.stringify({
-          match_id: matchId,
-          event_type: eventType,
-          idempotency_key: idempotencyKey,
-          payload: detail,
-          failed_at: new Date().toISOString(),
-        }),
+        JSON.stringify(envelope),
         { contentType: 'application/json' }
       );
 
@@ -0,0 +1,34 @@
+import * as AWS from 'aws-sdk';
+import { BaseClient } from './base-client';
+import { AppContext } from '../../lib/utils/app-context';
+
+export class LambdaClient extends BaseClient {
+  private readonly lambda: AWS.Lambda;
+
+  constructor(context: AppContext) {
+    super(context);
+    this.lambda = new AWS.Lambda({ region: context.region, endpoint: this.endpoint });
+  }
+
+  /**
+   * Starts a function without waiting for its result (InvocationType Event)
+   * @param functionName Function name or ARN
+   * @param payload Event passed to the function
+   */
+  public async invokeAsync(functionName: string, payload: Record<string, any>): Promise<void> {
+    try {
+      await this.withRetry(
+        () => this.lambda.invoke({
+          FunctionName: functionName,
+          InvocationType: 'Event',
+          Payload: JSON.stringify(payload),
+        }).promise(),
+        'invokeAsync'
+      );
+      this.logInfo('Started asynchronous invocation', { functionName });
+    } catch (error: any) {
+      this.logError('Failed to invoke function', error, { functionName });
+      throw error;
+    }
+  }
+}
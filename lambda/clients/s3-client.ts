@@ -1,4 +1,5 @@
 import * as AWS from 'aws-sdk';
+import { Readable } from 'stream';
 import { BaseClient } from './base-client';
 import { AppContext } from '../../lib/utils/app-context';
 
@@ -162,6 +163,43 @@ export class S3Client extends BaseClient {
     }
   }
 
+  /**
+   * Lists every object key under a prefix, following continuation tokens.
+   */
+  public async listObjectKeys(
+    bucketType: keyof AppContext['s3Buckets'],
+    prefix: string
+  ): Promise<string[]> {
+    const bucketName = this.context.getS3BucketName(bucketType);
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+
+    try {
+      do {
+        const page = await this.withRetry(() =>
+          this.s3.listObjectsV2({ Bucket: bucketName, Prefix: prefix, ContinuationToken: continuationToken }).promise()
+        );
+        (page.Contents || []).forEach((object) => object.Key && keys.push(object.Key));
+        continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+      } while (continuationToken);
+
+      this.logInfo('Listed objects in S3', { bucketName, prefix, count: keys.length });
+
+      return keys;
+    } catch (err: any) {
+      this.logError('Failed to list objects in S3', err, { bucketName, prefix });
+      throw err;
+    }
+  }
+
+  /**
+   * Opens a read stream over an object, so large files are never held in memory.
+   */
+  public getObjectStream(bucketName: string, key: string): Readable {
+    this.logDebug('Streaming object from S3', { bucketName, key });
+    return this.s3.getObject({ Bucket: bucketName, Key: key }).createReadStream();
+  }
+
   /**
    * Logs error details to a dedicated error bucket.
    */
@@ -0,0 +1,49 @@
+import * as AWS from 'aws-sdk';
+import { BaseClient } from './base-client';
+import { AppContext } from '../../lib/utils/app-context';
+
+const SECRET_CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Shared by every invocation of a warm Lambda container
+const secretCache = new Map<string, { value: string; expiresAt: number }>();
+
+export class SecretsClient extends BaseClient {
+  private readonly secretsManager: AWS.SecretsManager;
+
+  constructor(context: AppContext) {
+    super(context);
+    this.secretsManager = new AWS.SecretsManager({ region: context.region, endpoint: this.endpoint });
+  }
+
+  /**
+   * Reads a secret string, cached for a few minutes so rotation is picked up without a redeploy
+   * @param secretId Secret name or ARN
+   * @returns The secret string, or null when the secret does not exist
+   */
+  public async getSecretString(secretId: string): Promise<string | null> {
+    const cached = secretCache.get(secretId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value;
+    }
+
+    try {
+      const result = await this.withRetry(
+        () => this.secretsManager.getSecretValue({ SecretId: secretId }).promise(),
+        'getSecretValue'
+      );
+      if (result.SecretString === undefined) {
+        return null;
+      }
+
+      secretCache.set(secretId, { value: result.SecretString, expiresAt: Date.now() + SECRET_CACHE_TTL_MS });
+      return result.SecretString;
+    } catch (error: any) {
+      if (error.code === 'ResourceNotFoundException') {
+        this.logWarn('Secret not found', { secretId });
+        return null;
+      }
+      this.logError('Failed to read secret', error, { secretId });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import * as AWS from 'aws-sdk';
+import { BaseClient } from './base-client';
+import { AppContext } from '../../lib/utils/app-context';
+
+// ChangeMessageVisibilityBatch accepts at most 10 entries per call
+const MAX_ENTRIES_PER_BATCH = 10;
+
+export class SQSClient extends BaseClient {
+  private readonly sqs: AWS.SQS;
+
+  constructor(context: AppContext) {
+    super(context);
+    this.sqs = new AWS.SQS({ region: context.region, endpoint: this.endpoint });
+  }
+
+  /**
+   * Receives messages with all system and message attributes
+   * @param queueUrl Queue URL
+   * @param options Batch size (at most 10) and how long the messages stay hidden
+   */
+  public async receiveMessages(
+    queueUrl: string,
+    options: { maxMessages: number; visibilityTimeout: number }
+  ): Promise<AWS.SQS.Message[]> {
+    try {
+      const result = await this.withRetry(
+        () => this.sqs.receiveMessage({
+          QueueUrl: queueUrl,
+          MaxNumberOfMessages: options.maxMessages,
+          VisibilityTimeout: options.visibilityTimeout,
+          WaitTimeSeconds: 0,
+          AttributeNames: ['All'],
+          MessageAttributeNames: ['All'],
+        }).promise(),
+        'receiveMessages'
+      );
+      return result.Messages || [];
+    } catch (error: any) {
+      this.logError('Failed to receive messages', error, { queueUrl });
+      throw error;
+    }
+  }
+
+  public async sendMessage(queueUrl: string, body: Record<string, any>): Promise<string | undefined> {
+    try {
+      const result = await this.withRetry(
+        () => this.sqs.sendMessage({ QueueUrl: queueUrl, MessageBody: JSON.stringify(body) }).promise(),
+        'sendMessage'
+      );
+      this.logInfo('Sent message', { queueUrl, messageId: result.MessageId });
+      return result.MessageId;
+    } catch (error: any) {
+      this.logError('Failed to send message', error, { queueUrl });
+      throw error;
+    }
+  }
+
+  public async deleteMessage(queueUrl: string, receiptHandle: string): Promise<void> {
+    try {
+      await this.withRetry(
+        () => this.sqs.deleteMessage({ QueueUrl: queueUrl, ReceiptHandle: receiptHandle }).promise(),
+        'deleteMessage'
+      );
+    } catch (error: any) {
+      this.logError('Failed to delete message', error, { queueUrl });
+      throw error;
+    }
+  }
+
+  /**
+   * Sets the visibility timeout of received messages; 0 makes them visible again
+   * @param queueUrl Queue URL
+   * @param receiptHandles Receipt handles from the receive
+   * @param visibilityTimeout Seconds
+   */
+  public async changeVisibility(queueUrl: string, receiptHandles: string[], visibilityTimeout: number): Promise<void> {
+    for (let offset = 0; offset < receiptHandles.length; offset += MAX_ENTRIES_PER_BATCH) {
+      const entries = receiptHandles.slice(offset, offset + MAX_ENTRIES_PER_BATCH).map((receiptHandle, i) => ({
+        Id: String(offset + i),
+        ReceiptHandle: receiptHandle,
+        VisibilityTimeout: visibilityTimeout,
+      }));
+
+      try {
+        const result = await this.withRetry(
+          () => this.sqs.changeMessageVisibilityBatch({ QueueUrl: queueUrl, Entries: entries }).promise(),
+          'changeVisibility'
+        );
+        if (result.Failed.length > 0) {
+          // Messages not released become visible again when their timeout runs out
+          this.logWarn('Could not change the visibility of some messages', { queueUrl, failed: result.Failed.length });
+        }
+      } catch (error: any) {
+        this.logError('Failed to change message visibility', error, { queueUrl });
+        throw error;
+      }
+    }
+  }
+}
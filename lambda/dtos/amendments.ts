@@ -0,0 +1,39 @@
+export type AmendmentType = 'correction' | 'retraction';
+
+/**
+ * Amendment event: event_id is the amendment's own id, parent_id the amended event.
+ * Stored next to the amended event with sk = AMENDMENT#<parent_id>#<amended_at>#<event_id>
+ */
+export interface AmendmentEvent {
+  event_id: string;
+  parent_id: string;
+  match_id: string | number;
+  event_type: 'amendment';
+  amendment_type: AmendmentType;
+  // event_type of the amended event, so queries can select amendments by type
+  amended_event_type: string;
+  // Corrected fields; null removes a field
+  changes?: Record<string, any>;
+  reason?: string;
+  amended_by: string;
+  amended_at: string;
+  season: string;
+  timestamp: string;
+  [key: string]: any;
+}
+
+export interface AmendmentHistory {
+  original: Record<string, any>;
+  amendments: AmendmentEvent[];
+}
+
+/**
+ * An event as returned by the query endpoints, with its amendments applied
+ */
+export interface AmendedEvent extends Record<string, any> {
+  amended?: boolean;
+  last_amended_at?: string;
+  // Only present with ?include=history
+  retracted?: boolean;
+  history?: AmendmentHistory;
+}
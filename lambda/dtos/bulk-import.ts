@@ -0,0 +1,34 @@
+export type ImportFormat = 'csv' | 'ndjson';
+
+/**
+ * One data row of an import file; row is the 1-based line number where the row starts
+ */
+export interface ImportRecord {
+  row: number;
+  // Rows that could not be parsed are passed on as errors and reported as rejected
+  item: Record<string, any> | Error;
+}
+
+export interface RejectedRow {
+  row: number;
+  errors: string[];
+}
+
+export interface ImportReport {
+  bucket: string;
+  key: string;
+  format: ImportFormat;
+  status: 'completed' | 'failed';
+  started_at: string;
+  completed_at: string;
+  rows: {
+    total: number;
+    accepted: number;
+    rejected: number;
+    failed: number;
+  };
+  rejected_rows: RejectedRow[];
+  // Set when more rejected/failed rows were found than the report lists
+  rejected_rows_truncated?: boolean;
+  error?: string;
+}
@@ -0,0 +1,104 @@
+// Where a DLQ message came from
+export type DLQOrigin =
+  | 'event-processing'   // LambdaUtils.sendToDLQ from the processing Lambda
+  | 'ingestion'          // LambdaUtils.sendToDLQ from the API handlers
+  | 'eventbridge-publish' // EventBridgeClient.sendToDLQ
+  | 'dynamodb-write'     // DynamoDBClient.sendToDLQ
+  | 'eventbridge-rule'   // the processing rule's target DLQ (written by EventBridge)
+  | 'sqs-redrive'        // the processing queue's redrive policy (moved by SQS)
+  | 'unknown';
+
+export type DLQFailureReason =
+  | 'validation'
+  | 'rule_violation'
+  | 'conditional_check'
+  | 'throttling'
+  | 'timeout'
+  | 'not_found'
+  | 'publish_failed'
+  | 'delivery_failed'
+  | 'max_receives_exceeded'
+  | 'processing_error'
+  | 'unknown';
+
+export type DLQRedriveTarget = 'queue' | 'bus';
+
+/**
+ * Body every producer sends to the DLQ
+ */
+export interface DLQEnvelope {
+  envelope_version: number;
+  origin: DLQOrigin;
+  reason: DLQFailureReason;
+  error_message?: string;
+  error_name?: string;
+  failed_at: string;
+  retry_count: number;
+  match_id?: string;
+  event_type?: string;
+  idempotency_key?: string;
+  // Event source and detail type to use when the payload is redriven to the event bus
+  event_source?: string;
+  detail_type?: string;
+  // The failed event (or write) itself
+  payload: Record<string, any>;
+  context?: Record<string, any>;
+}
+
+/**
+ * What a producer knows about a failure
+ */
+export interface DLQFailure {
+  origin: DLQOrigin;
+  error?: unknown;
+  reason?: DLQFailureReason;
+  eventSource?: string;
+  detailType?: string;
+  context?: Record<string, any>;
+}
+
+/**
+ * A message read from the DLQ, in envelope form whatever shape it was sent in
+ */
+export interface DLQMessage {
+  message_id: string;
+  receipt_handle?: string;
+  sent_at?: string;
+  receive_count: number;
+  envelope: DLQEnvelope;
+  // Body was not an envelope (sent by EventBridge, SQS or an older producer)
+  normalized: boolean;
+}
+
+export interface DLQMessageSummary {
+  message_id: string;
+  origin: DLQOrigin;
+  reason: DLQFailureReason;
+  error_message?: string;
+  failed_at: string;
+  match_id?: string;
+  event_type?: string;
+}
+
+export interface DLQMessageGroup {
+  origin: DLQOrigin;
+  reason: DLQFailureReason;
+  count: number;
+  oldest: string;
+  newest: string;
+  messages: DLQMessageSummary[];
+}
+
+/**
+ * Audit record written for every redrive and discard
+ */
+export interface DLQAuditRecord {
+  action: 'redrive' | 'discard';
+  message_id: string;
+  target?: DLQRedriveTarget;
+  note?: string;
+  actor: string;
+  payload_changed: boolean;
+  performed_at: string;
+  envelope: DLQEnvelope;
+}
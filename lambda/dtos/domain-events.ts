@@ -0,0 +1,12 @@
+export type DomainEventType = 'match.score_changed' | 'match.status_changed' | 'player.sent_off';
+
+/**
+ * Higher-level event derived from a change of a match record
+ */
+export interface DomainEvent {
+  event_type: DomainEventType;
+  match_id: string;
+  // Stable per change, so stream retries do not publish an event twice
+  idempotency_key: string;
+  detail: Record<string, any>;
+}
@@ -0,0 +1,19 @@
+import { MatchRuleViolation } from './match-rules';
+
+export type EventProcessingStatus = 'success' | 'skipped' | 'rejected' | 'quarantined';
+
+export interface EventProcessingResult {
+  status: EventProcessingStatus;
+  matchId: string | number;
+  eventId: string;
+  sequence?: number;
+  late?: boolean;
+  // Rules the event broke (rejected and quarantined events)
+  violations?: MatchRuleViolation[];
+  message: string;
+}
+
+export interface EventProcessorOptions {
+  // Local stacks key every delivery uniquely instead of by its content
+  uniqueIdempotencyKeys?: boolean;
+}
@@ -0,0 +1,47 @@
+import { EventType } from './event-schemas';
+
+export type EventQueryOrder = 'asc' | 'desc';
+
+/**
+ * Which events of a match GET /matches/{match_id}/events returns
+ */
+export interface EventQueryFilter {
+  type?: EventType;
+  // Team name, or Home / Away
+  team?: string;
+  // Matches any player field of an event (player, from_player, to_player, player_in, player_out)
+  player?: string;
+  // Inclusive minute range; events without a minute are left out when a range is set
+  from_minute?: number;
+  to_minute?: number;
+  period?: number;
+}
+
+export interface EventQuery {
+  filter: EventQueryFilter;
+  order: EventQueryOrder;
+  limit: number;
+  // Cursor token returned by the previous page
+  cursor?: string;
+}
+
+/**
+ * Content of a cursor token, before it is encoded and signed
+ */
+export interface EventCursorPayload {
+  match_id: string;
+  // Fingerprint of the filter and order the cursor was issued for
+  query: string;
+  // DynamoDB key of the last item read
+  key: Record<string, any>;
+}
+
+export interface EventPage {
+  matchId: string;
+  order: EventQueryOrder;
+  filter: EventQueryFilter;
+  count: number;
+  events: Record<string, any>[];
+  // Absent on the last page
+  next_cursor?: string;
+}
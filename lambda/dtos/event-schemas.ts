@@ -0,0 +1,61 @@
+import { ValidationRule } from './lambda-utils';
+
+export type EventType =
+  | 'goal'
+  | 'shot'
+  | 'pass'
+  | 'foul'
+  | 'card'
+  | 'substitution'
+  | 'lineup'
+  | 'kickoff'
+  | 'halftime'
+  | 'fulltime'
+  | 'abandoned'
+  | 'postponed';
+
+export type CardType = 'yellow' | 'red';
+
+export type ShotBodyPart = 'foot' | 'head' | 'other';
+
+export type ShotSituation = 'open_play' | 'set_piece' | 'penalty';
+
+export type ShotOutcome = 'goal' | 'saved' | 'blocked' | 'post' | 'off_target';
+
+export type PassOutcome = 'complete' | 'incomplete';
+
+export interface EventSchema {
+  eventType: EventType;
+  description: string;
+  // Player actions must say which team they belong to; match-level events (kickoff, ...) need not
+  requiresTeam: boolean;
+  rules: ValidationRule[];
+}
+
+export interface SchemaValidationOptions {
+  // Ingestion additionally rejects timestamps outside the accepted time window
+  ingestion?: boolean;
+}
+
+/**
+ * Canonical event shape shared by ingestion, processing and querying
+ */
+export interface MatchEvent {
+  match_id: string | number;
+  event_type: EventType;
+  timestamp: string;
+  team?: string;
+  player?: string;
+  minute?: number;
+  second?: number;
+  [field: string]: any;
+}
+
+/**
+ * Converts a stored event from one schema version to the next
+ */
+export interface SchemaUpcaster {
+  fromVersion: number;
+  description: string;
+  upcast(event: Record<string, any>): Record<string, any>;
+}
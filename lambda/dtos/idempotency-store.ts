@@ -0,0 +1,29 @@
+export type IdempotencyStatus = 'IN_PROGRESS' | 'COMPLETED';
+
+export interface IdempotencyRecord {
+  pk: string;
+  sk: string;
+  idempotency_key: string;
+  status: IdempotencyStatus;
+  request_hash: string;
+  created_at: string;
+  lock_expires_at: number; // epoch seconds, lets a retry take over a crashed request
+  expires_at: number; // epoch seconds, DynamoDB TTL attribute
+  response_status_code?: number;
+  response_body?: string;
+  completed_at?: string;
+}
+
+export interface StoredResponse {
+  statusCode: number;
+  body: string;
+}
+
+// Signed webhook delivery, kept until its signature leaves the tolerance window
+export interface WebhookDeliveryRecord {
+  pk: string;
+  sk: string;
+  provider_id: string;
+  received_at: string;
+  expires_at: number; // epoch seconds, DynamoDB TTL attribute
+}
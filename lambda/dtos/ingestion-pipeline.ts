@@ -0,0 +1,19 @@
+export type BatchItemStatus = 'accepted' | 'validation_error' | 'failed';
+
+export interface BatchItemResult {
+  index: number;
+  status: BatchItemStatus;
+  event_id?: string;
+  eventBridgeId?: string;
+  errors?: string[];
+  reason?: string;
+  // Accepted by an earlier request with the same idempotency key; not published again
+  replayed?: boolean;
+}
+
+export interface BatchSummary {
+  total: number;
+  accepted: number;
+  validation_error: number;
+  failed: number;
+}
@@ -1,7 +1,8 @@
 // Type definitions
 export interface ValidationRule {
     field: string;
-    validator: (value: any) => boolean;
+    // Receives the whole event too, for fields that depend on another field
+    validator: (value: any, data: Record<string, any>) => boolean;
     message: string;
   }
   
@@ -0,0 +1,42 @@
+/**
+ * Player in a lineup event; feeds may send just the name
+ */
+export interface LineupPlayer {
+  player: string;
+  player_id?: string;
+  position?: string;
+  shirt_number?: number;
+}
+
+/**
+ * Lineup of a team, kept on the match state by team
+ */
+export interface TeamLineup {
+  event_id: string;
+  team: string;
+  // e.g. 4-3-3; outfield lines from defence to attack
+  formation?: string;
+  starting: LineupPlayer[];
+  bench: LineupPlayer[];
+}
+
+export interface LineupPlayerAt extends LineupPlayer {
+  // Minute the player came on; 0 for starters
+  on_minute?: number;
+  // Minute the player was substituted off or sent off
+  off_minute?: number;
+  minutes_played: number;
+}
+
+/**
+ * Who was on the pitch for a team at a given minute
+ */
+export interface TeamLineupAt {
+  team: string;
+  formation?: string;
+  on_pitch: LineupPlayerAt[];
+  // Bench players not used yet
+  bench: LineupPlayerAt[];
+  substituted_off: LineupPlayerAt[];
+  sent_off: LineupPlayerAt[];
+}
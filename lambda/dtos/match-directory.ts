@@ -0,0 +1,41 @@
+/**
+ * Directory item of a match in the matches table: pk = MATCH#<id>, sk = DIRECTORY.
+ * Written with the match's first event, so readers find the season partition
+ * holding its events from the match id alone.
+ */
+export interface MatchDirectoryEntry {
+  pk: string;
+  sk: string;
+  match_id: string;
+  season: string;
+  competition?: string;
+  // Events table partition: SEASON#<season>#MATCH#<id>
+  events_pk: string;
+  // Set when an amendment of one of the match's events is stored; absent on entries written before it was tracked
+  has_amendments?: boolean;
+  registered_at: string;
+}
+
+/**
+ * Where a match's items are stored
+ */
+export interface MatchLocation {
+  match_id: string;
+  season: string;
+  // Events table partition holding the match's events, amendments, player and quarantine items
+  partition_key: string;
+  // False when the match is known to have no amendments
+  has_amendments?: boolean;
+}
+
+/**
+ * One page of a match's events in match order
+ */
+export interface MatchEventPageRequest {
+  // Applied to each event after its amendments
+  filter: (event: Record<string, any>) => boolean;
+  // Reverse match order when false
+  ascending: boolean;
+  limit: number;
+  exclusiveStartKey?: Record<string, any>;
+}
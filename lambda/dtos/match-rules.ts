@@ -0,0 +1,53 @@
+export type MatchRuleId =
+  | 'sent_off_player'
+  | 'substituted_player'
+  | 'third_yellow'
+  | 'substitute_already_played'
+  | 'max_substitutions'
+  | 'lifecycle_transition'
+  | 'match_not_in_play'
+  | 'period_mismatch';
+
+// What happens to an event that breaks a rule
+export type MatchRuleAction = 'reject' | 'quarantine' | 'off';
+
+export interface MatchRuleViolation {
+  rule: MatchRuleId;
+  action: Exclude<MatchRuleAction, 'off'>;
+  player?: string;
+  message: string;
+}
+
+/**
+ * Rule settings of a competition, stored in the matches table as
+ * pk = COMPETITION#<competition>, sk = RULES; missing settings use the defaults
+ */
+export interface MatchRulesConfig {
+  rules: Record<MatchRuleId, MatchRuleAction>;
+  max_substitutions: number;
+  // Record an automatic red card when a player gets a second yellow
+  second_yellow_red: boolean;
+  // Minutes a period may run past its regulation end before an event is out of range
+  stoppage_minutes: number;
+}
+
+export interface MatchRuleEvaluation {
+  violations: MatchRuleViolation[];
+  // Events the event implies, processed after it
+  implied: Record<string, any>[];
+  // Set when the event only repeats an implied event or the match's current phase
+  redundant?: string;
+}
+
+/**
+ * Event held back by a quarantine rule, stored in its match's partition as
+ * sk = QUARANTINE#<idempotency key>. The event is nested, so it is not read as a match event.
+ */
+export interface QuarantinedEvent {
+  pk: string;
+  sk: string;
+  match_id: string;
+  event: Record<string, any>;
+  violations: MatchRuleViolation[];
+  quarantined_at: string;
+}
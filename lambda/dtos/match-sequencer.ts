@@ -0,0 +1,36 @@
+export interface SequenceWindowEntry {
+  event_id: string;
+  sequence: number;
+  match_order: string;
+}
+
+/**
+ * Per-match sequence item in the matches table: pk = MATCH#<id>, sk = SEQUENCE
+ */
+export interface MatchSequenceRecord {
+  pk: string;
+  sk: string;
+  match_id: string;
+  last_sequence: number;
+  // Most recent events, sorted by match_order; used to detect and measure late arrivals
+  window: SequenceWindowEntry[];
+  // Latest event in match order; never moves backwards
+  latest_event_id?: string;
+  latest_event_type?: string;
+  latest_event_timestamp?: string;
+  latest_match_order?: string;
+  version: number;
+  updated_at: string;
+}
+
+export interface SequenceAssignment {
+  // Monotonic per match, in arrival order
+  sequence: number;
+  // Sort key for reading a match's events in match order
+  match_order: string;
+  late: boolean;
+  // How far behind the latest processed event the late event is, in match time
+  late_by_seconds?: number;
+  // Number of already-processed events in the reorder window that belong after the late event
+  reorder_gap?: number;
+}
@@ -0,0 +1,142 @@
+import { ShotBodyPart, ShotOutcome, ShotSituation } from './event-schemas';
+import { TeamLineup } from './lineups';
+
+export type MatchStatus = 'scheduled' | 'live' | 'halftime' | 'finished' | 'abandoned' | 'postponed';
+
+// Where a match is in its lifecycle; the status is derived from it
+export type MatchPhase =
+  | 'scheduled'
+  | 'first_half'
+  | 'halftime'
+  | 'second_half'
+  | 'extra_time'
+  | 'penalties'
+  | 'finished'
+  | 'abandoned'
+  | 'postponed';
+
+export type MatchSide = 'home' | 'away';
+
+export interface MatchScore {
+  home: number;
+  away: number;
+}
+
+export interface GoalRecord {
+  event_id: string;
+  team: string;
+  player: string;
+  player_id?: string;
+  minute?: number;
+  second?: number;
+  period?: number;
+  match_order?: string;
+  own_goal?: boolean;
+}
+
+export interface ShotRecord {
+  event_id: string;
+  team: string;
+  player: string;
+  player_id?: string;
+  minute?: number;
+  period?: number;
+  position: { x: number; y: number };
+  body_part: ShotBodyPart;
+  situation: ShotSituation;
+  outcome?: ShotOutcome;
+  xg: number;
+}
+
+export interface CardRecord {
+  event_id: string;
+  team: string;
+  player: string;
+  card_type: 'yellow' | 'red';
+  minute?: number;
+  second_yellow?: boolean;
+  // Event id of the second yellow an automatic red card was recorded for
+  implied_by?: string;
+}
+
+export interface SubstitutionRecord {
+  event_id: string;
+  team: string;
+  player_in: string;
+  player_out: string;
+  minute?: number;
+  // Formation the team switched to with the substitution
+  formation?: string;
+}
+
+/**
+ * An event whose reported score differs from the score computed from the goals before it
+ */
+export interface ScoreMismatch {
+  event_id: string;
+  event_type: string;
+  match_order?: string;
+  minute?: number;
+  timestamp?: string;
+  reported: MatchScore;
+  computed: MatchScore;
+}
+
+/**
+ * Live match aggregate in the matches table: pk = MATCH#<id>, sk = STATE
+ */
+export interface MatchState {
+  pk: string;
+  sk: string;
+  match_id: string;
+  season?: string;
+  competition?: string;
+  home_team?: string;
+  away_team?: string;
+  status: MatchStatus;
+  // Missing on states written before the lifecycle was tracked (see getMatchPhase)
+  phase?: MatchPhase;
+  period: number;
+  // Latest match minute reported by an event
+  minute: number;
+  // Computed from the goals list; goals of a team that is not known as home or away are not counted
+  score: MatchScore;
+  goals: GoalRecord[];
+  // Missing on states written before shots were tracked
+  shots?: ShotRecord[];
+  // Sum of the xG of each side's shots, like score
+  xg?: MatchScore;
+  cards: CardRecord[];
+  substitutions: SubstitutionRecord[];
+  // Players seen on the pitch per team (the starting XI once a lineup arrived), minus players substituted off or sent off
+  on_pitch: Record<string, string[]>;
+  // Lineup events by team; missing on states written before lineups were tracked
+  lineups?: Record<string, TeamLineup>;
+  sent_off: string[];
+  score_mismatches: ScoreMismatch[];
+  last_event_id?: string;
+  last_event_type?: string;
+  last_event_timestamp?: string;
+  last_match_order?: string;
+  version: number;
+  updated_at: string;
+}
+
+/**
+ * Lifecycle fields reported by query responses
+ */
+export interface MatchLifecycleSummary {
+  status: MatchStatus;
+  phase: MatchPhase;
+  live: boolean;
+  period: number;
+  minute: number;
+}
+
+/**
+ * Result of a match state update
+ */
+export interface MatchStateChange {
+  previous?: MatchState;
+  state: MatchState;
+}
@@ -0,0 +1,55 @@
+/**
+ * Which passes a network is built from
+ */
+export interface PassNetworkFilter {
+  // Team name, or Home / Away
+  team?: string;
+  // Inclusive minute range; passes without a minute are left out when a range is set
+  from_minute?: number;
+  to_minute?: number;
+}
+
+/**
+ * Passes from one player to a teammate; failed passes count towards the intended recipient
+ */
+export interface PassNetworkEdge {
+  from_player_id: string;
+  from_player: string;
+  to_player_id: string;
+  to_player: string;
+  passes: number;
+  completed: number;
+}
+
+export interface PassNetworkPlayer {
+  player_id: string;
+  player: string;
+  passes_attempted: number;
+  passes_completed: number;
+  passes_received: number;
+  // Percentage, one decimal; null without passes
+  completion_rate: number | null;
+  // Mean origin of the player's passes; only passes with a position count
+  average_position?: { x: number; y: number };
+  positioned_passes: number;
+  // Distinct teammates the player completed passes to / received completed passes from
+  out_degree: number;
+  in_degree: number;
+  // Distinct teammates connected either way, divided by the other players in the network
+  degree_centrality: number;
+  // Share of shortest paths between teammates that go through the player (normalized, 0-1)
+  betweenness_centrality: number;
+}
+
+/**
+ * Passing network of one team. The matrix counts completed passes, passer -> recipient, by player id.
+ */
+export interface PassNetwork {
+  team: string;
+  total_passes: number;
+  completed_passes: number;
+  completion_rate: number | null;
+  players: PassNetworkPlayer[];
+  edges: PassNetworkEdge[];
+  matrix: Record<string, Record<string, number>>;
+}
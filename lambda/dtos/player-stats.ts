@@ -0,0 +1,78 @@
+/**
+ * Per-player box score, stored in the match's events partition: sk = PLAYER#<player_id>
+ */
+export interface PlayerMatchStats {
+  pk: string;
+  sk: string;
+  match_id: string;
+  player_id: string;
+  player: string;
+  team: string;
+  goals: number;
+  own_goals: number;
+  assists: number;
+  // Missing on items written before shots were tracked; read as 0
+  shots?: number;
+  shots_on_target?: number;
+  xg?: number;
+  passes_attempted: number;
+  passes_completed: number;
+  passes_received: number;
+  fouls_committed: number;
+  yellow_cards: number;
+  red_cards: number;
+  // Substitution and dismissal minutes; minutes played are derived from them when the sheet is read
+  subbed_on_minute?: number;
+  subbed_off_minute?: number;
+  sent_off_minute?: number;
+  // Written by earlier versions: the <event_id>#<role> of every counted involvement, replaced
+  // by COUNTED# markers and dropped when the item is next written
+  counted_events?: string[];
+  // Written by the first version; such items are rebuilt on their next event
+  last_match_order?: string;
+  version: number;
+  updated_at: string;
+}
+
+/**
+ * Marks one involvement as counted, in the match's events partition:
+ * sk = COUNTED#<event_id>#<role>. Expires once redeliveries can no longer arrive.
+ */
+export interface CountedEventMarker {
+  pk: string;
+  sk: string;
+  player_id: string;
+  counted_at: string;
+  expires_at: number; // epoch seconds, DynamoDB TTL attribute
+}
+
+/**
+ * One player's row in the stat sheet returned by the players endpoint
+ */
+export interface PlayerStatLine extends Omit<PlayerMatchStats, 'pk' | 'sk' | 'counted_events' | 'last_match_order' | 'version' | 'shots' | 'shots_on_target' | 'xg'> {
+  shots: number;
+  shots_on_target: number;
+  xg: number;
+  minutes_played: number;
+  pass_accuracy: number | null;
+}
+
+// Events carry the player's name and id; the role decides which statistics change
+export type PlayerRole =
+  | 'scorer'
+  | 'own_goal_scorer'
+  | 'assist'
+  | 'shooter'
+  | 'passer'
+  | 'receiver'
+  | 'fouler'
+  | 'booked'
+  | 'subbed_on'
+  | 'subbed_off';
+
+export interface PlayerInvolvement {
+  player_id: string;
+  player: string;
+  team: string;
+  role: PlayerRole;
+}
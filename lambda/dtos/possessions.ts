@@ -0,0 +1,47 @@
+// How a possession chain ended; 'ongoing' is the open chain of a match still in play
+export type PossessionEnd = 'shot' | 'goal' | 'turnover' | 'foul' | 'out_of_play' | 'period_end' | 'ongoing';
+
+export interface PossessionMoment {
+  event_id: string;
+  event_type: string;
+  minute?: number;
+  second?: number;
+  timestamp?: string;
+}
+
+/**
+ * Consecutive actions of one team, from winning the ball to a turnover, stoppage or shot
+ */
+export interface PossessionChain {
+  sequence: number;
+  team: string;
+  period?: number;
+  start: PossessionMoment;
+  end: PossessionMoment;
+  // Match-clock time from the first to the last action
+  duration_seconds: number;
+  actions: number;
+  passes: number;
+  completed_passes: number;
+  // In order of first involvement
+  players: string[];
+  ended_by: PossessionEnd;
+  // Sum of the xG of the chain's shots
+  xg: number;
+}
+
+export interface TeamPossession {
+  team: string;
+  chains: number;
+  seconds: number;
+  // Share of the chains' time, one decimal; null when no chain has clock time
+  percentage: number | null;
+}
+
+/**
+ * Possession of each team over one part of the match
+ */
+export interface PossessionSplit {
+  part: 'first_half' | 'second_half' | 'extra_time' | 'match';
+  teams: TeamPossession[];
+}
@@ -0,0 +1,61 @@
+import { ProviderSource } from './provider-adapters';
+
+export interface RateLimitConfig {
+  capacity: number; // maximum burst size
+  refill_per_second: number; // sustained request rate
+}
+
+/**
+ * Provider API key item: pk = APIKEY#<sha256 of the key>, sk = PROVIDER
+ */
+export interface ProviderApiKey {
+  pk: string;
+  sk: string;
+  provider_id: string;
+  // Competitions the provider may send events for; ['*'] allows every competition
+  allowed_competitions: string[];
+  rate_limit?: RateLimitConfig;
+  enabled: boolean;
+  description?: string;
+}
+
+/**
+ * Token bucket item shared by all keys of a provider: pk = PROVIDER#<id>, sk = RATE_LIMIT
+ */
+export interface TokenBucket {
+  pk: string;
+  sk: string;
+  tokens: number;
+  updated_at: number; // epoch milliseconds of the last refill
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds?: number;
+}
+
+/**
+ * Identity the authorizer hands to the ingestion handlers
+ */
+export interface ProviderIdentity {
+  providerId: string;
+  allowedCompetitions: string[];
+}
+
+/**
+ * Webhook configuration of a push-based provider: pk = PROVIDER#<id>, sk = WEBHOOK
+ */
+export interface WebhookConfig {
+  pk: string;
+  sk: string;
+  provider_id: string;
+  // Adapter used to convert the pushed payload
+  source: ProviderSource;
+  allowed_competitions: string[];
+  enabled: boolean;
+  // Secrets Manager id of the signing secret; defaults to <project>/<environment>/webhooks/<provider_id>
+  secret_id?: string;
+  // Maximum age of a signed request; defaults to WEBHOOK_TOLERANCE_SECONDS
+  tolerance_seconds?: number;
+}
@@ -0,0 +1,41 @@
+export type ProviderSource = 'canonical' | 'statsbomb' | 'opta';
+
+export interface AdapterContext {
+  // Overrides the match id found in the provider payload (required for StatsBomb event files)
+  matchId?: string;
+  // ISO kickoff time used to turn match-relative clocks into timestamps
+  kickoff?: string;
+  homeTeam?: string;
+  awayTeam?: string;
+}
+
+export interface NormalizedEvent {
+  event: Record<string, any>;
+  // The provider fragment the event was built from, archived next to the normalized event
+  source: unknown;
+}
+
+export interface SkippedProviderEvent {
+  reason: string;
+  providerEventId?: string;
+}
+
+export interface AdapterResult {
+  events: NormalizedEvent[];
+  skipped: SkippedProviderEvent[];
+}
+
+export interface ProviderAdapter {
+  readonly source: ProviderSource;
+  normalize(body: string, context: AdapterContext): AdapterResult;
+}
+
+/**
+ * A request body split into ingestion items, with the provider fragment of each item
+ */
+export interface ParsedProviderBody {
+  // Entries that failed to parse are kept as errors so they are reported by index
+  items: Array<Record<string, any> | Error>;
+  providerPayloads: unknown[];
+  skipped: SkippedProviderEvent[];
+}
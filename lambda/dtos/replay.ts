@@ -0,0 +1,73 @@
+import { MatchScore, MatchStatus } from './match-state';
+
+/**
+ * What to replay: one match, a season, a range of event times, or a combination
+ */
+export interface ReplayScope {
+  match_id?: string;
+  // 2024/2025 or 2024-2025
+  season?: string;
+  // ISO timestamps, inclusive
+  from?: string;
+  to?: string;
+}
+
+export interface ReplayRequest extends ReplayScope {
+  // Delete the scope's DynamoDB items before replaying
+  purge?: boolean;
+  // Only report what would change
+  dry_run?: boolean;
+  replay_id?: string;
+}
+
+export interface MatchStateSummary {
+  status: MatchStatus;
+  score: MatchScore;
+  goals: number;
+  cards: number;
+}
+
+export interface ReplayMatchReport {
+  match_id: string;
+  season: string;
+  archived_events: number;
+  archived_amendments: number;
+  // Archived events and amendments with no stored item
+  missing_items: number;
+  // Stored items of the match (events, amendments, player statistics) that a purge deletes
+  stored_items: number;
+  purged_items?: number;
+  processed: number;
+  // Duplicates, and events rejected or quarantined by the match rules
+  skipped: number;
+  failed: number;
+  // Stored match state before the replay, and the state the archive produces
+  state_before?: MatchStateSummary;
+  state_after?: MatchStateSummary;
+}
+
+export interface ReplayError {
+  key?: string;
+  event_id?: string;
+  error: string;
+}
+
+export interface ReplayReport {
+  replay_id: string;
+  scope: ReplayScope;
+  dry_run: boolean;
+  purge: boolean;
+  status: 'completed' | 'failed';
+  started_at: string;
+  completed_at: string;
+  objects: {
+    listed: number;
+    read: number;
+    out_of_scope: number;
+    invalid: number;
+  };
+  matches: ReplayMatchReport[];
+  errors: ReplayError[];
+  errors_truncated?: boolean;
+  error?: string;
+}
@@ -0,0 +1,54 @@
+export type MatchOutcome = 'W' | 'D' | 'L';
+
+export type TieBreaker = 'goal_difference' | 'goals_for' | 'goals_against' | 'wins' | 'head_to_head';
+
+/**
+ * Final result of a match, in the matches table:
+ * pk = STANDINGS#<season>, sk = <competition>#RESULT#<match_id>
+ */
+export interface MatchResultRecord {
+  pk: string;
+  sk: string;
+  season: string;
+  competition: string;
+  match_id: string;
+  home_team: string;
+  away_team: string;
+  home_goals: number;
+  away_goals: number;
+  finished_at: string;
+  updated_at: string;
+}
+
+export interface StandingsRow {
+  team: string;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  goals_for: number;
+  goals_against: number;
+  goal_difference: number;
+  points: number;
+  // Last 5 results, most recent first
+  form: MatchOutcome[];
+}
+
+/**
+ * League table of a competition and season, recomputed from its results at every fulltime:
+ * pk = STANDINGS#<season>, sk = <competition>#TABLE
+ */
+export interface StandingsRecord {
+  pk: string;
+  sk: string;
+  season: string;
+  competition: string;
+  rows: StandingsRow[];
+  matches: number;
+  version: number;
+  updated_at: string;
+}
+
+export interface RankedStandingsRow extends StandingsRow {
+  position: number;
+}
@@ -0,0 +1,16 @@
+export interface WebhookSignatureInput {
+  rawBody: string;
+  // X-Signature header, formatted as sha256=<hex digest>
+  signature: string | undefined;
+  // X-Timestamp header, in epoch seconds
+  timestamp: string | undefined;
+  secret: string;
+  toleranceSeconds: number;
+  // Current time in epoch seconds
+  now?: number;
+}
+
+export interface WebhookSignatureResult {
+  valid: boolean;
+  reason?: string;
+}
@@ -0,0 +1,48 @@
+import { ShotBodyPart, ShotOutcome, ShotSituation } from './event-schemas';
+
+/**
+ * Coefficients of the logistic xG model: xG = 1 / (1 + e^-z), where
+ * z = intercept + distance * metres + angle * radians + the body part and situation terms
+ */
+export interface XGModelCoefficients {
+  intercept: number;
+  distance: number;
+  angle: number;
+  body_part: Record<ShotBodyPart, number>;
+  situation: Record<Exclude<ShotSituation, 'penalty'>, number>;
+}
+
+/**
+ * xG totals of a team or a player
+ */
+export interface XGTotals {
+  shots: number;
+  shots_on_target: number;
+  goals: number;
+  xg: number;
+}
+
+export interface TeamXG extends XGTotals {
+  team: string;
+}
+
+export interface PlayerXG extends XGTotals {
+  player_id: string;
+  player: string;
+  team: string;
+}
+
+/**
+ * Shot in the xG response
+ */
+export interface ShotSummary {
+  event_id: string;
+  team: string;
+  player: string;
+  minute?: number;
+  body_part: ShotBodyPart;
+  situation: ShotSituation;
+  outcome?: ShotOutcome;
+  distance: number;
+  xg: number;
+}
@@ -0,0 +1,62 @@
+import { APIGatewayAuthorizerResult, APIGatewayRequestAuthorizerEvent } from 'aws-lambda';
+import { createAppContext } from '../../lib/utils/app-context';
+import { DynamoDBClient } from '../clients/dynamo-client';
+import { EventLogger, getHeader } from '../utils/lambda-utils';
+import { API_KEY_HEADER, hashApiKey } from '../utils/provider-access';
+import { TokenBucketRateLimiter } from '../utils/rate-limiter';
+import { ProviderApiKey } from '../dtos/provider-access';
+
+export const handler = async (event: APIGatewayRequestAuthorizerEvent): Promise<APIGatewayAuthorizerResult> => {
+  const appContext = createAppContext();
+  const logger = new EventLogger(appContext.logging.logger);
+  const dynamoClient = new DynamoDBClient(appContext);
+
+  const apiKey = getHeader(event.headers, API_KEY_HEADER);
+  if (!apiKey) {
+    // API Gateway turns this exact message into a 401 response
+    throw new Error('Unauthorized');
+  }
+
+  const keyItem = await dynamoClient.getItem<ProviderApiKey>('providers', {
+    pk: `APIKEY#${hashApiKey(apiKey)}`,
+    sk: 'PROVIDER',
+  });
+  if (!keyItem || !keyItem.enabled) {
+    logger.warn('Rejected unknown or disabled API key', { methodArn: event.methodArn });
+    throw new Error('Unauthorized');
+  }
+
+  const limiter = new TokenBucketRateLimiter(dynamoClient, logger);
+  const decision = await limiter.consume(keyItem.provider_id, keyItem.rate_limit);
+  if (!decision.allowed) {
+    // A Deny would share the 403 gateway response of every other denial; the handler answers 429 instead
+    logger.warn('Provider rate limit exceeded', { providerId: keyItem.provider_id, retryAfterSeconds: decision.retryAfterSeconds });
+    return buildPolicy(keyItem.provider_id, 'Allow', event.methodArn, {
+      providerId: keyItem.provider_id,
+      rateLimited: true,
+      retryAfterSeconds: decision.retryAfterSeconds ?? 1,
+    });
+  }
+
+  return buildPolicy(keyItem.provider_id, 'Allow', event.methodArn, {
+    providerId: keyItem.provider_id,
+    allowedCompetitions: JSON.stringify(keyItem.allowed_competitions || []),
+    rateLimitRemaining: decision.remaining,
+  });
+};
+
+function buildPolicy(
+  principalId: string,
+  effect: 'Allow' | 'Deny',
+  resource: string,
+  context: Record<string, string | number | boolean>
+): APIGatewayAuthorizerResult {
+  return {
+    principalId,
+    policyDocument: {
+      Version: '2012-10-17',
+      Statement: [{ Action: 'execute-api:Invoke', Effect: effect, Resource: resource }],
+    },
+    context,
+  };
+}
@@ -0,0 +1,90 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import {
+  LambdaUtils,
+  EventLogger
+} from '../../lambda/utils/lambda-utils';
+import { createAppContext } from '../../lib/utils/app-context';
+import {
+  IngestionPipeline,
+  EVENT_CONFIG,
+  summarizeBatch
+} from '../../lambda/utils/ingestion-pipeline';
+import { parseProviderBody, resolveRequestAdapter } from '../../lambda/adapters/provider-adapters';
+import { ParsedProviderBody } from '../../lambda/dtos/provider-adapters';
+import { getProviderIdentity, getRateLimitRejection } from '../../lambda/utils/provider-access';
+
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  // The authorizer lets rate-limited requests through with rateLimited set; only they get 429
+  const rateLimitRejection = getRateLimitRejection(event);
+  if (rateLimitRejection) {
+    return rateLimitRejection;
+  }
+
+  // Initialize app context and utilities
+  const appContext = createAppContext();
+  const baseLogger = appContext.logging.logger;
+  const logger = new EventLogger(baseLogger);
+  const utils = new LambdaUtils(logger, appContext);
+
+  try {
+    // Parse input: a provider payload (StatsBomb, Opta), or canonical events as a JSON array or NDJSON
+    let parsed: ParsedProviderBody;
+    try {
+      const { adapter, context: adapterContext } = resolveRequestAdapter(event);
+      parsed = parseProviderBody(adapter, event.body, adapterContext);
+    } catch (parseError) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          status: 'validation_error',
+          message: parseError instanceof Error ? parseError.message : 'Invalid batch body',
+        })
+      };
+    }
+    const { items, providerPayloads, skipped } = parsed;
+
+    if (items.length === 0 || items.length > EVENT_CONFIG.MAX_BATCH_SIZE) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          status: 'validation_error',
+          message: `Batch must contain between 1 and ${EVENT_CONFIG.MAX_BATCH_SIZE} events`,
+        })
+      };
+    }
+
+    // Validate, store and publish; failures are reported per item
+    const pipeline = new IngestionPipeline(appContext, utils, logger);
+    const results = await pipeline.ingestBatch(items, {
+      providerPayloads,
+      provider: getProviderIdentity(event),
+    });
+    const summary = summarizeBatch(results);
+
+    return {
+      // 207 Multi-Status when at least one item was not accepted
+      statusCode: summary.accepted === summary.total ? 200 : 207,
+      body: JSON.stringify({
+        status: summary.accepted === summary.total ? 'success' : 'partial',
+        summary,
+        results,
+        ...(skipped.length > 0 ? { skipped } : {})
+      })
+    };
+  } catch (error) {
+    // Use shared error handling
+    const errorResponse = await utils.handleError(
+      error,
+      {
+        request_id: event.requestContext?.requestId,
+        path: event.path,
+        method: event.httpMethod
+      }
+    );
+
+    return {
+      statusCode: errorResponse.code,
+      body: JSON.stringify(errorResponse)
+    };
+  }
+};
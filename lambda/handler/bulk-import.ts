@@ -0,0 +1,122 @@
+import { S3Event, S3EventRecord } from 'aws-lambda';
+import {
+  LambdaUtils,
+  EventLogger
+} from '../../lambda/utils/lambda-utils';
+import { createAppContext } from '../../lib/utils/app-context';
+import { IngestionPipeline, EVENT_CONFIG } from '../../lambda/utils/ingestion-pipeline';
+import { S3Client } from '../../lambda/clients/s3-client';
+import { ImportRecord, ImportReport } from '../../lambda/dtos/bulk-import';
+import {
+  getImportFormat,
+  getImportReportKey,
+  readImportRecords
+} from '../../lambda/utils/bulk-import';
+
+// Keeps the report (and the Lambda's memory) bounded for files with many bad rows
+const MAX_REPORTED_ROWS = 1000;
+
+export const handler = async (event: S3Event): Promise<void> => {
+  // Initialize app context and utilities
+  const appContext = createAppContext();
+  const baseLogger = appContext.logging.logger;
+  const logger = new EventLogger(baseLogger);
+  const utils = new LambdaUtils(logger, appContext);
+  const s3Client = new S3Client(appContext);
+  const pipeline = new IngestionPipeline(appContext, utils, logger);
+
+  for (const record of event.Records) {
+    const report = await importFile(record, s3Client, pipeline, logger);
+
+    await s3Client.uploadRawData(
+      'rawData',
+      getImportReportKey(report.key),
+      JSON.stringify(report, null, 2),
+      { contentType: 'application/json' }
+    );
+
+    logger.info('Import finished', {
+      key: report.key,
+      status: report.status,
+      ...report.rows
+    });
+  }
+};
+
+async function importFile(
+  record: S3EventRecord,
+  s3Client: S3Client,
+  pipeline: IngestionPipeline,
+  logger: EventLogger
+): Promise<ImportReport> {
+  const bucket = record.s3.bucket.name;
+  // Object keys in S3 notifications are URL-encoded, with spaces as '+'
+  const key = decodeURIComponent(record.s3.object.key.replace(/\+/g, ' '));
+  const format = getImportFormat(key);
+
+  const report: ImportReport = {
+    bucket,
+    key,
+    format: format || 'csv',
+    status: 'completed',
+    started_at: new Date().toISOString(),
+    completed_at: '',
+    rows: { total: 0, accepted: 0, rejected: 0, failed: 0 },
+    rejected_rows: [],
+  };
+
+  const reportRow = (row: number, errors: string[]) => {
+    if (report.rejected_rows.length < MAX_REPORTED_ROWS) {
+      report.rejected_rows.push({ row, errors });
+    } else {
+      report.rejected_rows_truncated = true;
+    }
+  };
+
+  // Validate, store and publish one chunk of rows
+  const flush = async (chunk: ImportRecord[]) => {
+    const results = await pipeline.ingestBatch(chunk.map((entry) => entry.item));
+    results.forEach((result) => {
+      const row = chunk[result.index].row;
+      if (result.status === 'accepted') {
+        report.rows.accepted++;
+      } else if (result.status === 'validation_error') {
+        report.rows.rejected++;
+        reportRow(row, result.errors || []);
+      } else {
+        report.rows.failed++;
+        reportRow(row, [result.reason || 'Unknown error']);
+      }
+    });
+  };
+
+  try {
+    if (!format) {
+      throw new Error('Unsupported file type; expected .csv, .ndjson or .jsonl');
+    }
+
+    logger.info('Starting import', { bucket, key, format });
+
+    // Rows are streamed and ingested in chunks, so only one chunk is held in memory
+    let chunk: ImportRecord[] = [];
+    for await (const importRecord of readImportRecords(s3Client.getObjectStream(bucket, key), format)) {
+      report.rows.total++;
+      chunk.push(importRecord);
+      if (chunk.length >= EVENT_CONFIG.MAX_BATCH_SIZE) {
+        await flush(chunk);
+        chunk = [];
+      }
+    }
+    if (chunk.length > 0) {
+      await flush(chunk);
+    }
+  } catch (error) {
+    // Rows ingested before the failure stay ingested; the report says where it stopped
+    logger.error('Import failed', error instanceof Error ? error : new Error(String(error)), { bucket, key });
+    report.status = 'failed';
+    report.error = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  report.completed_at = new Date().toISOString();
+  return report;
+}
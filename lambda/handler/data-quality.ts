@@ -0,0 +1,63 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { createAppContext } from '../../lib/utils/app-context';
+import { summarizeLifecycle } from '../utils/match-lifecycle';
+import { MatchDataAccess } from '../utils/match-data-access';
+
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  // Initialize AppContext to get proper endpoint configuration
+  const appContext = createAppContext();
+
+  // Reads the match through its directory item, using the table names of appContext
+  const matchData = new MatchDataAccess(appContext);
+
+  const matchId = event.pathParameters?.match_id;
+  if (!matchId) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ message: 'match_id path parameter is required' }),
+    };
+  }
+
+  try {
+    const state = await matchData.getMatchState(matchId);
+    if (!state) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: `No events processed for match ${matchId}` }),
+      };
+    }
+
+    const scoreMismatches = state.score_mismatches || [];
+
+    // Events held back by the match rules live in the match's events partition
+    const location = await matchData.resolveMatch(matchId, state);
+    const quarantinedEvents = location ? await matchData.loadQuarantinedEvents(location) : [];
+
+    console.info('Query successful for data quality', {
+      matchId,
+      totalScoreMismatches: scoreMismatches.length,
+      totalQuarantinedEvents: quarantinedEvents.length
+    });
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        matchId,
+        match: summarizeLifecycle(state),
+        score: state.score,
+        totalScoreMismatches: scoreMismatches.length,
+        scoreMismatches,
+        totalQuarantinedEvents: quarantinedEvents.length,
+        quarantinedEvents: quarantinedEvents.map(({ pk, sk, ...quarantined }) => quarantined),
+        updatedAt: state.updated_at,
+      }),
+    };
+  } catch (error: any) {
+    console.error('Error querying DynamoDB for data quality', error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Internal Server Error' }),
+    };
+  }
+};
@@ -0,0 +1,227 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { LambdaUtils, EventLogger, MonitoringUtils } from '../../lambda/utils/lambda-utils';
+import { AppContext, createAppContext } from '../../lib/utils/app-context';
+import { S3Client } from '../../lambda/clients/s3-client';
+import { SQSClient } from '../../lambda/clients/sqs-client';
+import { EventBridgeClient } from '../../lambda/clients/eventbridge-client';
+import { DLQAuditRecord, DLQMessage, DLQRedriveTarget } from '../../lambda/dtos/dlq';
+import {
+  DLQInspector,
+  MAX_SCANNED_MESSAGES,
+  getDLQAuditKey,
+  getRedrivePayload,
+  groupDLQMessages
+} from '../../lambda/utils/dlq';
+import { validateMatchEvent } from '../../lambda/utils/event-processor';
+import { MATCH_EVENT_SOURCE } from '../../lambda/utils/ingestion-pipeline';
+
+const DEFAULT_LIST_LIMIT = 100;
+
+const response = (statusCode: number, body: Record<string, any>): APIGatewayProxyResult => ({
+  statusCode,
+  body: JSON.stringify(body),
+});
+
+/**
+ * Admin API over the event DLQ:
+ *   GET  /admin/dlq/messages                          messages grouped by origin and failure reason
+ *   GET  /admin/dlq/messages/{message_id}             one message, as an envelope
+ *   POST /admin/dlq/messages/{message_id}/redrive     send it (optionally fixed) to the processing queue or event bus
+ *   POST /admin/dlq/messages/{message_id}/discard     delete it, with an audit note
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const appContext = createAppContext();
+  const logger = new EventLogger(appContext.logging.logger);
+
+  const dlqUrl = process.env.EVENT_DLQ_URL;
+  if (!dlqUrl) {
+    return response(500, { message: 'EVENT_DLQ_URL is not configured' });
+  }
+  const inspector = new DLQInspector(new SQSClient(appContext), dlqUrl, logger);
+  const messageId = event.pathParameters?.message_id;
+
+  try {
+    switch (`${event.httpMethod} ${event.resource}`) {
+      case 'GET /admin/dlq/messages':
+        return await listMessages(event, inspector, dlqUrl, logger);
+      case 'GET /admin/dlq/messages/{message_id}':
+        return await getMessage(messageId!, inspector);
+      case 'POST /admin/dlq/messages/{message_id}/redrive':
+        return await redriveMessage(event, messageId!, inspector, appContext, logger);
+      case 'POST /admin/dlq/messages/{message_id}/discard':
+        return await discardMessage(event, messageId!, inspector, appContext, logger);
+      default:
+        return response(404, { message: `No route for ${event.httpMethod} ${event.resource}` });
+    }
+  } catch (error: any) {
+    logger.error('DLQ admin request failed', error, { resource: event.resource, messageId });
+    return response(500, { message: 'Internal Server Error' });
+  }
+};
+
+async function listMessages(
+  event: APIGatewayProxyEvent,
+  inspector: DLQInspector,
+  dlqUrl: string,
+  logger: EventLogger
+): Promise<APIGatewayProxyResult> {
+  const { origin, reason, limit } = event.queryStringParameters || {};
+  const maxMessages = limit ? Number(limit) : DEFAULT_LIST_LIMIT;
+  if (!Number.isInteger(maxMessages) || maxMessages < 1 || maxMessages > MAX_SCANNED_MESSAGES) {
+    return response(400, { message: `limit must be an integer between 1 and ${MAX_SCANNED_MESSAGES}` });
+  }
+
+  const queue = await new MonitoringUtils(logger).checkDLQHealth(dlqUrl);
+  const messages = (await inspector.peek(maxMessages)).filter((message) =>
+    (!origin || message.envelope.origin === origin) && (!reason || message.envelope.reason === reason)
+  );
+
+  console.info('Query successful for DLQ messages', { totalMessages: messages.length });
+
+  return response(200, {
+    queue,
+    totalMessages: messages.length,
+    groups: groupDLQMessages(messages),
+  });
+}
+
+async function getMessage(messageId: string, inspector: DLQInspector): Promise<APIGatewayProxyResult> {
+  const message = await inspector.find(messageId);
+  if (!message) {
+    return response(404, { message: `Message ${messageId} is not in the DLQ` });
+  }
+  await inspector.release([message]);
+
+  const { receipt_handle, ...details } = message;
+  return response(200, { ...details, redrivable: Boolean(getRedrivePayload(message.envelope)) });
+}
+
+async function redriveMessage(
+  event: APIGatewayProxyEvent,
+  messageId: string,
+  inspector: DLQInspector,
+  appContext: AppContext,
+  logger: EventLogger
+): Promise<APIGatewayProxyResult> {
+  let request: { target?: DLQRedriveTarget; payload?: Record<string, any>; note?: string };
+  try {
+    request = JSON.parse(event.body || '{}');
+  } catch {
+    return response(400, { message: 'Request body must be valid JSON' });
+  }
+  const target = request.target || 'queue';
+  if (target !== 'queue' && target !== 'bus') {
+    return response(400, { message: 'target must be queue or bus' });
+  }
+
+  const message = await inspector.find(messageId);
+  if (!message) {
+    return response(404, { message: `Message ${messageId} is not in the DLQ` });
+  }
+
+  // A fixed payload replaces the original one
+  const original = getRedrivePayload(message.envelope);
+  const payload = request.payload || original;
+  const eventSource = message.envelope.event_source || MATCH_EVENT_SOURCE;
+  const conflict = !payload
+    ? 'Message payload is not an event; fix it with a payload or discard it'
+    : target === 'queue' && eventSource !== MATCH_EVENT_SOURCE
+      ? `Events of source ${eventSource} can only be redriven to the bus`
+      : undefined;
+  if (conflict) {
+    await inspector.release([message]);
+    return response(409, { message: conflict });
+  }
+
+  // Match events are checked against the same schemas as processing
+  if (eventSource === MATCH_EVENT_SOURCE) {
+    const validation = validateMatchEvent(new LambdaUtils(logger, appContext), payload);
+    if (!validation.valid) {
+      await inspector.release([message]);
+      return response(400, { message: 'Payload failed validation', errors: validation.errors });
+    }
+  }
+
+  if (target === 'queue') {
+    const queueUrl = process.env.EVENT_PROCESSING_QUEUE_URL;
+    if (!queueUrl) {
+      await inspector.release([message]);
+      return response(500, { message: 'EVENT_PROCESSING_QUEUE_URL is not configured' });
+    }
+    await new SQSClient(appContext).sendMessage(queueUrl, payload!);
+  } else {
+    await new EventBridgeClient(appContext, {
+      eventBusName: appContext.eventBusName,
+      eventSource,
+      deadLetterQueueUrl: '',
+    }).putEvent(message.envelope.detail_type || payload!.event_type, payload!);
+  }
+
+  await audit(appContext, message, {
+    action: 'redrive',
+    target,
+    note: request.note,
+    actor: getActor(event),
+    payload_changed: Boolean(request.payload) && JSON.stringify(request.payload) !== JSON.stringify(original),
+  });
+  await inspector.remove(message);
+
+  logger.info('Redrove DLQ message', { message_id: messageId, target, origin: message.envelope.origin });
+
+  return response(200, { messageId, action: 'redrive', target });
+}
+
+async function discardMessage(
+  event: APIGatewayProxyEvent,
+  messageId: string,
+  inspector: DLQInspector,
+  appContext: AppContext,
+  logger: EventLogger
+): Promise<APIGatewayProxyResult> {
+  let note: unknown;
+  try {
+    note = JSON.parse(event.body || '{}').note;
+  } catch {
+    return response(400, { message: 'Request body must be valid JSON' });
+  }
+  if (typeof note !== 'string' || !note.trim()) {
+    return response(400, { message: 'note is required to discard a message' });
+  }
+
+  const message = await inspector.find(messageId);
+  if (!message) {
+    return response(404, { message: `Message ${messageId} is not in the DLQ` });
+  }
+
+  await audit(appContext, message, { action: 'discard', note, actor: getActor(event), payload_changed: false });
+  await inspector.remove(message);
+
+  logger.info('Discarded DLQ message', { message_id: messageId, origin: message.envelope.origin, note });
+
+  return response(200, { messageId, action: 'discard' });
+}
+
+// The audit record keeps the original envelope, so a discarded or redriven message can still be looked up
+async function audit(
+  appContext: AppContext,
+  message: DLQMessage,
+  record: Omit<DLQAuditRecord, 'message_id' | 'performed_at' | 'envelope'>
+): Promise<void> {
+  const auditRecord: DLQAuditRecord = {
+    ...record,
+    message_id: message.message_id,
+    performed_at: new Date().toISOString(),
+    envelope: message.envelope,
+  };
+
+  await new S3Client(appContext).uploadRawData(
+    'rawData',
+    getDLQAuditKey(message.message_id, record.action),
+    JSON.stringify(auditRecord, null, 2),
+    { contentType: 'application/json' }
+  );
+}
+
+function getActor(event: APIGatewayProxyEvent): string {
+  return event.requestContext?.identity?.userArn || event.requestContext?.identity?.user || 'unknown';
+}
@@ -0,0 +1,243 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import {
+  LambdaUtils,
+  EventLogger,
+  getHeader
+} from '../../lambda/utils/lambda-utils';
+import { createAppContext } from '../../lib/utils/app-context';
+import { IngestionPipeline } from '../../lambda/utils/ingestion-pipeline';
+import { upcastEvent } from '../../lambda/utils/schema-versions';
+import { DynamoDBClient } from '../../lambda/clients/dynamo-client';
+import {
+  IDEMPOTENCY_HEADER,
+  IdempotencyStore,
+  MAX_IDEMPOTENCY_KEY_LENGTH
+} from '../../lambda/utils/idempotency-store';
+import { checkCompetitionAccess, getProviderIdentity, getRateLimitRejection } from '../../lambda/utils/provider-access';
+import { AmendmentEvent, AmendmentType } from '../../lambda/dtos/amendments';
+import {
+  AMENDMENT_EVENT_TYPE,
+  EVENT_ID_INDEX,
+  applyAmendments,
+  isAmendment,
+  validateCorrection
+} from '../../lambda/utils/amendments';
+
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  // The authorizer lets rate-limited requests through with rateLimited set; only they get 429
+  const rateLimitRejection = getRateLimitRejection(event);
+  if (rateLimitRejection) {
+    return rateLimitRejection;
+  }
+
+  // Initialize app context and utilities
+  const appContext = createAppContext();
+  const baseLogger = appContext.logging.logger;
+  const logger = new EventLogger(baseLogger);
+  const utils = new LambdaUtils(logger, appContext);
+  const dynamoClient = new DynamoDBClient(appContext);
+  const pipeline = new IngestionPipeline(appContext, utils, logger);
+  const idempotencyStore = new IdempotencyStore(dynamoClient, logger);
+  let amendment: AmendmentEvent | undefined;
+  let claimedKey: string | undefined;
+  const releaseClaim = async () => {
+    if (claimedKey) {
+      await idempotencyStore.release(claimedKey);
+      claimedKey = undefined;
+    }
+  };
+
+  try {
+    const eventId = event.pathParameters?.event_id;
+    if (!eventId) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ status: 'validation_error', message: 'event_id path parameter is required' })
+      };
+    }
+
+    const amendmentType: AmendmentType = event.httpMethod === 'DELETE' ? 'retraction' : 'correction';
+    const body = event.body ? JSON.parse(event.body) : {};
+    const reason = body.reason ?? event.queryStringParameters?.reason;
+
+    const clientKey = getHeader(event.headers, IDEMPOTENCY_HEADER)?.trim();
+    if (clientKey !== undefined && (clientKey.length === 0 || clientKey.length > MAX_IDEMPOTENCY_KEY_LENGTH)) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          status: 'validation_error',
+          message: `${IDEMPOTENCY_HEADER} must be between 1 and ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`
+        })
+      };
+    }
+
+    // Find the amended event through the event_id index
+    const { items } = await dynamoClient.query(
+      'events',
+      'event_id = :eventId',
+      { ':eventId': eventId },
+      { indexName: EVENT_ID_INDEX }
+    );
+    const original = items.find((item) => !isAmendment(item));
+    if (!original) {
+      return {
+        statusCode: items.length > 0 ? 400 : 404,
+        body: JSON.stringify({
+          status: items.length > 0 ? 'validation_error' : 'not_found',
+          message: items.length > 0 ? 'Amendments cannot be amended' : `Event ${eventId} not found`
+        })
+      };
+    }
+
+    // Providers may only amend events of the competitions they may send
+    const provider = getProviderIdentity(event);
+    const accessError = checkCompetitionAccess(provider, original);
+    if (accessError) {
+      return {
+        statusCode: 403,
+        body: JSON.stringify({ status: 'forbidden', message: accessError })
+      };
+    }
+
+    // Replay the stored response if this key was already used; the amendment of the first
+    // attempt may not be stored yet, so the checks below cannot tell a retry apart
+    const requestHash = IdempotencyStore.hashRequest({ eventId, amendmentType, changes: body.changes, reason });
+    if (clientKey) {
+      const existing = await idempotencyStore.claim(clientKey, requestHash);
+      if (existing) {
+        if (existing.request_hash !== requestHash) {
+          return {
+            statusCode: 422,
+            body: JSON.stringify({
+              status: 'idempotency_error',
+              message: `${IDEMPOTENCY_HEADER} was already used with a different request`,
+              idempotencyKey: clientKey
+            })
+          };
+        }
+        if (existing.status === 'IN_PROGRESS') {
+          return {
+            statusCode: 409,
+            body: JSON.stringify({
+              status: 'in_progress',
+              message: 'A request with this idempotency key is still being processed',
+              idempotencyKey: clientKey
+            })
+          };
+        }
+        logger.info('Replaying stored response for idempotency key', { idempotencyKey: clientKey });
+        return {
+          statusCode: existing.response_status_code || 200,
+          headers: { 'Idempotency-Replayed': 'true' },
+          body: JSON.stringify({ ...JSON.parse(existing.response_body || '{}'), replayed: true })
+        };
+      }
+      claimedKey = clientKey;
+    }
+
+    // Corrections are checked against the event with earlier amendments applied
+    const { items: previousAmendments } = await dynamoClient.query(
+      'events',
+      'pk = :pk AND begins_with(sk, :amendmentPrefix)',
+      { ':pk': original.pk, ':amendmentPrefix': `AMENDMENT#${eventId}#` },
+      { consistentRead: true }
+    );
+    const [current] = applyAmendments([upcastEvent(original), ...previousAmendments], { includeHistory: true });
+    if (current.retracted) {
+      await releaseClaim();
+      return {
+        statusCode: 409,
+        body: JSON.stringify({ status: 'conflict', message: `Event ${eventId} has been retracted` })
+      };
+    }
+
+    if (amendmentType === 'correction') {
+      const errors = validateCorrection(current, body.changes);
+      if (errors.length > 0) {
+        await releaseClaim();
+        return {
+          statusCode: 400,
+          body: JSON.stringify({ status: 'validation_error', message: 'Invalid correction', errors })
+        };
+      }
+    }
+
+    const amendedAt = new Date().toISOString();
+    amendment = {
+      ...utils.addTracingInfo({
+        match_id: original.match_id,
+        event_type: AMENDMENT_EVENT_TYPE,
+        amendment_type: amendmentType,
+        amended_event_type: original.event_type,
+        ...(amendmentType === 'correction' ? { changes: body.changes } : {}),
+        ...(reason ? { reason: String(reason) } : {}),
+        amended_by: provider?.providerId || 'anonymous',
+        amended_at: amendedAt,
+        season: original.season,
+        timestamp: amendedAt,
+        trace_id: original.trace_id,
+      }, provider?.providerId),
+      // addTracingInfo has no incoming event_id here; link the amendment to the amended event
+      parent_id: eventId,
+    } as AmendmentEvent;
+
+    // Same archive and bus as new events; event processing stores the amendment next to the event
+    await pipeline.storeRawEvent(amendment, amendment.event_id);
+    const eventBridgeId = await pipeline.publishEvent(amendment, amendment.event_id);
+
+    logger.info('Amendment recorded', {
+      event_id: eventId,
+      amendment_id: amendment.event_id,
+      amendment_type: amendmentType
+    });
+
+    const response = {
+      statusCode: 200,
+      body: JSON.stringify({
+        status: 'success',
+        eventId,
+        amendmentId: amendment.event_id,
+        amendmentType,
+        eventBridgeId,
+        ...(clientKey ? { idempotencyKey: clientKey } : {})
+      })
+    };
+
+    // The amendment is already published: failing to record the response must not fail the request
+    if (claimedKey) {
+      const completedKey = claimedKey;
+      claimedKey = undefined;
+      try {
+        await idempotencyStore.complete(completedKey, requestHash, response);
+      } catch (storeError) {
+        logger.warn('Failed to store response for idempotency key', {
+          idempotencyKey: completedKey,
+          error: storeError instanceof Error ? storeError.message : 'Unknown error'
+        });
+      }
+    }
+
+    return response;
+  } catch (error) {
+    const failedAmendment = amendment;
+
+    // Let the client retry with the same key
+    await releaseClaim();
+
+    // Use shared error handling
+    const errorResponse = await utils.handleError(
+      error,
+      {
+        request_id: event.requestContext?.requestId,
+        path: event.path,
+        method: event.httpMethod
+      },
+      failedAmendment ? (err) => utils.sendToDLQ(pipeline.dlqUrl, failedAmendment, { origin: 'ingestion', error: err }) : undefined
+    );
+
+    return {
+      statusCode: errorResponse.code,
+      body: JSON.stringify(errorResponse)
+    };
+  }
+};
@@ -1,20 +1,12 @@
 import { EventBridgeEvent, SQSEvent, SQSRecord } from 'aws-lambda';
 import * as AWS from 'aws-sdk';
 import { createAppContext } from '../../lib/utils/app-context';
-import { DynamoDBClient } from '../../lambda/clients/dynamo-client';
 import { 
   LambdaUtils, 
   EventLogger, 
-  CircuitBreaker, 
-  ValidationRule,
-  calculateSeason
+  CircuitBreaker
 } from '../../lambda/utils/lambda-utils';
-
-// Validation rules for event
-const eventValidationRules: ValidationRule[] = [
-  { field: 'match_id', validator: (val) => val != null, message: 'match_id is required' },
-  { field: 'event_type', validator: (val) => val != null, message: 'event_type is required' }
-];
+import { EventProcessor } from '../../lambda/utils/event-processor';
 
 export const handler = async (event: EventBridgeEvent<'football.matches.live', any> | SQSEvent) => {
   // Debug logging to see the incoming event structure
@@ -34,8 +26,8 @@ export const handler = async (event: EventBridgeEvent<'football.matches.live', a
   // 3. Environment checks
   const isLocalEnv = process.env.ENVIRONMENT === 'local';
   
-  // 4. Create your client using the AppContext (which will use the correct endpoint)
-  const dynamoClient = new DynamoDBClient(appContext);
+  // 4. Create the processor using the AppContext (which will use the correct endpoint)
+  const processor = new EventProcessor(appContext, utils, logger, { uniqueIdempotencyKeys: isLocalEnv });
 
   // 5. Logging config
   logger.info('Lambda Configuration', {
@@ -113,19 +105,25 @@ export const handler = async (event: EventBridgeEvent<'football.matches.live', a
       if (isLocalEnv) {
         return await processEventData(eventDetail || {});
       }
-      // Standard validation
-      if (!eventDetail || !eventDetail.match_id || !eventDetail.event_type) {
+      // Standard validation against the shared schema registry
+      const validationResult = processor.validateEvent(eventDetail);
+      if (!validationResult.valid) {
         logger.warn('Event validation failed', {
           detail: JSON.stringify(eventDetail).substring(0, 200),
+          errors: validationResult.errors,
         });
         const dlqUrl = process.env.EVENT_DLQ_URL || `${appContext.endpoint}/000000000000/football-serverless-dev-event-dlq`; // ✅ Fetch DLQ URL dynamically
-        await utils.sendToDLQ(dlqUrl, {
-          ...event,
-          validation_errors: ['Missing required fields'],
+        await utils.sendToDLQ(dlqUrl, eventDetail || {}, {
+          origin: 'event-processing',
+          reason: 'validation',
+          error: new Error(`Validation failed: ${validationResult.errors.join(', ')}`),
+          eventSource: event.source,
+          detailType: event['detail-type'],
+          context: { validation_errors: validationResult.errors },
         });
         return {
           status: 'validation_error',
-          message: 'Validation failed: Missing required fields',
+          message: `Validation failed: ${validationResult.errors.join(', ')}`,
         };
       }
       return await processEventData(eventDetail);
@@ -140,64 +138,24 @@ export const handler = async (event: EventBridgeEvent<'football.matches.live', a
     }
   };
 
-  const processEventData = async (eventData: Record<string, any>) => {
-    // Enhanced validation with detailed logging
-    if (!eventData.match_id) {
-      logger.warn('Missing required field: match_id', { eventData });
-      throw new Error('Missing required field: match_id');
-    }
-    
-    if (!eventData.event_type) {
-      logger.warn('Missing required field: event_type', { eventData });
-      throw new Error('Missing required field: event_type');
-    }
-  
-    const { match_id, event_type, timestamp } = eventData;
-    const season = calculateSeason(timestamp || new Date().toISOString());
-  
+  const processEventData = async (rawEventData: Record<string, any>) => {
     try {
-      // Log the event data we're about to process
-      logger.info('Processing event data', { 
-        match_id, 
-        event_type, 
-        timestamp,
-        season 
-      });
-  
-      const idempotencyKey = isLocalEnv
-        ? `${match_id}-${event_type}-${Date.now()}`
-        : eventData.idempotencyKey || utils.generateEventIdempotencyKey(eventData);
-  
-      const eventItem = {
-        pk: appContext.eventnameGenerator.generatePartitionKey(season, match_id),
-        sk: appContext.eventnameGenerator.generateSortKey('EVENT', idempotencyKey),
-        gsi1pk: `EVENT_TYPE#${event_type}`,
-        gsi1sk: timestamp || new Date().toISOString(),
-        season,
-        ...eventData,
-        processed_at: new Date().toISOString(),
-      };
-  
-      // Log the keys we're using
-      logger.debug('Generated DynamoDB keys', {
-        pk: eventItem.pk,
-        sk: eventItem.sk,
-        gsi1pk: eventItem.gsi1pk,
-        gsi1sk: eventItem.gsi1sk
-      });
-  
-      await dynamoClient.putItem('events', eventItem);
-  
-      return {
-        status: 'success',
-        matchId: match_id,
-        eventId: idempotencyKey,
-        message: 'Event processed successfully',
-      };
+      const result = await processor.process(rawEventData);
+
+      // Rejected events are not stored; the DLQ keeps them with the explanation for review
+      if (result.status === 'rejected' && process.env.EVENT_DLQ_URL) {
+        await utils.sendToDLQ(process.env.EVENT_DLQ_URL, rawEventData, {
+          origin: 'event-processing',
+          reason: 'rule_violation',
+          error: new Error(result.message),
+          context: { violations: result.violations },
+        });
+      }
+      return result;
     } catch (error) {
       logger.error('Error processing event', { 
-        match_id, 
-        event_type, 
+        match_id: rawEventData.match_id, 
+        event_type: rawEventData.event_type, 
         error: error instanceof Error ? error.message : 'Unknown error' 
       });
   
@@ -208,7 +166,7 @@ export const handler = async (event: EventBridgeEvent<'football.matches.live', a
           : undefined;
   
       if (dlqUrl) {
-        await utils.sendToDLQ(dlqUrl, eventData);
+        await utils.sendToDLQ(dlqUrl, rawEventData, { origin: 'event-processing', error });
       }
   
       throw error;
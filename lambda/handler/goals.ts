@@ -1,14 +1,14 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import { DynamoDBClient, QueryCommand } from '@aws-sdk/client-dynamodb';
 import { createAppContext } from '../../lib/utils/app-context';
+import { MatchDataAccess } from '../utils/match-data-access';
 
 export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
   // Initialize AppContext to get proper endpoint configuration
   const appContext = createAppContext();
   const logger = appContext.logging.logger;
   
-  // Create client using appContext (which handles endpoints correctly)
-  const dynamoClient = new DynamoDBClient(appContext);
+  // Reads the match through its directory item, using the table names of appContext
+  const matchData = new MatchDataAccess(appContext);
   
   const matchId = event.pathParameters?.match_id;
   if (!matchId) {
@@ -17,30 +17,26 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       body: JSON.stringify({ message: 'match_id path parameter is required' }),
     };
   }
+  const includeHistory = event.queryStringParameters?.include === 'history';
 
   try {
-    // Define Query Parameters
-    const params = {
-      TableName: 'football-serverless-local-events',
-      KeyConditionExpression: 'pk = :matchKey',
-      FilterExpression: 'event_type = :etype',
-      ExpressionAttributeValues: {
-        ':matchKey': { S: `MATCH#${matchId}` },
-        ':etype': { S: 'goal' }
-      }
-    };
-
-    // Execute Query
-    const command = new QueryCommand(params);
-    const queryResult = await dynamoClient.send(command);
+    const location = await matchData.resolveMatch(matchId);
+    if (!location) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: `No events processed for match ${matchId}` }),
+      };
+    }
 
-    const totalGoals = queryResult.Items?.length || 0;
+    // Corrected view by default, in match order; retracted goals are only listed with their history
+    const goals = await matchData.loadEventsOfType(location, 'goal', { includeHistory });
+    const totalGoals = goals.filter((goal) => !goal.retracted).length;
 
     console.info('Query successful for goals', { matchId, totalGoals });
 
     return {
       statusCode: 200,
-      body: JSON.stringify({ matchId, totalGoals }),
+      body: JSON.stringify({ matchId, totalGoals, goals }),
     };
   } catch (error: any) {
     console.error('Error querying DynamoDB for goals', error);
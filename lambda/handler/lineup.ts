@@ -0,0 +1,59 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { createAppContext } from '../../lib/utils/app-context';
+import { MatchDataAccess } from '../utils/match-data-access';
+import { summarizeLifecycle } from '../utils/match-lifecycle';
+import { getLineupsAt } from '../utils/lineups';
+
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  // Initialize AppContext to get proper endpoint configuration
+  const appContext = createAppContext();
+
+  // Reads the match through its directory item, using the table names of appContext
+  const matchData = new MatchDataAccess(appContext);
+
+  const matchId = event.pathParameters?.match_id;
+  if (!matchId) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ message: 'match_id path parameter is required' }),
+    };
+  }
+
+  const minuteParameter = event.queryStringParameters?.minute;
+  const requestedMinute = minuteParameter ? Number(minuteParameter) : undefined;
+  if (requestedMinute !== undefined && (!Number.isInteger(requestedMinute) || requestedMinute < 0)) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ message: 'minute must be a non-negative integer' }),
+    };
+  }
+
+  try {
+    // Lineups, substitutions and dismissals are kept on the match state
+    const state = await matchData.getMatchState(matchId);
+    if (!state || Object.keys(state.lineups || {}).length === 0) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: `No lineup received for match ${matchId}` }),
+      };
+    }
+
+    // Defaults to the latest minute of the match
+    const minute = requestedMinute ?? state.minute;
+    const teams = getLineupsAt(state, minute);
+
+    console.info('Query successful for lineup', { matchId, minute, totalTeams: teams.length });
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ matchId, minute, match: summarizeLifecycle(state), teams }),
+    };
+  } catch (error: any) {
+    console.error('Error querying DynamoDB for lineup', error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Internal Server Error' }),
+    };
+  }
+};
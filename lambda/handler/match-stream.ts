@@ -0,0 +1,55 @@
+import { DynamoDBStreamEvent } from 'aws-lambda';
+import * as AWS from 'aws-sdk';
+import { createAppContext } from '../../lib/utils/app-context';
+import { EventLogger } from '../../lambda/utils/lambda-utils';
+import { EventBridgeClient } from '../../lambda/clients/eventbridge-client';
+import { MatchState } from '../../lambda/dtos/match-state';
+import { DomainEvent } from '../../lambda/dtos/domain-events';
+import { DOMAIN_EVENT_SOURCE, deriveDomainEvents } from '../../lambda/utils/domain-events';
+
+export const handler = async (event: DynamoDBStreamEvent): Promise<void> => {
+  // Initialize app context and utilities
+  const appContext = createAppContext();
+  const baseLogger = appContext.logging.logger;
+  const logger = new EventLogger(baseLogger);
+  const publisher = new EventBridgeClient(appContext, {
+    eventBusName: appContext.eventBusName,
+    eventSource: DOMAIN_EVENT_SOURCE,
+    deadLetterQueueUrl: process.env.EVENT_DLQ_URL || '',
+  });
+
+  // Only match state items carry the aggregate; the event source filter drops other records
+  const domainEvents: DomainEvent[] = event.Records.flatMap((record) => {
+    const oldImage = record.dynamodb?.OldImage;
+    const newImage = record.dynamodb?.NewImage;
+    if (newImage?.sk?.S !== 'STATE') {
+      return [];
+    }
+
+    return deriveDomainEvents(
+      oldImage ? AWS.DynamoDB.Converter.unmarshall(oldImage) as MatchState : undefined,
+      AWS.DynamoDB.Converter.unmarshall(newImage) as MatchState
+    );
+  });
+
+  if (domainEvents.length === 0) {
+    logger.debug('No domain events in stream batch', { recordCount: event.Records.length });
+    return;
+  }
+
+  // Entries that fail to publish are sent to the DLQ by the client
+  const results = await publisher.publishMatchEvents(domainEvents.map((domainEvent) => ({
+    matchId: domainEvent.match_id,
+    eventType: domainEvent.event_type,
+    // Consumers deduplicate on the key; it is the same when a change is delivered again
+    detail: { ...domainEvent.detail, idempotency_key: domainEvent.idempotency_key },
+    idempotencyKey: domainEvent.idempotency_key,
+  })));
+
+  logger.info('Published domain events', {
+    recordCount: event.Records.length,
+    published: results.filter((result) => !result.errorCode).length,
+    failed: results.filter((result) => result.errorCode).length,
+    eventTypes: domainEvents.map((domainEvent) => domainEvent.event_type),
+  });
+};
@@ -0,0 +1,74 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { createAppContext } from '../../lib/utils/app-context';
+import { PassNetworkFilter } from '../dtos/pass-network';
+import { MatchDataAccess } from '../utils/match-data-access';
+import { buildPassNetworks } from '../utils/pass-network';
+
+const parseMinute = (value: string | undefined): number | undefined | null => {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const minute = Number(value);
+  return Number.isInteger(minute) && minute >= 0 ? minute : null;
+};
+
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  // Initialize AppContext to get proper endpoint configuration
+  const appContext = createAppContext();
+
+  // Reads the match through its directory item, using the table names of appContext
+  const matchData = new MatchDataAccess(appContext);
+
+  const matchId = event.pathParameters?.match_id;
+  if (!matchId) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ message: 'match_id path parameter is required' }),
+    };
+  }
+
+  const { team, from_minute, to_minute } = event.queryStringParameters || {};
+  const fromMinute = parseMinute(from_minute);
+  const toMinute = parseMinute(to_minute);
+  if (fromMinute === null || toMinute === null || (fromMinute !== undefined && toMinute !== undefined && fromMinute > toMinute)) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ message: 'from_minute and to_minute must be non-negative integers, with from_minute <= to_minute' }),
+    };
+  }
+  const filter: PassNetworkFilter = { team: team || undefined, from_minute: fromMinute, to_minute: toMinute };
+
+  try {
+    // The match's directory item knows the season partition holding the pass events
+    const state = await matchData.getMatchState(matchId);
+    const location = await matchData.resolveMatch(matchId, state);
+    if (!state || !location) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: `No events processed for match ${matchId}` }),
+      };
+    }
+
+    const networks = buildPassNetworks(state, await matchData.loadEvents(location), filter);
+    if (filter.team && networks.length === 0) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: `Team ${filter.team} has no passes in match ${matchId}` }),
+      };
+    }
+
+    console.info('Query successful for pass network', { matchId, team: filter.team, totalTeams: networks.length });
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ matchId, ...filter, networks }),
+    };
+  } catch (error: any) {
+    console.error('Error querying DynamoDB for pass network', error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Internal Server Error' }),
+    };
+  }
+};
@@ -1,14 +1,14 @@
-import { DynamoDBClient, QueryCommand } from '@aws-sdk/client-dynamodb';
 import { createAppContext } from '../../lib/utils/app-context';
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda/trigger/api-gateway-proxy';
+import { MatchDataAccess } from '../utils/match-data-access';
 
 export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
   // Initialize AppContext to get proper endpoint configuration
   const appContext = createAppContext();
   const logger = appContext.logging.logger;
   
-  // Create client using appContext (which handles endpoints correctly)
-  const dynamoClient = new DynamoDBClient(appContext);
+  // Reads the match through its directory item, using the table names of appContext
+  const matchData = new MatchDataAccess(appContext);
   const matchId = event.pathParameters?.match_id;
   if (!matchId) {
     return {
@@ -16,28 +16,24 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       body: JSON.stringify({ message: 'match_id path parameter is required' }),
     };
   }
+  const includeHistory = event.queryStringParameters?.include === 'history';
 
   try {
-    // Define Query Parameters
-    const params = {
-      TableName: 'football-serverless-local-events',
-      KeyConditionExpression: 'pk = :matchKey',
-      FilterExpression: 'event_type = :etype',
-      ExpressionAttributeValues: {
-        ':matchKey': { S: `MATCH#${matchId}` },
-        ':etype': { S: 'pass' }
-      }
-    };
-
-    // Execute the query using AWS SDK v3
-    const command = new QueryCommand(params);
-    const queryResult = await dynamoClient.send(command);
+    const location = await matchData.resolveMatch(matchId);
+    if (!location) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: `No events processed for match ${matchId}` }),
+      };
+    }
 
-    const totalPasses = queryResult.Items?.length || 0;
+    // Corrected view by default, in match order; retracted passes are only listed with their history
+    const passes = await matchData.loadEventsOfType(location, 'pass', { includeHistory });
+    const totalPasses = passes.filter((pass) => !pass.retracted).length;
 
     return {
       statusCode: 200,
-      body: JSON.stringify({ matchId, totalPasses }),
+      body: JSON.stringify({ matchId, totalPasses, passes }),
     };
   } catch (error) {
     console.error('Error querying DynamoDB:', error);
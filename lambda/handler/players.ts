@@ -0,0 +1,69 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { createAppContext } from '../../lib/utils/app-context';
+import { MatchDataAccess } from '../utils/match-data-access';
+import { summarizeLifecycle } from '../utils/match-lifecycle';
+import {
+  PLAYER_STAT_FIELDS,
+  isPlayerStatField,
+  sortStatLines,
+  toStatLine
+} from '../utils/player-stats';
+
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  // Initialize AppContext to get proper endpoint configuration
+  const appContext = createAppContext();
+
+  // Reads the match through its directory item, using the table names of appContext
+  const matchData = new MatchDataAccess(appContext);
+
+  const matchId = event.pathParameters?.match_id;
+  if (!matchId) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ message: 'match_id path parameter is required' }),
+    };
+  }
+
+  const sort = event.queryStringParameters?.sort || 'goals';
+  const order = event.queryStringParameters?.order || 'desc';
+  if (!isPlayerStatField(sort) || (order !== 'asc' && order !== 'desc')) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({
+        message: `sort must be one of: ${PLAYER_STAT_FIELDS.join(', ')}; order must be asc or desc`,
+      }),
+    };
+  }
+
+  try {
+    // The match's directory item knows the season partition holding the player items
+    const state = await matchData.getMatchState(matchId);
+    const location = await matchData.resolveMatch(matchId, state);
+    if (!state || !location) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: `No events processed for match ${matchId}` }),
+      };
+    }
+
+    const players = sortStatLines(
+      (await matchData.loadPlayerStats(location)).map((stats) => toStatLine(stats, state)),
+      sort,
+      order
+    );
+
+    console.info('Query successful for player statistics', { matchId, totalPlayers: players.length });
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ matchId, match: summarizeLifecycle(state), sort, order, totalPlayers: players.length, players }),
+    };
+  } catch (error: any) {
+    console.error('Error querying DynamoDB for player statistics', error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Internal Server Error' }),
+    };
+  }
+};
@@ -0,0 +1,56 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { createAppContext } from '../../lib/utils/app-context';
+import { MatchDataAccess } from '../utils/match-data-access';
+import { summarizeLifecycle } from '../utils/match-lifecycle';
+import { buildPossessionChains, summarizePossession } from '../utils/possessions';
+
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  // Initialize AppContext to get proper endpoint configuration
+  const appContext = createAppContext();
+
+  // Reads the match through its directory item, using the table names of appContext
+  const matchData = new MatchDataAccess(appContext);
+
+  const matchId = event.pathParameters?.match_id;
+  if (!matchId) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ message: 'match_id path parameter is required' }),
+    };
+  }
+
+  try {
+    // The match's directory item knows the season partition holding the events
+    const state = await matchData.getMatchState(matchId);
+    const location = await matchData.resolveMatch(matchId, state);
+    if (!state || !location) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: `No events processed for match ${matchId}` }),
+      };
+    }
+
+    const chains = buildPossessionChains(state, await matchData.loadEvents(location));
+    const teams = [state.home_team, state.away_team].filter((team): team is string => Boolean(team));
+
+    console.info('Query successful for possessions', { matchId, totalChains: chains.length });
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        matchId,
+        match: summarizeLifecycle(state),
+        possession: summarizePossession(chains, teams),
+        totalChains: chains.length,
+        chains,
+      }),
+    };
+  } catch (error: any) {
+    console.error('Error querying DynamoDB for possessions', error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Internal Server Error' }),
+    };
+  }
+};
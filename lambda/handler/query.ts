@@ -1,161 +1,95 @@
-import { EventBridgeEvent } from 'aws-lambda';
-import { createAppContext } from '../../lib/utils/app-context';
-import { DynamoDBClient } from '../clients/dynamo-client';
-import * as AWS from 'aws-sdk';
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { AppContext, createAppContext } from '../../lib/utils/app-context';
+import { SecretsClient } from '../clients/secrets-client';
+import { EventPage } from '../dtos/event-query';
+import { createEventFilter, decodeCursor, encodeCursor, getQueryFingerprint, parseEventQuery } from '../utils/event-query';
+import { MatchDataAccess } from '../utils/match-data-access';
+
+const badRequest = (message: string): APIGatewayProxyResult => ({
+  statusCode: 400,
+  body: JSON.stringify({ message }),
+});
 
-const endpoint = process.env.AWS_ENDPOINT_URL || 'http://localhost:4566';
+/**
+ * Reads the cursor signing secret; only needed when a cursor is consumed or issued
+ */
+async function getCursorSecret(appContext: AppContext): Promise<string> {
+  const secretId = process.env.CURSOR_SECRET_ID || `${appContext.project}/${appContext.environment}/event-cursor-key`;
+  const secret = await new SecretsClient(appContext).getSecretString(secretId);
+  if (!secret) {
+    throw new Error(`Cursor signing secret ${secretId} is not configured`);
+  }
+  return secret;
+}
 
-// Initialize SQS for DLQ Handling
-const sqs = new AWS.SQS({
-  region: process.env.AWS_REGION || 'us-east-1',
-  endpoint,
-});
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  // Initialize AppContext to get proper endpoint configuration
+  const appContext = createAppContext();
 
-const DLQ_URL = process.env.EVENT_DLQ_URL || `${endpoint}/000000000000/football-serverless-dev-event-dlq`;
+  // Reads the match through its directory item, using the table names of appContext
+  const matchData = new MatchDataAccess(appContext);
 
-// Validation Rules for events
-const eventValidationRules = [
-  {
-    field: 'match_id',
-    validator: (value: any) => typeof value === 'string' && value.length > 0,
-    message: 'Match ID is required and must be a non-empty string',
-  },
-  {
-    field: 'event_type',
-    validator: (value: any) => ['goal', 'card', 'substitution','pass'].includes(value),
-    message: 'Invalid event type',
-  },
-  {
-    field: 'timestamp',
-    validator: (value: any) => !isNaN(new Date(value).getTime()),
-    message: 'Timestamp must be a valid date',
-  },
-];
+  const matchId = event.pathParameters?.match_id;
+  if (!matchId) {
+    return badRequest('match_id path parameter is required');
+  }
 
-export const handler = async (event: EventBridgeEvent<'football.matches.live', any>) => {
-  // Initialize the application context (includes configuration and table names)
-  const appContext = createAppContext();
-  const { logger } = appContext.logging;
-  const dynamoClient = new DynamoDBClient(appContext);
+  const { query, error } = parseEventQuery(event.queryStringParameters || {});
+  if (!query) {
+    return badRequest(error!);
+  }
 
   try {
-    logger.debug('Received event', { event });
-
-    // Validate event payload against our rules
-    const validationResult = validateEventPayload(event.detail);
-    if (!validationResult.valid) {
-      logger.warn('Validation failed', { errors: validationResult.errors });
+    const state = await matchData.getMatchState(matchId);
+    const location = await matchData.resolveMatch(matchId, state);
+    if (!state || !location) {
       return {
-        status: 'validation_error',
-        message: `Validation failed: ${validationResult.errors.join(', ')}`,
+        statusCode: 404,
+        body: JSON.stringify({ message: `No events processed for match ${matchId}` }),
       };
     }
 
-    // Destructure the event details
-    const { match_id, event_type, timestamp, idempotency_key } = event.detail;
-
-    // Ensure the events table exists
-    try {
-      const tableExists = await dynamoClient.checkTableExists('events');
-      if (typeof tableExists !== 'boolean' || !tableExists) {
-        throw new Error('DynamoDB table does not exist: events');
+    // A cursor only continues the match and query it was issued for
+    const fingerprint = getQueryFingerprint(query.filter, query.order);
+    let exclusiveStartKey: Record<string, any> | undefined;
+    if (query.cursor) {
+      const cursor = decodeCursor(await getCursorSecret(appContext), query.cursor, matchId, fingerprint);
+      if (!cursor.key) {
+        return badRequest(cursor.error!);
       }
-    } catch (error) {
-      logger.error('Error checking DynamoDB table existence', {
-        message: error instanceof Error ? error.message : 'Unknown error',
-        stack: error instanceof Error ? error.stack : 'No stack trace',
-        name: ''
-      });
-      throw new Error('Failed to verify DynamoDB table existence');
+      exclusiveStartKey = cursor.key;
     }
 
-    // Check if this event has already been processed (duplicate detection)
-    const existingEvent = await dynamoClient.getItem('events', {
-      pk: `MATCH#${match_id}`,
-      sk: `EVENT#${idempotency_key}`,
+    const { events, lastEvaluatedKey } = await matchData.queryEvents(location, {
+      filter: createEventFilter(state, query.filter),
+      ascending: query.order === 'asc',
+      limit: query.limit,
+      exclusiveStartKey,
     });
-    if (existingEvent) {
-      logger.warn('Duplicate event detected, skipping processing', { match_id, idempotency_key });
-      return {
-        status: 'skipped',
-        message: 'Duplicate event, already processed',
-      };
-    }
 
-    // Build the event item to be stored
-    const eventItem = {
-      pk: `MATCH#${match_id}`,
-      sk: `EVENT#${idempotency_key}`,
-      ...event.detail,
-      processed_at: new Date().toISOString(),
+    const response: EventPage = {
+      matchId,
+      order: query.order,
+      filter: query.filter,
+      count: events.length,
+      events,
+      ...(lastEvaluatedKey
+        ? { next_cursor: encodeCursor(await getCursorSecret(appContext), { match_id: matchId, query: fingerprint, key: lastEvaluatedKey }) }
+        : {}),
     };
 
-    // Try to write the event and update the match record
-    try {
-      await dynamoClient.putItem('events', eventItem);
-      await updateMatchRecord(dynamoClient, match_id, event.detail);
-    } catch (error) {
-      logger.error('Error storing event in DynamoDB', {
-        message: error instanceof Error ? error.message : 'Unknown error',
-        stack: error instanceof Error ? error.stack : 'No stack trace',
-        name: ''
-      });
-      throw new Error('Failed to store event in DynamoDB');
-    }
+    console.info('Query successful for events', { matchId, count: events.length, hasMore: Boolean(lastEvaluatedKey) });
 
-    logger.info('Successfully processed match event', { match_id, event_type });
     return {
-      status: 'success',
-      matchId: match_id,
-      message: 'Event processed successfully',
+      statusCode: 200,
+      body: JSON.stringify(response),
     };
-  } catch (error: unknown) {
-    const err = error instanceof Error ? error : new Error(String(error));
-    logger.error('Error processing event', {
-      message: err.message,
-      stack: err.stack,
-      name: ''
-    });
-    await sendToDLQ(event);
+  } catch (error: any) {
+    console.error('Error querying DynamoDB for events', error);
+
     return {
-      status: 'error',
-      message: err.message || 'Unexpected error occurred',
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Internal Server Error' }),
     };
   }
 };
-
-function validateEventPayload(payload: any) {
-  const errors: string[] = [];
-  eventValidationRules.forEach((rule) => {
-    if (!rule.validator(payload[rule.field])) {
-      errors.push(rule.message);
-    }
-  });
-  return { valid: errors.length === 0, errors };
-}
-
-async function updateMatchRecord(dynamoClient: DynamoDBClient, matchId: string, eventDetails: any) {
-  const matchKey = { pk: `MATCH#${matchId}`, sk: 'METADATA' };
-  const updateExpression = 'SET last_event_type = :event_type, last_event_timestamp = :timestamp';
-  const expressionAttributeValues = {
-    ':event_type': eventDetails.event_type,
-    ':timestamp': eventDetails.timestamp,
-  };
-  await dynamoClient.updateItem('matches', matchKey, updateExpression, expressionAttributeValues);
-}
-
-async function sendToDLQ(event: EventBridgeEvent<'football.matches.live', any>) {
-  if (!DLQ_URL) {
-    console.warn('DLQ URL not configured. Failed event will not be retried.');
-    return;
-  }
-  try {
-    await sqs.sendMessage({ QueueUrl: DLQ_URL, MessageBody: JSON.stringify(event) }).promise();
-    console.warn('Event sent to DLQ for retry', { eventId: event.id });
-  } catch (error) {
-    console.error('Failed to send event to DLQ', { 
-      message: error instanceof Error ? error.message : 'Unknown error',
-      stack: error instanceof Error ? error.stack : 'No stack trace'
-    });
-  }
-}
\ No newline at end of file
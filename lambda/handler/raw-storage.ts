@@ -1,71 +1,29 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import { v4 as uuidv4 } from 'uuid';
-import { 
-  LambdaUtils, 
-  EventLogger, 
-  CircuitBreaker 
+import {
+  LambdaUtils,
+  EventLogger,
+  getHeader
 } from '../../lambda/utils/lambda-utils';
 import { createAppContext } from '../../lib/utils/app-context';
-import { S3Client } from '../../lambda/clients/s3-client';
-import { EventBridgeClient } from '../../lambda/clients/eventbridge-client';
-
-// Configuration Constants
-const EVENT_CONFIG = {
-  VALID_EVENT_TYPES: ['goal', 'yellow_card', 'red_card', 'substitution', 'pass', 'kickoff', 'halftime', 'fulltime'],
-  RETRY_STRATEGIES: {
-    s3: {
-      maxAttempts: 3,
-      initialDelay: 500,
-      maxDelay: 5000,
-      retryableErrors: ['NoSuchBucket', 'ServiceUnavailable', 'NetworkError']
-    },
-    eventBridge: {
-      maxAttempts: 3,
-      initialDelay: 500,
-      maxDelay: 5000,
-      retryableErrors: ['ThrottlingException', 'ServiceUnavailable', 'InternalFailure']
-    }
-  }
-};
+import { IngestionPipeline } from '../../lambda/utils/ingestion-pipeline';
+import { getEventValidationRules } from '../../lambda/utils/event-schemas';
+import { upcastEvent } from '../../lambda/utils/schema-versions';
+import {
+  IDEMPOTENCY_HEADER,
+  IdempotencyStore,
+  MAX_IDEMPOTENCY_KEY_LENGTH
+} from '../../lambda/utils/idempotency-store';
+import { DynamoDBClient } from '../../lambda/clients/dynamo-client';
+import { resolveRequestAdapter } from '../../lambda/adapters/provider-adapters';
+import { checkCompetitionAccess, getProviderIdentity, getRateLimitRejection } from '../../lambda/utils/provider-access';
 
-const EVENT_VALIDATION_RULES = [
-  {
-    field: 'match_id',
-    validator: (value: any) => value !== undefined && value !== null && 
-              (typeof value === 'string' || typeof value === 'number') && 
-              (typeof value === 'string' ? value.length > 0 : true),
-    message: 'match_id is required and must be a non-empty string or number'
-  },
-  {
-    field: 'event_type',
-    validator: (value: any) => typeof value === 'string' && 
-              EVENT_CONFIG.VALID_EVENT_TYPES.includes(value),
-    message: `event_type is required and must be one of: ${EVENT_CONFIG.VALID_EVENT_TYPES.join(', ')}`
-  },
-  {
-    field: 'timestamp',
-    validator: (value: any) => {
-      if (!value) return false;
-      const date = new Date(value);
-      const now = new Date();
-      const maxFutureDate = new Date(now.getFullYear() + 1, now.getMonth(), now.getDate());
-      const minPastDate = new Date(now.getFullYear() - 10, now.getMonth(), now.getDate());
-
-      return !isNaN(date.getTime()) && 
-             date <= maxFutureDate && 
-             date >= minPastDate;
-    },
-    message: 'timestamp is required and must be a valid date within the last 10 years and not more than 1 year in the future'
-  },
-  {
-    field: 'team',
-    validator: (value: any) => value && typeof value === 'string' && value.trim().length > 0,
-    message: 'team is required and must be a non-empty string'
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  // The authorizer lets rate-limited requests through with rateLimited set; only they get 429
+  const rateLimitRejection = getRateLimitRejection(event);
+  if (rateLimitRejection) {
+    return rateLimitRejection;
   }
-];
-
 
-export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
   // Initialize app context and utilities
   const appContext = createAppContext();
   const baseLogger = appContext.logging.logger;
@@ -73,33 +31,42 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
   const utils = new LambdaUtils(logger, appContext);
   let rawBody: any = {};
 
-  // Circuit breakers for resilience
-  const s3CircuitBreaker = new CircuitBreaker(
-    logger, 
-    3,  // max failures
-    30000,  // reset timeout
-    'S3'
-  );
-
-  const eventBridgeCircuitBreaker = new CircuitBreaker(
-    logger, 
-    3,  // max failures
-    30000,  // reset timeout
-    'EventBridge'
-  );
-
-  // Configuration
-  const LOCALSTACK_HOST = process.env.LOCALSTACK_HOSTNAME || "localhost";
-  const endpoint = `http://${LOCALSTACK_HOST}:4566`;
-  const EVENT_BUS_NAME = process.env.EVENT_BUS_NAME || 'football-serverless-dev-match-event-bus';
-  const DLQ_URL = process.env.EVENT_DLQ_URL || 'http://localhost:4566/000000000000/football-serverless-dev-event-dlq';
+  // Shared S3 + EventBridge write path (clients, circuit breakers, DLQ config)
+  const pipeline = new IngestionPipeline(appContext, utils, logger);
+  const idempotencyStore = new IdempotencyStore(new DynamoDBClient(appContext), logger);
+  let claimedKey: string | undefined;
 
   try {
-    // Parse input
-    const rawBody = event.body ? JSON.parse(event.body) : {};
-    
-    // Validate event using shared utility
-    const validationResult = utils.validateEventData(rawBody, EVENT_VALIDATION_RULES);
+    // Convert provider payloads (StatsBomb, Opta) to the canonical event shape
+    const { adapter, context: adapterContext } = resolveRequestAdapter(event);
+    let providerPayload: unknown;
+    let parsedBody: Record<string, any> = {};
+    if (adapter) {
+      const adapted = adapter.normalize(event.body || '', adapterContext);
+      if (adapted.events.length !== 1) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({
+            status: 'validation_error',
+            message: `${adapter.source} payload produced ${adapted.events.length} events; use POST /events/batch for multi-event payloads`,
+            skipped: adapted.skipped
+          })
+        };
+      }
+      parsedBody = adapted.events[0].event;
+      providerPayload = adapted.events[0].source;
+    } else if (event.body) {
+      parsedBody = JSON.parse(event.body);
+    }
+
+    // Convert legacy types and older schema versions to the current shape; stamps schema_version
+    rawBody = upcastEvent(parsedBody);
+
+    // Validate event against the shared schema registry
+    const validationResult = utils.validateEventData(
+      rawBody,
+      getEventValidationRules(rawBody?.event_type, { ingestion: true })
+    );
     if (!validationResult.valid) {
       return {
         statusCode: 400,
@@ -111,57 +78,79 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       };
     }
 
-    // Generate idempotency key
-    const idempotencyKey = utils.generateEventIdempotencyKey(rawBody);
-    
-    // Add tracing information
-    const processedEvent = utils.addTracingInfo(rawBody);
-
-    // Initialize clients
-    const s3Client = new S3Client({
-      ...appContext,
-      endpoint,
-      s3ForcePathStyle: true
-    });
+    // The authorizer restricts each provider to its allowed competitions
+    const provider = getProviderIdentity(event);
+    const accessError = checkCompetitionAccess(provider, rawBody);
+    if (accessError) {
+      return {
+        statusCode: 403,
+        body: JSON.stringify({
+          status: 'forbidden',
+          message: accessError
+        })
+      };
+    }
 
-    const eventBridgeClient = new EventBridgeClient(
-      {...appContext, endpoint}, 
-      {
-        eventBusName: EVENT_BUS_NAME,
-        eventSource: 'football.matches.live',
-        deadLetterQueueUrl: DLQ_URL,
+    // Client-supplied idempotency key, falling back to a hash of the event's identifying fields
+    const clientKey = getHeader(event.headers, IDEMPOTENCY_HEADER)?.trim();
+    if (clientKey !== undefined && (clientKey.length === 0 || clientKey.length > MAX_IDEMPOTENCY_KEY_LENGTH)) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          status: 'validation_error',
+          message: `${IDEMPOTENCY_HEADER} must be between 1 and ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`
+        })
+      };
+    }
+    const requestHash = IdempotencyStore.hashRequest(rawBody);
+
+    // Replay the stored response if this key was already ingested
+    const { idempotencyKey, existing } = clientKey
+      ? { idempotencyKey: clientKey, existing: await idempotencyStore.claim(clientKey, requestHash) }
+      : await idempotencyStore.claimComputedKey(utils.generateEventIdempotencyKey(rawBody), requestHash);
+    if (existing) {
+      if (clientKey && existing.request_hash !== requestHash) {
+        return {
+          statusCode: 422,
+          body: JSON.stringify({
+            status: 'idempotency_error',
+            message: `${IDEMPOTENCY_HEADER} was already used with a different request body`,
+            idempotencyKey
+          })
+        };
       }
-    );
+
+      if (existing.status === 'IN_PROGRESS') {
+        return {
+          statusCode: 409,
+          body: JSON.stringify({
+            status: 'in_progress',
+            message: 'A request with this idempotency key is still being processed',
+            idempotencyKey
+          })
+        };
+      }
+
+      logger.info('Replaying stored response for idempotency key', { idempotencyKey });
+      return {
+        statusCode: existing.response_status_code || 200,
+        headers: { 'Idempotency-Replayed': 'true' },
+        body: JSON.stringify({
+          ...JSON.parse(existing.response_body || '{}'),
+          replayed: true
+        })
+      };
+    }
+    claimedKey = idempotencyKey;
+
+    // Add tracing information, recording which feed sent the event
+    const processedEvent = utils.addTracingInfo(rawBody, provider?.providerId);
 
     // S3 Storage with circuit breaker and retry
-    await s3CircuitBreaker.execute(async () => {
-      await utils.retryWithBackoff(
-        () => s3Client.uploadRawData(
-          'rawData', 
-          `matches/${processedEvent.match_id}/events/${processedEvent.event_id}.json`, 
-          JSON.stringify(processedEvent),
-          {
-            match_id: String(processedEvent.match_id),
-            event_type: String(processedEvent.event_type),
-            idempotency_key: idempotencyKey,
-            contentType: 'application/json',
-          }
-        ),
-        EVENT_CONFIG.RETRY_STRATEGIES.s3
-      );
-    });
+    await pipeline.storeRawEvent(processedEvent, idempotencyKey, providerPayload);
 
     // EventBridge Publishing with circuit breaker and retry
-    const eventBridgeResponse = await eventBridgeCircuitBreaker.execute(async () => {
-      return await utils.retryWithBackoff(
-        () => eventBridgeClient.publishMatchEvent(
-          processedEvent.match_id,
-          processedEvent.event_type,
-          processedEvent
-        ),
-        EVENT_CONFIG.RETRY_STRATEGIES.eventBridge
-      );
-    });
+    const eventBridgeId = await pipeline.publishEvent(processedEvent, idempotencyKey);
 
     // Log successful processing
     logger.info('Event successfully processed', {
@@ -170,26 +159,44 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       event_id: processedEvent.event_id
     });
 
-    return {
+    const response = {
       statusCode: 200,
       body: JSON.stringify({
         status: 'success',
         eventId: processedEvent.event_id,
-        eventBridgeId: eventBridgeResponse.Entries?.[0]?.EventId,
+        eventBridgeId,
         idempotencyKey
       })
     };
+
+    // The event is already ingested: failing to record the response must not fail the request
+    claimedKey = undefined;
+    try {
+      await idempotencyStore.complete(idempotencyKey, requestHash, response);
+    } catch (storeError) {
+      logger.warn('Failed to store response for idempotency key', {
+        idempotencyKey,
+        error: storeError instanceof Error ? storeError.message : 'Unknown error'
+      });
+    }
+
+    return response;
   } catch (error) {
+    // Let the client retry with the same key
+    if (claimedKey) {
+      await idempotencyStore.release(claimedKey);
+    }
+
     // Use shared error handling
     const errorResponse = await utils.handleError(
-      error, 
-      { 
+      error,
+      {
         request_id: event.requestContext?.requestId,
         path: event.path,
-        method: event.httpMethod 
+        method: event.httpMethod
       },
       // Optional DLQ callback
-      () => utils.sendToDLQ(DLQ_URL, rawBody)
+      (err) => utils.sendToDLQ(pipeline.dlqUrl, rawBody, { origin: 'ingestion', error: err })
     );
 
     return {
@@ -197,4 +204,4 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       body: JSON.stringify(errorResponse)
     };
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,98 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { v4 as uuidv4 } from 'uuid';
+import { LambdaUtils, EventLogger } from '../../lambda/utils/lambda-utils';
+import { AppContext, createAppContext } from '../../lib/utils/app-context';
+import { S3Client } from '../../lambda/clients/s3-client';
+import { LambdaClient } from '../../lambda/clients/lambda-client';
+import { ReplayReport, ReplayRequest } from '../../lambda/dtos/replay';
+import { ReplayJob, getReplayReportKey, validateReplayRequest } from '../../lambda/utils/replay';
+
+/**
+ * Starts or runs a replay. POST /admin/replay validates the request and starts
+ * this function again asynchronously, so the caller is not held for the whole
+ * replay; invoking the function directly (aws lambda invoke) runs the replay and
+ * returns its report. Either way the report is stored next to the raw archive.
+ */
+export const handler = async (event: APIGatewayProxyEvent | ReplayRequest): Promise<APIGatewayProxyResult | ReplayReport> => {
+  const appContext = createAppContext();
+  const logger = new EventLogger(appContext.logging.logger);
+
+  if ('httpMethod' in event) {
+    return await startReplay(event, appContext, logger);
+  }
+
+  const errors = validateReplayRequest(event);
+  if (errors.length > 0) {
+    throw new Error(`Invalid replay request: ${errors.join(', ')}`);
+  }
+
+  const replayId = event.replay_id || uuidv4();
+  const utils = new LambdaUtils(logger, appContext);
+  const report = await new ReplayJob(appContext, utils, logger).run(event, replayId);
+
+  await new S3Client(appContext).uploadRawData(
+    'rawData',
+    getReplayReportKey(replayId),
+    JSON.stringify(report, null, 2),
+    { contentType: 'application/json' }
+  );
+
+  logger.info('Replay finished', {
+    replay_id: replayId,
+    status: report.status,
+    matches: report.matches.length,
+    ...report.objects
+  });
+
+  return report;
+};
+
+async function startReplay(
+  event: APIGatewayProxyEvent,
+  appContext: AppContext,
+  logger: EventLogger
+): Promise<APIGatewayProxyResult> {
+  let request: ReplayRequest;
+  try {
+    request = JSON.parse(event.body || '{}');
+  } catch {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ message: 'Request body must be valid JSON' }),
+    };
+  }
+
+  const errors = validateReplayRequest(request);
+  if (errors.length > 0) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ message: 'Invalid replay request', errors }),
+    };
+  }
+
+  try {
+    const replayId = uuidv4();
+    await new LambdaClient(appContext).invokeAsync(
+      process.env.AWS_LAMBDA_FUNCTION_NAME || '',
+      { ...request, replay_id: replayId }
+    );
+
+    logger.info('Replay started', { replay_id: replayId, request });
+
+    return {
+      statusCode: 202,
+      body: JSON.stringify({
+        replayId,
+        reportKey: getReplayReportKey(replayId),
+        dryRun: Boolean(request.dry_run),
+      }),
+    };
+  } catch (error: any) {
+    logger.error('Failed to start replay', error, { request });
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Internal Server Error' }),
+    };
+  }
+}
@@ -0,0 +1,99 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { createAppContext } from '../../lib/utils/app-context';
+import { DynamoDBClient } from '../clients/dynamo-client';
+import { MatchResultRecord, StandingsRecord } from '../dtos/standings';
+import {
+  TIE_BREAKERS,
+  buildStandingsPartitionKey,
+  normalizeSeason,
+  parseTieBreakers,
+  rankStandings
+} from '../utils/standings';
+
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  // Initialize AppContext to get proper endpoint configuration
+  const appContext = createAppContext();
+
+  // Create client using appContext (which handles endpoints correctly)
+  const dynamoClient = new DynamoDBClient(appContext);
+
+  const seasonParam = event.pathParameters?.season;
+  if (!seasonParam) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ message: 'season path parameter is required' }),
+    };
+  }
+  const season = normalizeSeason(seasonParam);
+  const competition = event.queryStringParameters?.competition;
+
+  const { tieBreakers, invalid } = parseTieBreakers(event.queryStringParameters?.tiebreakers);
+  if (invalid.length > 0) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({
+        message: `Unknown tie-breakers: ${invalid.join(', ')}; supported: ${TIE_BREAKERS.join(', ')}`,
+      }),
+    };
+  }
+
+  try {
+    // Tables and results of the season (or of one competition); results are needed for head-to-head
+    const items: Record<string, any>[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+    do {
+      const page = competition
+        ? await dynamoClient.query(
+          'matches',
+          'pk = :pk AND begins_with(sk, :competition)',
+          { ':pk': buildStandingsPartitionKey(season), ':competition': `${competition}#` },
+          { exclusiveStartKey }
+        )
+        : await dynamoClient.query(
+          'matches',
+          'pk = :pk',
+          { ':pk': buildStandingsPartitionKey(season) },
+          { exclusiveStartKey }
+        );
+      items.push(...page.items);
+      exclusiveStartKey = page.lastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    const tables = items.filter((item) => item.sk.endsWith('#TABLE')) as StandingsRecord[];
+    const results = items.filter((item) => item.sk.includes('#RESULT#')) as MatchResultRecord[];
+
+    if (tables.length === 0) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({
+          message: `No finished matches for season ${season}${competition ? ` in ${competition}` : ''}`,
+        }),
+      };
+    }
+
+    const standings = tables.map((table) => ({
+      competition: table.competition,
+      matches: table.matches,
+      updatedAt: table.updated_at,
+      table: rankStandings(
+        table.rows,
+        results.filter((result) => result.competition === table.competition),
+        tieBreakers
+      ),
+    }));
+
+    console.info('Query successful for standings', { season, competitions: standings.length });
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ season, tieBreakers, standings }),
+    };
+  } catch (error: any) {
+    console.error('Error querying DynamoDB for standings', error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Internal Server Error' }),
+    };
+  }
+};
@@ -0,0 +1,151 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import {
+  LambdaUtils,
+  EventLogger,
+  getHeader
+} from '../../lambda/utils/lambda-utils';
+import { createAppContext } from '../../lib/utils/app-context';
+import {
+  IngestionPipeline,
+  EVENT_CONFIG,
+  summarizeBatch
+} from '../../lambda/utils/ingestion-pipeline';
+import {
+  parseProviderBody,
+  resolveAdapter,
+  resolveAdapterContext
+} from '../../lambda/adapters/provider-adapters';
+import { ParsedProviderBody } from '../../lambda/dtos/provider-adapters';
+import { WebhookConfig } from '../../lambda/dtos/provider-access';
+import { DynamoDBClient } from '../../lambda/clients/dynamo-client';
+import { SecretsClient } from '../../lambda/clients/secrets-client';
+import { IdempotencyStore } from '../../lambda/utils/idempotency-store';
+import {
+  DEFAULT_TOLERANCE_SECONDS,
+  SIGNATURE_HEADER,
+  getSignatureDigest,
+  TIMESTAMP_HEADER,
+  verifyWebhookSignature
+} from '../../lambda/utils/webhook-signature';
+
+const unauthorized = (message: string): APIGatewayProxyResult => ({
+  statusCode: 401,
+  body: JSON.stringify({ status: 'unauthorized', message })
+});
+
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  // Initialize app context and utilities
+  const appContext = createAppContext();
+  const baseLogger = appContext.logging.logger;
+  const logger = new EventLogger(baseLogger);
+  const utils = new LambdaUtils(logger, appContext);
+  const providerId = event.pathParameters?.provider;
+
+  try {
+    if (!providerId) {
+      return unauthorized('Unknown webhook provider');
+    }
+
+    // Unknown and disabled providers get the same answer as a bad signature
+    const dynamoClient = new DynamoDBClient(appContext);
+    const config = await dynamoClient.getItem<WebhookConfig>('providers', {
+      pk: `PROVIDER#${providerId}`,
+      sk: 'WEBHOOK',
+    });
+    if (!config || !config.enabled) {
+      logger.warn('Webhook for unknown or disabled provider', { providerId });
+      return unauthorized('Unknown webhook provider');
+    }
+
+    const secretId = config.secret_id || `${appContext.project}/${appContext.environment}/webhooks/${providerId}`;
+    const secret = await new SecretsClient(appContext).getSecretString(secretId);
+    if (!secret) {
+      throw new Error(`Webhook signing secret ${secretId} is not configured`);
+    }
+
+    // The signature covers the body exactly as the provider sent it
+    const rawBody = event.isBase64Encoded && event.body
+      ? Buffer.from(event.body, 'base64').toString('utf8')
+      : event.body || '';
+    const signature = getHeader(event.headers, SIGNATURE_HEADER);
+    const timestamp = getHeader(event.headers, TIMESTAMP_HEADER);
+    const toleranceSeconds = config.tolerance_seconds
+      ?? (Number(process.env.WEBHOOK_TOLERANCE_SECONDS) || DEFAULT_TOLERANCE_SECONDS);
+    const verification = verifyWebhookSignature({ rawBody, signature, timestamp, secret, toleranceSeconds });
+    if (!verification.valid) {
+      logger.warn('Rejected webhook signature', { providerId, reason: verification.reason });
+      return unauthorized(verification.reason || 'Invalid signature');
+    }
+
+    // A captured request keeps a valid signature until its timestamp leaves the window
+    const firstDelivery = await new IdempotencyStore(dynamoClient, logger).recordWebhookDelivery(
+      providerId,
+      getSignatureDigest(signature!),
+      Number(timestamp) + toleranceSeconds
+    );
+    if (!firstDelivery) {
+      return unauthorized('Webhook delivery was already received');
+    }
+
+    // Convert the pushed payload with the provider's adapter
+    let parsed: ParsedProviderBody;
+    try {
+      parsed = parseProviderBody(resolveAdapter(config.source, undefined), rawBody, resolveAdapterContext(event));
+    } catch (parseError) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          status: 'validation_error',
+          message: parseError instanceof Error ? parseError.message : 'Invalid webhook body',
+        })
+      };
+    }
+    const { items, providerPayloads, skipped } = parsed;
+
+    if (items.length > EVENT_CONFIG.MAX_BATCH_SIZE) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          status: 'validation_error',
+          message: `Webhook payload must contain at most ${EVENT_CONFIG.MAX_BATCH_SIZE} events`,
+        })
+      };
+    }
+
+    // Same validation, S3 and EventBridge path as POST /events/batch
+    const pipeline = new IngestionPipeline(appContext, utils, logger);
+    const results = await pipeline.ingestBatch(items, {
+      providerPayloads,
+      provider: { providerId: config.provider_id, allowedCompetitions: config.allowed_competitions || [] },
+    });
+    const summary = summarizeBatch(results);
+
+    logger.info('Webhook processed', { providerId, ...summary });
+
+    return {
+      statusCode: summary.accepted === summary.total ? 200 : 207,
+      body: JSON.stringify({
+        status: summary.accepted === summary.total ? 'success' : 'partial',
+        summary,
+        results,
+        ...(skipped.length > 0 ? { skipped } : {})
+      })
+    };
+  } catch (error) {
+    // Use shared error handling
+    const errorResponse = await utils.handleError(
+      error,
+      {
+        request_id: event.requestContext?.requestId,
+        path: event.path,
+        method: event.httpMethod,
+        provider: providerId
+      }
+    );
+
+    return {
+      statusCode: errorResponse.code,
+      body: JSON.stringify(errorResponse)
+    };
+  }
+};
@@ -0,0 +1,57 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { createAppContext } from '../../lib/utils/app-context';
+import { MatchDataAccess } from '../utils/match-data-access';
+import { summarizeLifecycle } from '../utils/match-lifecycle';
+import { XG_MODEL_VERSION, summarizeXG } from '../utils/xg';
+
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  // Initialize AppContext to get proper endpoint configuration
+  const appContext = createAppContext();
+
+  // Reads the match through its directory item, using the table names of appContext
+  const matchData = new MatchDataAccess(appContext);
+
+  const matchId = event.pathParameters?.match_id;
+  if (!matchId) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ message: 'match_id path parameter is required' }),
+    };
+  }
+
+  try {
+    // Shots and their xG are kept on the match state
+    const state = await matchData.getMatchState(matchId);
+    if (!state) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: `No events processed for match ${matchId}` }),
+      };
+    }
+
+    const { teams, players, shots } = summarizeXG(state);
+
+    console.info('Query successful for xG', { matchId, totalShots: shots.length });
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        matchId,
+        match: summarizeLifecycle(state),
+        model: XG_MODEL_VERSION,
+        xg: state.xg || { home: 0, away: 0 },
+        teams,
+        players,
+        totalShots: shots.length,
+        shots,
+      }),
+    };
+  } catch (error: any) {
+    console.error('Error querying DynamoDB for xG', error);
+
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Internal Server Error' }),
+    };
+  }
+};
@@ -0,0 +1,164 @@
+// File: utils/amendments.ts
+import { ValidationRule } from '../dtos/lambda-utils';
+import { AmendedEvent, AmendmentEvent } from '../dtos/amendments';
+import { getEventValidationRules } from './event-schemas';
+
+export const AMENDMENT_EVENT_TYPE = 'amendment';
+
+// Events table GSI keyed by event_id, used to find the event an amendment targets
+export const EVENT_ID_INDEX = 'EventIdIndex';
+
+// Fields that identify an event, its storage location or its place in the match order, and
+// fields processing derives; a correction may not change them
+const IMMUTABLE_FIELDS = [
+  'event_id', 'event_type', 'match_id', 'parent_id', 'trace_id', 'season',
+  'pk', 'sk', 'gsi1pk', 'gsi1sk', 'processed_at', 'processed_timestamp', 'provider_id',
+  'match_order', 'sequence', 'schema_version', 'xg',
+];
+
+// Bookkeeping fields that are not part of the event itself
+const STORAGE_FIELDS = ['pk', 'sk', 'gsi1pk', 'gsi1sk'];
+
+const AMENDMENT_RULES: ValidationRule[] = [
+  {
+    field: 'event_id',
+    validator: (value: any) => typeof value === 'string' && value.length > 0,
+    message: 'amendment requires its own event_id',
+  },
+  {
+    field: 'parent_id',
+    validator: (value: any) => typeof value === 'string' && value.length > 0,
+    message: 'amendment requires the amended event id (parent_id)',
+  },
+  {
+    field: 'match_id',
+    validator: (value: any) => value !== undefined && value !== null && String(value).length > 0,
+    message: 'amendment requires a match_id',
+  },
+  {
+    field: 'amendment_type',
+    validator: (value: any) => value === 'correction' || value === 'retraction',
+    message: 'amendment_type must be correction or retraction',
+  },
+  {
+    field: 'amended_at',
+    validator: (value: any) => Boolean(value) && !isNaN(new Date(value).getTime()),
+    message: 'amended_at must be a valid date string',
+  },
+  {
+    field: 'season',
+    validator: (value: any) => typeof value === 'string' && value.length > 0,
+    message: 'amendment requires the season of the amended event',
+  },
+];
+
+export function isAmendment(event: Record<string, any> | undefined): boolean {
+  return event?.event_type === AMENDMENT_EVENT_TYPE;
+}
+
+/**
+ * Validation rules for amendment events published to the match event bus
+ */
+export function getAmendmentValidationRules(): ValidationRule[] {
+  return AMENDMENT_RULES;
+}
+
+/**
+ * Builds the sort key of an amendment; amendments of one event sort by time
+ */
+export function buildAmendmentSortKey(amendment: AmendmentEvent): string {
+  return `AMENDMENT#${amendment.parent_id}#${amendment.amended_at}#${amendment.event_id}`;
+}
+
+/**
+ * Applies a correction's changes to an event; a null value removes the field
+ */
+export function applyChanges(event: Record<string, any>, changes: Record<string, any> = {}): Record<string, any> {
+  const updated = { ...event };
+  Object.entries(changes).forEach(([field, value]) => {
+    if (value === null) {
+      delete updated[field];
+    } else {
+      updated[field] = value;
+    }
+  });
+  return updated;
+}
+
+/**
+ * Checks a correction against the current version of an event
+ * @param current Event with earlier amendments applied
+ * @param changes Fields to correct
+ * @returns Validation errors; empty when the corrected event is valid
+ */
+export function validateCorrection(current: Record<string, any>, changes: unknown): string[] {
+  if (!changes || typeof changes !== 'object' || Array.isArray(changes) || Object.keys(changes).length === 0) {
+    return ['changes must be a non-empty object of corrected fields'];
+  }
+
+  const immutable = Object.keys(changes).filter((field) => IMMUTABLE_FIELDS.includes(field));
+  if (immutable.length > 0) {
+    return [`these fields cannot be corrected: ${immutable.join(', ')}`];
+  }
+
+  // The corrected event must still satisfy its schema
+  const corrected = applyChanges(current, changes as Record<string, any>);
+  return getEventValidationRules(corrected.event_type)
+    .filter((rule) => !rule.validator(corrected[rule.field], corrected))
+    .map((rule) => rule.message);
+}
+
+/**
+ * Builds the corrected view of a set of stored items
+ * @param items Event and amendment items, in any order
+ * @param options includeHistory keeps retracted events and attaches the original and every amendment
+ * @returns Events with their amendments applied, in input order
+ */
+export function applyAmendments(
+  items: Record<string, any>[],
+  options: { includeHistory?: boolean } = {}
+): AmendedEvent[] {
+  const amendmentsByEvent = new Map<string, AmendmentEvent[]>();
+  items.filter(isAmendment).forEach((item) => {
+    const amendment = stripStorageFields(item) as AmendmentEvent;
+    const list = amendmentsByEvent.get(amendment.parent_id) || [];
+    list.push(amendment);
+    amendmentsByEvent.set(amendment.parent_id, list);
+  });
+
+  const results: AmendedEvent[] = [];
+  items.filter((item) => !isAmendment(item)).forEach((item) => {
+    const original = stripStorageFields(item);
+    const amendments = (amendmentsByEvent.get(original.event_id) || [])
+      .sort((a, b) => a.amended_at.localeCompare(b.amended_at));
+
+    let current: AmendedEvent = { ...original };
+    let retracted = false;
+    amendments.forEach((amendment) => {
+      if (amendment.amendment_type === 'retraction') {
+        retracted = true;
+      } else {
+        current = applyChanges(current, amendment.changes);
+      }
+    });
+
+    if (amendments.length > 0) {
+      current.amended = true;
+      current.last_amended_at = amendments[amendments.length - 1].amended_at;
+    }
+
+    if (options.includeHistory) {
+      results.push({ ...current, retracted, history: { original, amendments } });
+    } else if (!retracted) {
+      results.push(current);
+    }
+  });
+
+  return results;
+}
+
+function stripStorageFields(item: Record<string, any>): Record<string, any> {
+  const event = { ...item };
+  STORAGE_FIELDS.forEach((field) => delete event[field]);
+  return event;
+}
@@ -0,0 +1,163 @@
+// File: utils/bulk-import.ts
+import * as readline from 'readline';
+import { Readable } from 'stream';
+import { ImportFormat, ImportRecord } from '../dtos/bulk-import';
+
+export const IMPORT_PREFIX = 'imports/';
+export const IMPORT_REPORT_PREFIX = 'import-reports/';
+
+// CSV columns holding numbers; everything else stays a string so ids like "007" survive
+const NUMERIC_COLUMN = /^(minute|second|period|(score|position|end_position)\.[a-z_]+)$/;
+const BOOLEAN_COLUMN = /^(success|own_goal|second_yellow)$/;
+
+/**
+ * Picks the parser for an import file from its extension
+ * @param key S3 object key
+ * @returns The file format, or undefined when the file type is not supported
+ */
+export function getImportFormat(key: string): ImportFormat | undefined {
+  const lowerKey = key.toLowerCase();
+  if (lowerKey.endsWith('.csv')) {
+    return 'csv';
+  }
+  if (lowerKey.endsWith('.ndjson') || lowerKey.endsWith('.jsonl')) {
+    return 'ndjson';
+  }
+  return undefined;
+}
+
+/**
+ * Builds the key of the report written for an import file
+ */
+export function getImportReportKey(key: string): string {
+  const relativeKey = key.startsWith(IMPORT_PREFIX) ? key.slice(IMPORT_PREFIX.length) : key;
+  return `${IMPORT_REPORT_PREFIX}${relativeKey}.report.json`;
+}
+
+/**
+ * Splits one CSV record into fields (RFC 4180 quoting, "" escapes a quote)
+ */
+export function parseCsvFields(record: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < record.length; i++) {
+    const char = record[i];
+    if (quoted) {
+      if (char === '"' && record[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+
+  return fields;
+}
+
+/**
+ * Converts a CSV row to a canonical event. Dotted headers (score.home, position.x)
+ * become nested objects; empty cells are left out.
+ */
+export function csvRowToEvent(headers: string[], fields: string[]): Record<string, any> | Error {
+  if (fields.length !== headers.length) {
+    return new Error(`Expected ${headers.length} columns but found ${fields.length}`);
+  }
+
+  const event: Record<string, any> = {};
+  for (let i = 0; i < headers.length; i++) {
+    const column = headers[i];
+    const raw = fields[i].trim();
+    if (!column || raw === '') {
+      continue;
+    }
+
+    let value: any = raw;
+    if (NUMERIC_COLUMN.test(column)) {
+      value = Number(raw);
+      if (isNaN(value)) {
+        return new Error(`${column} must be a number`);
+      }
+    } else if (BOOLEAN_COLUMN.test(column)) {
+      if (raw !== 'true' && raw !== 'false') {
+        return new Error(`${column} must be true or false`);
+      }
+      value = raw === 'true';
+    }
+
+    const path = column.split('.');
+    let target = event;
+    for (const segment of path.slice(0, -1)) {
+      target[segment] = target[segment] ?? {};
+      target = target[segment];
+    }
+    target[path[path.length - 1]] = value;
+  }
+
+  return event;
+}
+
+/**
+ * Reads an import file line by line, yielding one record per data row
+ * @param stream Object body stream
+ * @param format File format
+ */
+export async function* readImportRecords(stream: Readable, format: ImportFormat): AsyncGenerator<ImportRecord> {
+  const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+  let headers: string[] | undefined;
+  let pending = '';
+  let pendingStartRow = 0;
+  let lineNumber = 0;
+
+  for await (const line of lines) {
+    lineNumber++;
+
+    if (format === 'ndjson') {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        yield { row: lineNumber, item: JSON.parse(line) };
+      } catch {
+        yield { row: lineNumber, item: new Error('Invalid JSON') };
+      }
+      continue;
+    }
+
+    // A quoted CSV field may contain line breaks: keep reading until the quotes balance
+    if (!pending) {
+      pendingStartRow = lineNumber;
+    }
+    pending = pending ? `${pending}\n${line}` : line;
+    if ((pending.match(/"/g) || []).length % 2 !== 0) {
+      continue;
+    }
+    const record = pending;
+    pending = '';
+
+    if (!record.trim()) {
+      continue;
+    }
+    if (!headers) {
+      headers = parseCsvFields(record.replace(/^\uFEFF/, '')).map((header) => header.trim());
+      continue;
+    }
+    yield { row: pendingStartRow, item: csvRowToEvent(headers, parseCsvFields(record)) };
+  }
+
+  if (pending) {
+    yield { row: pendingStartRow, item: new Error('Unterminated quoted field') };
+  }
+}
@@ -0,0 +1,289 @@
+// File: utils/dlq.ts
+import * as AWS from 'aws-sdk';
+import { SQSClient } from '../clients/sqs-client';
+import { Logger } from '../dtos/lambda-utils';
+import {
+  DLQEnvelope,
+  DLQFailure,
+  DLQFailureReason,
+  DLQMessage,
+  DLQMessageGroup,
+  DLQMessageSummary
+} from '../dtos/dlq';
+
+export const DLQ_ENVELOPE_VERSION = 1;
+export const DLQ_AUDIT_PREFIX = 'dlq-audit/';
+
+// Inspected messages stay hidden from other readers for this long, then are released
+const PEEK_VISIBILITY_SECONDS = 30;
+const RECEIVE_BATCH_SIZE = 10;
+export const MAX_SCANNED_MESSAGES = 500;
+
+// Storage fields of an events table item; a redriven item is processed as the event it holds
+const STORAGE_FIELDS = ['pk', 'sk', 'gsi1pk', 'gsi1sk', 'processed_at'];
+
+/**
+ * Maps an error to a failure reason
+ */
+export function classifyFailure(error: unknown): DLQFailureReason {
+  if (error === undefined || error === null) {
+    return 'unknown';
+  }
+  const name = String((error as any).code || (error as any).name || '');
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (name === 'ConditionalCheckFailedException') {
+    return 'conditional_check';
+  }
+  if (/Throttl|ProvisionedThroughputExceeded|TooManyRequests|RequestLimitExceeded/.test(name) || /rate exceeded|throttl/i.test(message)) {
+    return 'throttling';
+  }
+  if (name === 'ValidationError' || /validation/i.test(message)) {
+    return 'validation';
+  }
+  if (/Timeout|ETIMEDOUT/i.test(name) || /timed? ?out/i.test(message)) {
+    return 'timeout';
+  }
+  if (name === 'ResourceNotFoundException' || /not found|does not exist/i.test(message)) {
+    return 'not_found';
+  }
+  return 'processing_error';
+}
+
+/**
+ * Wraps a failed event (or write) in the envelope every DLQ producer sends
+ * @param payload The failed event, as it would be processed again
+ * @param failure Origin and cause of the failure
+ */
+export function createDLQEnvelope(payload: Record<string, any>, failure: DLQFailure): DLQEnvelope {
+  const { error } = failure;
+  return {
+    envelope_version: DLQ_ENVELOPE_VERSION,
+    origin: failure.origin,
+    reason: failure.reason || classifyFailure(error),
+    ...(error !== undefined ? {
+      error_message: error instanceof Error ? error.message : String(error),
+      error_name: String((error as any)?.code || (error as any)?.name || 'Error'),
+    } : {}),
+    failed_at: new Date().toISOString(),
+    retry_count: (payload.retry_count || 0) + 1,
+    ...(payload.match_id !== undefined ? { match_id: String(payload.match_id) } : {}),
+    ...(payload.event_type || failure.detailType ? { event_type: payload.event_type || failure.detailType } : {}),
+    ...(payload.idempotency_key || payload.idempotencyKey ? { idempotency_key: payload.idempotency_key || payload.idempotencyKey } : {}),
+    ...(failure.eventSource ? { event_source: failure.eventSource } : {}),
+    ...(failure.detailType ? { detail_type: failure.detailType } : {}),
+    payload,
+    ...(failure.context ? { context: failure.context } : {}),
+  };
+}
+
+export function isDLQEnvelope(body: any): body is DLQEnvelope {
+  return Boolean(body) && typeof body.envelope_version === 'number' && typeof body.origin === 'string' && 'payload' in body;
+}
+
+/**
+ * Reads a DLQ message as an envelope. Messages EventBridge and SQS move to the
+ * DLQ themselves, and messages sent before the envelope existed, are converted
+ * from their own shapes.
+ * @param message Message received with all attributes and message attributes
+ */
+export function parseDLQMessage(message: AWS.SQS.Message): DLQMessage {
+  const attributes = message.Attributes || {};
+  const messageAttributes = message.MessageAttributes || {};
+  const sentAt = attributes.SentTimestamp ? new Date(Number(attributes.SentTimestamp)).toISOString() : undefined;
+  const result = (envelope: DLQEnvelope, normalized: boolean): DLQMessage => ({
+    message_id: message.MessageId || '',
+    receipt_handle: message.ReceiptHandle,
+    sent_at: sentAt,
+    receive_count: Number(attributes.ApproximateReceiveCount || 0),
+    envelope,
+    normalized,
+  });
+  const normalize = (payload: Record<string, any>, fields: Partial<DLQEnvelope>): DLQMessage => result({
+    ...createDLQEnvelope(payload, { origin: 'unknown' }),
+    retry_count: Number(payload.retry_count || 0),
+    ...fields,
+    failed_at: fields.failed_at || sentAt || new Date().toISOString(),
+  }, true);
+
+  let body: any;
+  try {
+    body = JSON.parse(message.Body || '');
+  } catch {
+    return normalize({ raw: message.Body }, { reason: 'unknown' });
+  }
+
+  if (isDLQEnvelope(body)) {
+    return result(body, false);
+  }
+
+  // EventBridge rule targets put the event in the body and the error in message attributes
+  const isBusEvent = body && body.source && body['detail-type'] && body.detail;
+  const busFields = isBusEvent ? { event_source: body.source, detail_type: body['detail-type'] } : {};
+  if (messageAttributes.ERROR_CODE || messageAttributes.RULE_ARN) {
+    return normalize(isBusEvent ? body.detail : body, {
+      origin: 'eventbridge-rule',
+      reason: 'delivery_failed',
+      error_name: messageAttributes.ERROR_CODE?.StringValue,
+      error_message: messageAttributes.ERROR_MESSAGE?.StringValue,
+      context: { rule_arn: messageAttributes.RULE_ARN?.StringValue, target_arn: messageAttributes.TARGET_ARN?.StringValue },
+      ...busFields,
+    });
+  }
+
+  // SQS moves messages received too often; the body is whatever was on the processing queue
+  if (attributes.DeadLetterQueueSourceArn) {
+    return normalize(isBusEvent ? body.detail : body, {
+      origin: 'sqs-redrive',
+      reason: 'max_receives_exceeded',
+      context: { source_queue_arn: attributes.DeadLetterQueueSourceArn },
+      ...busFields,
+    });
+  }
+
+  // Shapes of producers that predate the envelope
+  if (body.tableName && body.item) {
+    return normalize(body.item, { origin: 'dynamodb-write', reason: 'unknown', failed_at: body.failedAt, context: { table_name: body.tableName } });
+  }
+  if (body.idempotency_key && body.payload) {
+    return normalize({ match_id: body.match_id, ...body.payload }, {
+      origin: 'eventbridge-publish',
+      reason: 'publish_failed',
+      failed_at: body.failed_at,
+      idempotency_key: body.idempotency_key,
+      detail_type: body.event_type,
+    });
+  }
+  if (body.dlq_timestamp) {
+    const { dlq_timestamp, retry_count, validation_errors, ...payload } = body;
+    return normalize(isBusEvent ? payload.detail : payload, {
+      origin: 'event-processing',
+      reason: validation_errors ? 'validation' : 'unknown',
+      failed_at: dlq_timestamp,
+      retry_count: retry_count || 0,
+      ...(validation_errors ? { error_message: validation_errors.join(', ') } : {}),
+      ...busFields,
+    });
+  }
+
+  return normalize(isBusEvent ? body.detail : body, { reason: 'unknown', ...busFields });
+}
+
+export function summarizeDLQMessage(message: DLQMessage): DLQMessageSummary {
+  const { envelope } = message;
+  return {
+    message_id: message.message_id,
+    origin: envelope.origin,
+    reason: envelope.reason,
+    ...(envelope.error_message ? { error_message: envelope.error_message } : {}),
+    failed_at: envelope.failed_at,
+    ...(envelope.match_id ? { match_id: envelope.match_id } : {}),
+    ...(envelope.event_type ? { event_type: envelope.event_type } : {}),
+  };
+}
+
+/**
+ * Groups DLQ messages by origin and failure reason, largest groups first
+ */
+export function groupDLQMessages(messages: DLQMessage[]): DLQMessageGroup[] {
+  const groups = new Map<string, DLQMessageGroup>();
+
+  messages.forEach((message) => {
+    const { origin, reason, failed_at } = message.envelope;
+    const key = `${origin}|${reason}`;
+    const group = groups.get(key) || { origin, reason, count: 0, oldest: failed_at, newest: failed_at, messages: [] };
+    group.count++;
+    group.oldest = failed_at < group.oldest ? failed_at : group.oldest;
+    group.newest = failed_at > group.newest ? failed_at : group.newest;
+    group.messages.push(summarizeDLQMessage(message));
+    groups.set(key, group);
+  });
+
+  return [...groups.values()]
+    .map((group) => ({ ...group, messages: group.messages.sort((a, b) => a.failed_at.localeCompare(b.failed_at)) }))
+    .sort((a, b) => b.count - a.count || a.origin.localeCompare(b.origin) || a.reason.localeCompare(b.reason));
+}
+
+/**
+ * The event a DLQ message would be redriven as
+ * @returns The event, or undefined when the payload is not an event (e.g. a failed update)
+ */
+export function getRedrivePayload(envelope: DLQEnvelope): Record<string, any> | undefined {
+  const payload: Record<string, any> = { ...envelope.payload };
+  if (envelope.origin === 'dynamodb-write') {
+    STORAGE_FIELDS.forEach((field) => delete payload[field]);
+  }
+  return payload.match_id !== undefined && (payload.event_type || envelope.detail_type) ? payload : undefined;
+}
+
+export function getDLQAuditKey(messageId: string, action: string): string {
+  return `${DLQ_AUDIT_PREFIX}${messageId}-${action}.json`;
+}
+
+/**
+ * Reads DLQ messages without consuming them. Messages are received with a
+ * short visibility timeout and made visible again once inspected; a message
+ * being redriven or discarded stays hidden until it is deleted.
+ */
+export class DLQInspector {
+  constructor(
+    private readonly sqsClient: SQSClient,
+    private readonly dlqUrl: string,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Reads up to maxMessages messages and releases them again
+   */
+  public async peek(maxMessages: number = MAX_SCANNED_MESSAGES): Promise<DLQMessage[]> {
+    const messages = await this.scan(maxMessages);
+    await this.release(messages);
+    return messages;
+  }
+
+  /**
+   * Looks a message up by id. Every other message read on the way is released;
+   * the message found stays hidden so it can be deleted with its receipt handle.
+   * @returns The message, or undefined when it is not in the queue (or beyond the scan limit)
+   */
+  public async find(messageId: string): Promise<DLQMessage | undefined> {
+    const messages = await this.scan(MAX_SCANNED_MESSAGES, messageId);
+    const found = messages.find((message) => message.message_id === messageId);
+    await this.release(messages.filter((message) => message !== found));
+    return found;
+  }
+
+  public async release(messages: DLQMessage[]): Promise<void> {
+    await this.sqsClient.changeVisibility(
+      this.dlqUrl,
+      messages.filter((message) => message.receipt_handle).map((message) => message.receipt_handle!),
+      0
+    );
+  }
+
+  public async remove(message: DLQMessage): Promise<void> {
+    await this.sqsClient.deleteMessage(this.dlqUrl, message.receipt_handle!);
+    this.logger.info('Removed message from DLQ', { message_id: message.message_id });
+  }
+
+  private async scan(maxMessages: number, stopAt?: string): Promise<DLQMessage[]> {
+    const messages: DLQMessage[] = [];
+
+    while (messages.length < maxMessages) {
+      const received = await this.sqsClient.receiveMessages(this.dlqUrl, {
+        maxMessages: Math.min(RECEIVE_BATCH_SIZE, maxMessages - messages.length),
+        visibilityTimeout: PEEK_VISIBILITY_SECONDS,
+      });
+      if (received.length === 0) {
+        break;
+      }
+      messages.push(...received.map(parseDLQMessage));
+      if (stopAt && received.some((message) => message.MessageId === stopAt)) {
+        break;
+      }
+    }
+
+    this.logger.debug('Scanned DLQ', { messages: messages.length });
+    return messages;
+  }
+}
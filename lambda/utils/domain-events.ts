@@ -0,0 +1,75 @@
+// File: utils/domain-events.ts
+import { DomainEvent } from '../dtos/domain-events';
+import { MatchState } from '../dtos/match-state';
+import { getMatchPhase } from './match-lifecycle';
+
+// Source of derived events; differs from the live feed source so event processing does not consume them
+export const DOMAIN_EVENT_SOURCE = 'football.matches.domain';
+
+/**
+ * Compares two versions of a match state and lists the domain events the change implies
+ * @param previous State before the change (undefined for a new match)
+ * @param state State after the change (undefined when the record was removed)
+ */
+export function deriveDomainEvents(previous: MatchState | undefined, state: MatchState | undefined): DomainEvent[] {
+  if (!state) {
+    return [];
+  }
+
+  const events: DomainEvent[] = [];
+  const matchId = state.match_id;
+  const context = {
+    season: state.season,
+    competition: state.competition,
+    home_team: state.home_team,
+    away_team: state.away_team,
+    period: state.period,
+    minute: state.minute,
+  };
+  const build = (eventType: DomainEvent['event_type'], suffix: string, detail: Record<string, any>): DomainEvent => ({
+    event_type: eventType,
+    match_id: matchId,
+    idempotency_key: `${matchId}-${eventType}-v${state.version}${suffix}`,
+    detail: { ...context, ...detail },
+  });
+
+  const previousScore = previous?.score || { home: 0, away: 0 };
+  if (previousScore.home !== state.score.home || previousScore.away !== state.score.away) {
+    const knownGoals = new Set((previous?.goals || []).map((goal) => goal.event_id));
+    events.push(build('match.score_changed', '', {
+      previous_score: previousScore,
+      score: state.score,
+      // Goals recorded by this change; empty when a goal was retracted
+      goals: state.goals.filter((goal) => !knownGoals.has(goal.event_id)),
+    }));
+  }
+
+  // Phases are finer than statuses: the second half kicking off keeps the match live
+  const previousStatus = previous?.status || 'scheduled';
+  const previousPhase = previous ? getMatchPhase(previous) : 'scheduled';
+  const phase = getMatchPhase(state);
+  if (previousStatus !== state.status || previousPhase !== phase) {
+    events.push(build('match.status_changed', '', {
+      previous_status: previousStatus,
+      status: state.status,
+      previous_phase: previousPhase,
+      phase,
+    }));
+  }
+
+  const alreadySentOff = new Set(previous?.sent_off || []);
+  state.sent_off
+    .filter((player) => !alreadySentOff.has(player))
+    .forEach((player) => {
+      // The dismissal card is the player's latest red or second yellow
+      const card = [...state.cards].reverse()
+        .find((candidate) => candidate.player === player && (candidate.card_type === 'red' || candidate.second_yellow));
+      events.push(build('player.sent_off', `-${player}`, {
+        player,
+        team: card?.team,
+        card,
+      }));
+    });
+
+  return events;
+}
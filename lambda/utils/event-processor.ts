@@ -0,0 +1,359 @@
+// File: utils/event-processor.ts
+import { AppContext } from '../../lib/utils/app-context';
+import { DynamoDBClient } from '../clients/dynamo-client';
+import { EventBridgeClient } from '../clients/eventbridge-client';
+import { AmendmentEvent } from '../dtos/amendments';
+import { EventProcessingResult, EventProcessorOptions } from '../dtos/event-processor';
+import { MatchStateChange } from '../dtos/match-state';
+import { ValidationResult } from '../dtos/lambda-utils';
+import { EventLogger, LambdaUtils, calculateSeason } from './lambda-utils';
+import { getEventValidationRules } from './event-schemas';
+import { upcastEvent } from './schema-versions';
+import { buildAmendmentSortKey, getAmendmentValidationRules, isAmendment } from './amendments';
+import { MatchSequencer } from './match-sequencer';
+import { MatchDataAccess } from './match-data-access';
+import {
+  DATA_QUALITY_EVENT_SOURCE,
+  SCORE_MISMATCH_EVENT_TYPE,
+  MatchStateProjector,
+  findNewScoreMismatches
+} from './match-state';
+import { PlayerStatsAggregator } from './player-stats';
+import { MatchRuleEngine, getViolationAction, loadQuarantinedEvents } from './match-rules';
+import { isLifecycleEvent } from './match-lifecycle';
+import { StandingsUpdater } from './standings';
+import { scoreShot } from './xg';
+
+/**
+ * Validates an event or amendment the way event processing does; older schema
+ * versions are upcast first
+ */
+export function validateMatchEvent(utils: LambdaUtils, eventData?: Record<string, any>): ValidationResult {
+  if (isAmendment(eventData)) {
+    return utils.validateEventData(eventData, getAmendmentValidationRules());
+  }
+  const normalized = eventData ? upcastEvent(eventData) : eventData;
+  return utils.validateEventData(normalized, getEventValidationRules(normalized?.event_type));
+}
+
+/**
+ * Stores one event (or amendment) and updates every projection built from it:
+ * ordering, match state, player statistics and standings. Shared by the
+ * event-processing Lambda and the replay job, so replayed events go through
+ * exactly the same steps as live ones.
+ */
+export class EventProcessor {
+  public readonly standings: StandingsUpdater;
+  private readonly dynamoClient: DynamoDBClient;
+  private readonly sequencer: MatchSequencer;
+  private readonly projector: MatchStateProjector;
+  private readonly playerStats: PlayerStatsAggregator;
+  private readonly rules: MatchRuleEngine;
+  private readonly matchData: MatchDataAccess;
+  private readonly dataQualityPublisher: EventBridgeClient;
+
+  constructor(
+    private readonly appContext: AppContext,
+    private readonly utils: LambdaUtils,
+    private readonly logger: EventLogger,
+    private readonly options: EventProcessorOptions = {}
+  ) {
+    this.dynamoClient = new DynamoDBClient(appContext);
+    this.sequencer = new MatchSequencer(this.dynamoClient, logger);
+    this.projector = new MatchStateProjector(this.dynamoClient, logger);
+    this.playerStats = new PlayerStatsAggregator(this.dynamoClient, logger, appContext.eventnameGenerator);
+    this.standings = new StandingsUpdater(this.dynamoClient, logger);
+    this.rules = new MatchRuleEngine(this.dynamoClient, logger);
+    this.matchData = new MatchDataAccess(appContext, this.dynamoClient);
+
+    // Data-quality findings use their own source, so the match event rule does not feed them back here
+    this.dataQualityPublisher = new EventBridgeClient(appContext, {
+      eventBusName: appContext.eventBusName,
+      eventSource: DATA_QUALITY_EVENT_SOURCE,
+      deadLetterQueueUrl: process.env.EVENT_DLQ_URL || '',
+    });
+  }
+
+  /**
+   * Upcasts older schema versions and validates against the same schemas as ingestion
+   */
+  public validateEvent(eventData?: Record<string, any>): ValidationResult {
+    return validateMatchEvent(this.utils, eventData);
+  }
+
+  /**
+   * Builds the events table key of an event. Events are keyed by the event_id ingestion
+   * assigned, which redeliveries and replays keep; a hash of the identifying fields would
+   * merge different events that share them (two passes of one team at one timestamp).
+   * @param eventData Upcast event
+   */
+  public getEventKey(eventData: Record<string, any>): { pk: string; sk: string; idempotencyKey: string; season: string } {
+    const { match_id, event_type, timestamp } = eventData;
+    const season = calculateSeason(timestamp || new Date().toISOString());
+    const idempotencyKey = this.options.uniqueIdempotencyKeys
+      ? `${match_id}-${event_type}-${Date.now()}`
+      : eventData.idempotencyKey || eventData.event_id || this.utils.generateEventIdempotencyKey(eventData);
+
+    return {
+      pk: this.appContext.eventnameGenerator.generatePartitionKey(season, match_id),
+      sk: this.appContext.eventnameGenerator.generateSortKey('EVENT', idempotencyKey),
+      idempotencyKey,
+      season,
+    };
+  }
+
+  /**
+   * Stores an event or amendment and updates the projections
+   * @param rawEventData Event as published to the match event bus
+   * @param options releasingQuarantine is set while quarantined events are checked again
+   * @throws Error when the event fails validation or a write fails
+   */
+  public async process(
+    rawEventData: Record<string, any>,
+    options: { releasingQuarantine?: boolean } = {}
+  ): Promise<EventProcessingResult> {
+    if (isAmendment(rawEventData)) {
+      return await this.processAmendment(rawEventData as AmendmentEvent);
+    }
+
+    const eventData = upcastEvent(rawEventData);
+
+    // Enhanced validation with detailed logging
+    const validationResult = this.validateEvent(eventData);
+    if (!validationResult.valid) {
+      this.logger.warn('Event validation failed', { eventData, errors: validationResult.errors });
+      throw new Error(`Validation failed: ${validationResult.errors.join(', ')}`);
+    }
+
+    const { match_id, event_type, timestamp } = eventData;
+    const { idempotencyKey, season, ...eventKey } = this.getEventKey(eventData);
+
+    // Log the event data we're about to process
+    this.logger.info('Processing event data', {
+      match_id,
+      event_type,
+      timestamp,
+      season
+    });
+
+    // Redelivered events (EventBridge retries, SQS) are stored only once
+    const storedEvent = await this.dynamoClient.getItem<Record<string, any>>('events', eventKey);
+    if (storedEvent) {
+      this.logger.info('Duplicate event, already processed', { match_id, event_type, idempotencyKey });
+      // Re-applying is a no-op unless the earlier attempt failed before updating the match state
+      await this.handleStateChange(await this.projector.apply(storedEvent));
+      await this.playerStats.apply(eventKey.pk, storedEvent);
+      return {
+        status: 'skipped',
+        matchId: match_id,
+        eventId: idempotencyKey,
+        message: 'Duplicate event, already processed',
+      };
+    }
+
+    // Football rules, checked against the match as it stood at this event
+    const evaluation = await this.rules.evaluate(eventData, eventKey.pk, idempotencyKey);
+    if (evaluation.redundant) {
+      this.logger.info('Event repeats what the match already records', { match_id, event_type, idempotencyKey });
+      return {
+        status: 'skipped',
+        matchId: match_id,
+        eventId: idempotencyKey,
+        message: evaluation.redundant,
+      };
+    }
+
+    const violationAction = getViolationAction(evaluation.violations);
+    if (violationAction) {
+      const explanation = evaluation.violations.map((violation) => violation.message).join('; ');
+      this.logger.warn(violationAction === 'reject' ? 'Event rejected by match rules' : 'Event quarantined by match rules', {
+        match_id,
+        event_type,
+        idempotencyKey,
+        violations: evaluation.violations
+      });
+      if (violationAction === 'quarantine') {
+        await this.rules.quarantine(eventKey.pk, idempotencyKey, eventData, evaluation.violations);
+      }
+      return {
+        status: violationAction === 'reject' ? 'rejected' : 'quarantined',
+        matchId: match_id,
+        eventId: idempotencyKey,
+        violations: evaluation.violations,
+        message: explanation,
+      };
+    }
+
+    // Per-match sequence number, match-order key and late-arrival flag
+    const ordering = await this.sequencer.assign({ ...eventData, event_id: eventData.event_id || idempotencyKey });
+
+    const eventItem = {
+      ...eventKey,
+      gsi1pk: `EVENT_TYPE#${event_type}`,
+      gsi1sk: timestamp || new Date().toISOString(),
+      season,
+      ...eventData,
+      // Player statistics and amendments refer to events by event_id
+      event_id: eventData.event_id || idempotencyKey,
+      ...ordering,
+      ...(event_type === 'shot' ? scoreShot(eventData) : {}),
+      processed_at: new Date().toISOString(),
+    };
+
+    // Log the keys we're using
+    this.logger.debug('Generated DynamoDB keys', {
+      pk: eventItem.pk,
+      sk: eventItem.sk,
+      gsi1pk: eventItem.gsi1pk,
+      gsi1sk: eventItem.gsi1sk,
+      match_order: eventItem.match_order
+    });
+
+    try {
+      await this.dynamoClient.putItem('events', eventItem, { conditionExpression: 'attribute_not_exists(pk)', sendToDLQOnFailure: true });
+    } catch (error) {
+      if (!DynamoDBClient.isConditionalCheckFailed(error)) {
+        throw error;
+      }
+      // A concurrent delivery of the same event won the write
+      this.logger.info('Duplicate event, already processed', { match_id, event_type, idempotencyKey });
+      return {
+        status: 'skipped',
+        matchId: match_id,
+        eventId: idempotencyKey,
+        message: 'Duplicate event, already processed',
+      };
+    }
+
+    // Late events are folded in by replaying the match in order; others apply on top
+    const stateChange = ordering.late
+      ? await this.projector.rebuild(match_id, eventKey.pk)
+      : await this.projector.apply(eventItem);
+    await this.handleStateChange(stateChange);
+
+    // The match's first event records where its events are stored, for the query endpoints
+    if (!stateChange.previous) {
+      await this.matchData.registerMatch(match_id, season, eventData.competition);
+    }
+
+    // Box-score items per player, in the match's partition
+    if (ordering.late) {
+      await this.playerStats.rebuild(eventKey.pk);
+    } else {
+      await this.playerStats.apply(eventKey.pk, eventItem);
+    }
+
+    // Events the rules imply (an automatic red card after a second yellow) go through the same steps
+    for (const impliedEvent of evaluation.implied) {
+      await this.process(impliedEvent);
+    }
+
+    // Events that arrived before this period marker were checked against the previous phase
+    if (isLifecycleEvent(eventData) && !options.releasingQuarantine) {
+      await this.releaseQuarantined(eventKey.pk);
+    }
+
+    return {
+      status: 'success',
+      matchId: match_id,
+      eventId: idempotencyKey,
+      sequence: ordering.sequence,
+      late: ordering.late,
+      message: 'Event processed successfully',
+    };
+  }
+
+  // Amendments are stored in the amended event's partition, sorted after its other amendments
+  private async processAmendment(amendment: AmendmentEvent): Promise<EventProcessingResult> {
+    const validationResult = this.validateEvent(amendment);
+    if (!validationResult.valid) {
+      this.logger.warn('Amendment validation failed', { amendment, errors: validationResult.errors });
+      throw new Error(`Validation failed: ${validationResult.errors.join(', ')}`);
+    }
+
+    const amendmentItem = {
+      pk: this.appContext.eventnameGenerator.generatePartitionKey(amendment.season, amendment.match_id),
+      sk: buildAmendmentSortKey(amendment),
+      gsi1pk: `EVENT_TYPE#${amendment.event_type}`,
+      gsi1sk: amendment.amended_at,
+      ...amendment,
+      processed_at: new Date().toISOString(),
+    };
+
+    await this.dynamoClient.putItem('events', amendmentItem, { sendToDLQOnFailure: true });
+    // Event pages of matches without amendments skip reading them
+    await this.matchData.recordAmendment(amendment.match_id);
+
+    // A correction or retraction can change any part of the match state
+    await this.handleStateChange(await this.projector.rebuild(amendment.match_id, amendmentItem.pk));
+    await this.playerStats.rebuild(amendmentItem.pk);
+
+    this.logger.info('Amendment stored', {
+      match_id: amendment.match_id,
+      event_id: amendment.parent_id,
+      amendment_type: amendment.amendment_type
+    });
+
+    return {
+      status: 'success',
+      matchId: amendment.match_id,
+      eventId: amendment.event_id,
+      message: 'Amendment processed successfully',
+    };
+  }
+
+  /**
+   * Checks a match's quarantined events again after its phase changed. Events that now
+   * fit the match are processed and leave the quarantine; the others stay, with the
+   * rules they still break. Released period markers can release further events.
+   */
+  private async releaseQuarantined(partitionKey: string): Promise<void> {
+    let releasedLifecycleEvent: boolean;
+    do {
+      releasedLifecycleEvent = false;
+      for (const quarantined of await loadQuarantinedEvents(this.dynamoClient, partitionKey)) {
+        try {
+          const result = await this.process(quarantined.event, { releasingQuarantine: true });
+          if (result.status !== 'success' && result.status !== 'skipped') {
+            continue;
+          }
+          await this.dynamoClient.deleteItem('events', { pk: quarantined.pk, sk: quarantined.sk });
+          releasedLifecycleEvent = releasedLifecycleEvent || isLifecycleEvent(quarantined.event);
+          this.logger.info('Quarantined event released', { match_id: quarantined.match_id, sk: quarantined.sk, status: result.status });
+        } catch (error) {
+          this.logger.warn('Failed to check quarantined event again', {
+            match_id: quarantined.match_id,
+            sk: quarantined.sk,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+    } while (releasedLifecycleEvent);
+  }
+
+  // Follow-up of every match state update: data-quality findings and, at fulltime, the standings
+  private async handleStateChange(change: MatchStateChange): Promise<void> {
+    await this.publishScoreMismatches(change);
+    await this.standings.recordResult(change);
+  }
+
+  // Publishes score mismatches the update flagged for the first time; failed entries go to the DLQ
+  private async publishScoreMismatches(change: MatchStateChange): Promise<void> {
+    const mismatches = findNewScoreMismatches(change.previous, change.state);
+    if (mismatches.length === 0) {
+      return;
+    }
+
+    this.logger.warn('Reported score does not match recorded goals', {
+      match_id: change.state.match_id,
+      event_ids: mismatches.map((mismatch) => mismatch.event_id)
+    });
+
+    await this.dataQualityPublisher.publishMatchEvents(mismatches.map((mismatch) => ({
+      matchId: change.state.match_id,
+      eventType: SCORE_MISMATCH_EVENT_TYPE,
+      detail: { ...mismatch, season: change.state.season, competition: change.state.competition },
+      idempotencyKey: `${mismatch.event_id}-${SCORE_MISMATCH_EVENT_TYPE}`,
+    })));
+  }
+}
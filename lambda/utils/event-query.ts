@@ -0,0 +1,170 @@
+// File: utils/event-query.ts
+import * as crypto from 'crypto';
+import { EventCursorPayload, EventQuery, EventQueryFilter, EventQueryOrder } from '../dtos/event-query';
+import { EventType } from '../dtos/event-schemas';
+import { MatchState } from '../dtos/match-state';
+import { isEventType } from './event-schemas';
+import { resolveSide, resolveTeamName } from './match-state';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+// Event fields naming a player; the player filter matches any of them
+const PLAYER_FIELDS = ['player', 'from_player', 'to_player', 'player_in', 'player_out'];
+
+const toBase64Url = (value: Buffer | string): string => Buffer.from(value).toString('base64url');
+
+const parseInteger = (value: string | undefined, min: number): number | undefined | null => {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const number = Number(value);
+  return Number.isInteger(number) && number >= min ? number : null;
+};
+
+/**
+ * Reads the filters, order, page size and cursor of an events request
+ * @param parameters Query string parameters
+ * @returns The query, or the reason the parameters are invalid
+ */
+export function parseEventQuery(parameters: Record<string, string | undefined>): { query?: EventQuery; error?: string } {
+  const { type, team, player, from_minute, to_minute, period, order, limit, cursor } = parameters;
+
+  if (type && !isEventType(type)) {
+    return { error: `type ${type} is not a supported event type` };
+  }
+  const fromMinute = parseInteger(from_minute, 0);
+  const toMinute = parseInteger(to_minute, 0);
+  if (fromMinute === null || toMinute === null || (fromMinute !== undefined && toMinute !== undefined && fromMinute > toMinute)) {
+    return { error: 'from_minute and to_minute must be non-negative integers, with from_minute <= to_minute' };
+  }
+  const periodNumber = parseInteger(period, 1);
+  if (periodNumber === null) {
+    return { error: 'period must be a positive integer' };
+  }
+  if (order && order !== 'asc' && order !== 'desc') {
+    return { error: 'order must be asc or desc' };
+  }
+  const pageSize = parseInteger(limit, 1);
+  if (pageSize === null || (pageSize !== undefined && pageSize > MAX_PAGE_SIZE)) {
+    return { error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` };
+  }
+
+  const filter: EventQueryFilter = {
+    ...(type ? { type: type as EventType } : {}),
+    ...(team ? { team } : {}),
+    ...(player ? { player } : {}),
+    ...(fromMinute !== undefined ? { from_minute: fromMinute } : {}),
+    ...(toMinute !== undefined ? { to_minute: toMinute } : {}),
+    ...(periodNumber !== undefined ? { period: periodNumber } : {}),
+  };
+
+  return {
+    query: {
+      filter,
+      order: (order as EventQueryOrder) || 'asc',
+      limit: pageSize ?? DEFAULT_PAGE_SIZE,
+      ...(cursor ? { cursor } : {}),
+    },
+  };
+}
+
+/**
+ * Builds the predicate of an events query, applied to events with their amendments.
+ * Home / Away and the team's name match each other, as events may carry either.
+ * @param state Match state, used to resolve Home / Away to team names
+ * @param filter Query filter
+ */
+export function createEventFilter(
+  state: Pick<MatchState, 'home_team' | 'away_team'>,
+  filter: EventQueryFilter
+): (event: Record<string, any>) => boolean {
+  const teams = new Set<string>();
+  if (filter.team) {
+    const side = resolveSide(state, filter.team);
+    [filter.team, resolveTeamName(state, filter.team)].forEach((team) => teams.add(team));
+    if (side) {
+      teams.add(side);
+      teams.add(side === 'home' ? 'Home' : 'Away');
+    }
+  }
+
+  return (event) => {
+    if (event.event_type === undefined || (filter.type && event.event_type !== filter.type)) {
+      return false;
+    }
+    if (filter.team && !teams.has(event.team)) {
+      return false;
+    }
+    if (filter.player && !PLAYER_FIELDS.some((field) => event[field] === filter.player)) {
+      return false;
+    }
+    if (filter.from_minute !== undefined || filter.to_minute !== undefined) {
+      if (typeof event.minute !== 'number'
+        || (filter.from_minute !== undefined && event.minute < filter.from_minute)
+        || (filter.to_minute !== undefined && event.minute > filter.to_minute)) {
+        return false;
+      }
+    }
+    return filter.period === undefined || event.period === filter.period;
+  };
+}
+
+/**
+ * Fingerprint of a filter and order; a cursor only continues the query it was issued for
+ */
+export function getQueryFingerprint(filter: EventQueryFilter, order: EventQueryOrder): string {
+  const fields = Object.keys(filter).sort().map((field) => [field, filter[field as keyof EventQueryFilter]]);
+  return crypto.createHash('sha256').update(JSON.stringify({ fields, order })).digest('hex').slice(0, 16);
+}
+
+function signCursor(secret: string, encodedPayload: string): string {
+  return toBase64Url(crypto.createHmac('sha256', secret).update(encodedPayload).digest());
+}
+
+/**
+ * Encodes a DynamoDB key as an opaque cursor token: <base64url payload>.<base64url HMAC>
+ * @param secret Cursor signing secret
+ * @param payload Match, query fingerprint and key to continue from
+ */
+export function encodeCursor(secret: string, payload: EventCursorPayload): string {
+  const encodedPayload = toBase64Url(JSON.stringify(payload));
+  return `${encodedPayload}.${signCursor(secret, encodedPayload)}`;
+}
+
+/**
+ * Verifies and decodes a cursor token
+ * @param secret Cursor signing secret
+ * @param cursor Token returned by a previous page
+ * @param matchId Match of the request
+ * @param fingerprint Fingerprint of the request's filter and order
+ * @returns The key to continue from, or the reason the cursor is rejected
+ */
+export function decodeCursor(
+  secret: string,
+  cursor: string,
+  matchId: string,
+  fingerprint: string
+): { key?: Record<string, any>; error?: string } {
+  const [encodedPayload, signature, ...rest] = cursor.split('.');
+  if (!encodedPayload || !signature || rest.length > 0) {
+    return { error: 'cursor is malformed' };
+  }
+
+  const expected = Buffer.from(signCursor(secret, encodedPayload));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return { error: 'cursor signature does not match' };
+  }
+
+  let payload: EventCursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  } catch {
+    return { error: 'cursor is malformed' };
+  }
+  if (payload.match_id !== matchId || payload.query !== fingerprint) {
+    return { error: 'cursor was issued for a different match or query' };
+  }
+  return { key: payload.key };
+}
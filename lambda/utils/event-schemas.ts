@@ -0,0 +1,306 @@
+// File: utils/event-schemas.ts
+import { ValidationRule } from '../dtos/lambda-utils';
+import {
+  CardType,
+  EventSchema,
+  EventType,
+  PassOutcome,
+  SchemaValidationOptions,
+  ShotBodyPart,
+  ShotOutcome,
+  ShotSituation
+} from '../dtos/event-schemas';
+import { PITCH_LENGTH, PITCH_WIDTH } from './pitch';
+
+const CARD_TYPES: CardType[] = ['yellow', 'red'];
+export const SHOT_BODY_PARTS: ShotBodyPart[] = ['foot', 'head', 'other'];
+export const SHOT_SITUATIONS: ShotSituation[] = ['open_play', 'set_piece', 'penalty'];
+export const SHOT_OUTCOMES: ShotOutcome[] = ['goal', 'saved', 'blocked', 'post', 'off_target'];
+export const PASS_OUTCOMES: PassOutcome[] = ['complete', 'incomplete'];
+
+// Version of the event shape written at ingestion; older events are upcast on read (see schema-versions.ts)
+export const CURRENT_SCHEMA_VERSION = 3;
+
+// Legacy event types that are rewritten to a canonical type before validation
+const EVENT_TYPE_ALIASES: Record<string, { eventType: EventType; fields: Record<string, any> }> = {
+  yellow_card: { eventType: 'card', fields: { card_type: 'yellow' } },
+  red_card: { eventType: 'card', fields: { card_type: 'red' } },
+};
+
+const isNonEmptyString = (value: any): boolean => typeof value === 'string' && value.trim().length > 0;
+
+const isCoordinate = (value: any, max: number): boolean =>
+  typeof value === 'number' && !isNaN(value) && value >= 0 && value <= max;
+
+export const LINEUP_SIZE = 11;
+
+const FORMATION_MESSAGE = 'formation must list the outfield lines, e.g. 4-3-3, adding up to 10 players';
+
+// Outfield lines from defence to attack, e.g. 4-2-3-1
+export function isFormation(value: any): boolean {
+  return typeof value === 'string' && /^\d(-\d){1,4}$/.test(value) &&
+    value.split('-').reduce((total, line) => total + Number(line), 0) === LINEUP_SIZE - 1;
+}
+
+const isLineupList = (value: any): boolean => {
+  if (!Array.isArray(value)) {
+    return false;
+  }
+  const names = value.map((entry) => (typeof entry === 'string' ? entry : entry?.player));
+  return names.every(isNonEmptyString) && new Set(names).size === names.length;
+};
+
+const requiredString = (field: string, message: string): ValidationRule => ({
+  field,
+  validator: isNonEmptyString,
+  message,
+});
+
+/**
+ * One schema per event type. Ingestion, processing and querying all validate
+ * against this registry, so an accepted event is never rejected downstream.
+ */
+export const EVENT_SCHEMAS: Record<EventType, EventSchema> = {
+  goal: {
+    eventType: 'goal',
+    description: 'Goal scored by a player',
+    requiresTeam: true,
+    rules: [requiredString('player', 'goal requires a scorer (player)')],
+  },
+  shot: {
+    eventType: 'shot',
+    description: 'Shot at goal, with its pitch position for the xG model',
+    requiresTeam: true,
+    rules: [
+      requiredString('player', 'shot requires the shooter (player)'),
+      {
+        field: 'position',
+        validator: (value: any) => Boolean(value) && isCoordinate(value.x, PITCH_LENGTH) && isCoordinate(value.y, PITCH_WIDTH),
+        message: `shot requires a position {x, y} in metres (0-${PITCH_LENGTH}, 0-${PITCH_WIDTH}), attacking towards x = ${PITCH_LENGTH}`,
+      },
+      {
+        field: 'body_part',
+        validator: (value: any) => SHOT_BODY_PARTS.includes(value),
+        message: `shot requires a body_part: ${SHOT_BODY_PARTS.join(', ')}`,
+      },
+      {
+        field: 'situation',
+        validator: (value: any) => SHOT_SITUATIONS.includes(value),
+        message: `shot requires a situation: ${SHOT_SITUATIONS.join(', ')}`,
+      },
+      {
+        field: 'outcome',
+        validator: (value: any) => value === undefined || SHOT_OUTCOMES.includes(value),
+        message: `shot outcome must be one of: ${SHOT_OUTCOMES.join(', ')}`,
+      },
+    ],
+  },
+  pass: {
+    eventType: 'pass',
+    description: 'Pass between players',
+    requiresTeam: true,
+    rules: [
+      requiredString('from_player', 'pass requires a passer (from_player)'),
+      {
+        // Feeds such as Opta F24 do not say who an unsuccessful pass was meant for
+        field: 'to_player',
+        validator: (value: any, event) => isNonEmptyString(value) || (value === undefined && event.outcome === 'incomplete'),
+        message: 'pass requires a recipient (to_player), unless its outcome is incomplete',
+      },
+      {
+        field: 'outcome',
+        // Consumers count completed passes by success, so the two must agree
+        validator: (value: any, event) => value === undefined || (PASS_OUTCOMES.includes(value) && (value === 'incomplete') === (event.success === false)),
+        message: `pass outcome must be one of: ${PASS_OUTCOMES.join(', ')}, with success: false exactly when it is incomplete`,
+      },
+    ],
+  },
+  foul: {
+    eventType: 'foul',
+    description: 'Foul committed by a player',
+    requiresTeam: true,
+    rules: [requiredString('player', 'foul requires the offending player (player)')],
+  },
+  card: {
+    eventType: 'card',
+    description: 'Yellow/red card shown to a player',
+    requiresTeam: true,
+    rules: [
+      requiredString('player', 'card requires a player'),
+      {
+        field: 'card_type',
+        validator: (value: any) => CARD_TYPES.includes(value),
+        message: `card requires a color (card_type): ${CARD_TYPES.join(', ')}`,
+      },
+    ],
+  },
+  substitution: {
+    eventType: 'substitution',
+    description: 'Player substitution',
+    requiresTeam: true,
+    rules: [
+      requiredString('player_in', 'substitution requires the player coming on (player_in)'),
+      requiredString('player_out', 'substitution requires the player going off (player_out)'),
+      {
+        field: 'formation',
+        validator: (value: any) => value === undefined || isFormation(value),
+        message: FORMATION_MESSAGE,
+      },
+    ],
+  },
+  lineup: {
+    eventType: 'lineup',
+    description: 'Starting XI, bench and formation of a team, sent before kickoff',
+    requiresTeam: true,
+    rules: [
+      {
+        field: 'starting',
+        validator: (value: any) => isLineupList(value) && value.length === LINEUP_SIZE,
+        message: `lineup requires the ${LINEUP_SIZE} starting players (starting), as names or {player, player_id?, position?, shirt_number?}, without repeats`,
+      },
+      {
+        field: 'bench',
+        validator: (value: any) => value === undefined || isLineupList(value),
+        message: 'lineup bench must be a list of players, as names or {player, ...}, without repeats',
+      },
+      {
+        field: 'formation',
+        validator: (value: any) => value === undefined || isFormation(value),
+        message: FORMATION_MESSAGE,
+      },
+    ],
+  },
+  kickoff: {
+    eventType: 'kickoff',
+    description: 'Start of a period',
+    requiresTeam: false,
+    rules: [],
+  },
+  halftime: {
+    eventType: 'halftime',
+    description: 'End of the first half',
+    requiresTeam: false,
+    rules: [],
+  },
+  fulltime: {
+    eventType: 'fulltime',
+    description: 'End of the match',
+    requiresTeam: false,
+    rules: [],
+  },
+  abandoned: {
+    eventType: 'abandoned',
+    description: 'Match abandoned before the end',
+    requiresTeam: false,
+    rules: [],
+  },
+  postponed: {
+    eventType: 'postponed',
+    description: 'Match postponed before kickoff',
+    requiresTeam: false,
+    rules: [],
+  },
+};
+
+export const EVENT_TYPES = Object.keys(EVENT_SCHEMAS) as EventType[];
+
+const COMMON_RULES: ValidationRule[] = [
+  {
+    field: 'match_id',
+    validator: (value: any) => value !== undefined && value !== null &&
+              (typeof value === 'string' || typeof value === 'number') &&
+              (typeof value === 'string' ? value.length > 0 : true),
+    message: 'match_id is required and must be a non-empty string or number'
+  },
+  {
+    field: 'event_type',
+    validator: (value: any) => isEventType(value),
+    message: `event_type is required and must be one of: ${EVENT_TYPES.join(', ')}`
+  },
+  {
+    field: 'timestamp',
+    validator: (value: any) => Boolean(value) && !isNaN(new Date(value).getTime()),
+    message: 'timestamp is required and must be a valid date string'
+  },
+  {
+    field: 'schema_version',
+    validator: (value: any) => value === undefined || (Number.isInteger(value) && value >= 1 && value <= CURRENT_SCHEMA_VERSION),
+    message: `schema_version must be an integer between 1 and ${CURRENT_SCHEMA_VERSION}`
+  },
+  {
+    field: 'competition',
+    validator: (value: any) => value === undefined || isNonEmptyString(value),
+    message: 'competition must be a non-empty string'
+  },
+  {
+    field: 'minute',
+    validator: (value: any) => value === undefined || (Number.isInteger(value) && value >= 0),
+    message: 'minute must be a non-negative integer'
+  },
+  {
+    field: 'second',
+    validator: (value: any) => value === undefined || (Number.isInteger(value) && value >= 0 && value < 60),
+    message: 'second must be an integer between 0 and 59'
+  },
+];
+
+// Only applied at ingestion: a stored event must stay valid as time passes
+const INGESTION_RULES: ValidationRule[] = [
+  {
+    field: 'timestamp',
+    validator: (value: any) => {
+      if (!value) return false;
+      const date = new Date(value);
+      const now = new Date();
+      const maxFutureDate = new Date(now.getFullYear() + 1, now.getMonth(), now.getDate());
+      const minPastDate = new Date(now.getFullYear() - 10, now.getMonth(), now.getDate());
+
+      return !isNaN(date.getTime()) &&
+             date <= maxFutureDate &&
+             date >= minPastDate;
+    },
+    message: 'timestamp must be within the last 10 years and not more than 1 year in the future'
+  },
+];
+
+const TEAM_RULE: ValidationRule = requiredString('team', 'team is required and must be a non-empty string');
+
+export function isEventType(value: any): value is EventType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(EVENT_SCHEMAS, value);
+}
+
+/**
+ * Rewrites legacy event type aliases (e.g. yellow_card) to their canonical form
+ * @param event Raw event data
+ * @returns A copy of the event using a canonical event_type
+ */
+export function normalizeEventType<T extends Record<string, any>>(event: T): T {
+  const alias = event && EVENT_TYPE_ALIASES[event.event_type];
+  if (!alias) {
+    return event;
+  }
+  return { ...alias.fields, ...event, event_type: alias.eventType };
+}
+
+/**
+ * Builds the validation rules for an event type
+ * @param eventType Event type of the event being validated
+ * @param options Validation stage options
+ * @returns Common rules plus the rules of the event type's schema
+ */
+export function getEventValidationRules(eventType: any, options: SchemaValidationOptions = {}): ValidationRule[] {
+  const rules = [...COMMON_RULES];
+  if (options.ingestion) {
+    rules.push(...INGESTION_RULES);
+  }
+
+  if (isEventType(eventType)) {
+    const schema = EVENT_SCHEMAS[eventType];
+    if (schema.requiresTeam) {
+      rules.push(TEAM_RULE);
+    }
+    rules.push(...schema.rules);
+  }
+
+  return rules;
+}
@@ -0,0 +1,179 @@
+// File: utils/idempotency-store.ts
+import * as crypto from 'crypto';
+import { DynamoDBClient } from '../clients/dynamo-client';
+import { Logger } from '../dtos/lambda-utils';
+import { IdempotencyRecord, StoredResponse, WebhookDeliveryRecord } from '../dtos/idempotency-store';
+
+// Request header carrying a client-supplied idempotency key
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60; // 24 hours
+const DEFAULT_LOCK_SECONDS = 60;
+// Characters of the request hash appended to a computed key another event already holds
+const COMPUTED_KEY_HASH_LENGTH = 16;
+
+/**
+ * Persists idempotency keys and the response they produced, so a retried
+ * request can be answered without re-ingesting the event
+ */
+export class IdempotencyStore {
+  private readonly ttlSeconds: number;
+  private readonly lockSeconds: number;
+
+  constructor(
+    private readonly dynamoClient: DynamoDBClient,
+    private readonly logger: Logger,
+    options: { ttlSeconds?: number; lockSeconds?: number } = {}
+  ) {
+    this.ttlSeconds = options.ttlSeconds ?? (Number(process.env.IDEMPOTENCY_TTL_SECONDS) || DEFAULT_TTL_SECONDS);
+    this.lockSeconds = options.lockSeconds ?? DEFAULT_LOCK_SECONDS;
+  }
+
+  /**
+   * Hashes a request payload so a reused key with a different body can be detected
+   * @param payload Request payload
+   * @returns SHA-256 hash of the payload
+   */
+  public static hashRequest(payload: unknown): string {
+    return crypto.createHash('sha256').update(JSON.stringify(payload)).digest('hex');
+  }
+
+  /**
+   * Claims a key for the current request
+   * @param idempotencyKey Client-supplied or computed key
+   * @param requestHash Hash of the request payload
+   * @returns null when the claim succeeded, otherwise the record that already holds the key
+   */
+  public async claim(idempotencyKey: string, requestHash: string): Promise<IdempotencyRecord | null> {
+    const now = Math.floor(Date.now() / 1000);
+    const record: IdempotencyRecord = {
+      ...this.buildKey(idempotencyKey),
+      idempotency_key: idempotencyKey,
+      status: 'IN_PROGRESS',
+      request_hash: requestHash,
+      created_at: new Date().toISOString(),
+      lock_expires_at: now + this.lockSeconds,
+      expires_at: now + this.ttlSeconds,
+    };
+
+    try {
+      // Either the key is new, or a previous attempt died while holding the lock
+      await this.dynamoClient.putItem('idempotency', record, {
+        conditionExpression: 'attribute_not_exists(pk) OR (#status = :inProgress AND lock_expires_at < :now)',
+        expressionAttributeNames: { '#status': 'status' },
+        expressionAttributeValues: { ':inProgress': 'IN_PROGRESS', ':now': now },
+      });
+      return null;
+    } catch (error) {
+      if (!DynamoDBClient.isConditionalCheckFailed(error)) {
+        throw error;
+      }
+    }
+
+    const existing = await this.dynamoClient.getItem<IdempotencyRecord>(
+      'idempotency',
+      this.buildKey(idempotencyKey),
+      { consistentRead: true }
+    );
+    this.logger.info('Idempotency key already claimed', { idempotencyKey, status: existing?.status });
+
+    // The record expired between the put and the read: claim it again
+    return existing ?? this.claim(idempotencyKey, requestHash);
+  }
+
+  /**
+   * Claims the key computed from an event's identifying fields. A different event that
+   * hashes to the same key is not a replay: it claims the key with the first
+   * characters of its own request hash appended.
+   * @param computedKey Hash of the event's identifying fields
+   * @param requestHash Hash of the request payload
+   * @returns The key this request holds, and the record that already held it (null when the claim succeeded)
+   */
+  public async claimComputedKey(
+    computedKey: string,
+    requestHash: string
+  ): Promise<{ idempotencyKey: string; existing: IdempotencyRecord | null }> {
+    const existing = await this.claim(computedKey, requestHash);
+    if (!existing || existing.request_hash === requestHash) {
+      return { idempotencyKey: computedKey, existing };
+    }
+
+    const idempotencyKey = `${computedKey}-${requestHash.slice(0, COMPUTED_KEY_HASH_LENGTH)}`;
+    return { idempotencyKey, existing: await this.claim(idempotencyKey, requestHash) };
+  }
+
+  /**
+   * Stores the response of a completed request for later replay
+   */
+  public async complete(idempotencyKey: string, requestHash: string, response: StoredResponse): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+    const record: IdempotencyRecord = {
+      ...this.buildKey(idempotencyKey),
+      idempotency_key: idempotencyKey,
+      status: 'COMPLETED',
+      request_hash: requestHash,
+      created_at: new Date().toISOString(),
+      completed_at: new Date().toISOString(),
+      lock_expires_at: now,
+      expires_at: now + this.ttlSeconds,
+      response_status_code: response.statusCode,
+      response_body: response.body,
+    };
+
+    await this.dynamoClient.putItem('idempotency', record);
+  }
+
+  /**
+   * Releases a claim after a failed request so that the client can retry
+   */
+  public async release(idempotencyKey: string): Promise<void> {
+    try {
+      await this.dynamoClient.deleteItem('idempotency', this.buildKey(idempotencyKey));
+    } catch (error) {
+      // The lock expires on its own; a retry will take it over
+      this.logger.warn('Failed to release idempotency key', {
+        idempotencyKey,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Records a signed webhook delivery, so the same signed request cannot be replayed
+   * while its timestamp is still inside the tolerance window
+   * @param providerId Webhook provider
+   * @param signature X-Signature of the delivery
+   * @param expiresAt Epoch seconds after which the signature is rejected as stale anyway
+   * @returns false when the delivery was already recorded
+   */
+  public async recordWebhookDelivery(providerId: string, signature: string, expiresAt: number): Promise<boolean> {
+    const now = Math.floor(Date.now() / 1000);
+    const record: WebhookDeliveryRecord = {
+      pk: `WEBHOOK#${providerId}#${signature}`,
+      sk: 'DELIVERY',
+      provider_id: providerId,
+      received_at: new Date().toISOString(),
+      expires_at: expiresAt,
+    };
+
+    try {
+      // TTL deletes lazily, so an expired record does not block the key
+      await this.dynamoClient.putItem('idempotency', record, {
+        conditionExpression: 'attribute_not_exists(pk) OR expires_at < :now',
+        expressionAttributeValues: { ':now': now },
+      });
+      return true;
+    } catch (error) {
+      if (!DynamoDBClient.isConditionalCheckFailed(error)) {
+        throw error;
+      }
+      this.logger.warn('Webhook delivery already received', { providerId });
+      return false;
+    }
+  }
+
+  private buildKey(idempotencyKey: string): { pk: string; sk: string } {
+    return { pk: `IDEMPOTENCY#${idempotencyKey}`, sk: 'RESPONSE' };
+  }
+}
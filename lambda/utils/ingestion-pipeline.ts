@@ -0,0 +1,381 @@
+// File: utils/ingestion-pipeline.ts
+import { LambdaUtils, EventLogger, CircuitBreaker } from './lambda-utils';
+import { getEventValidationRules } from './event-schemas';
+import { upcastEvent } from './schema-versions';
+import { AppContext } from '../../lib/utils/app-context';
+import { S3Client } from '../clients/s3-client';
+import { EventBridgeClient } from '../clients/eventbridge-client';
+import { BatchItemResult, BatchSummary } from '../dtos/ingestion-pipeline';
+import { ProviderIdentity } from '../dtos/provider-access';
+import { checkCompetitionAccess } from './provider-access';
+import { IdempotencyStore } from './idempotency-store';
+import { DynamoDBClient } from '../clients/dynamo-client';
+
+// Configuration Constants
+export const EVENT_CONFIG = {
+  MAX_BATCH_SIZE: 500,
+  S3_UPLOAD_CONCURRENCY: 10,
+  RETRY_STRATEGIES: {
+    s3: {
+      maxAttempts: 3,
+      initialDelay: 500,
+      maxDelay: 5000,
+      retryableErrors: ['NoSuchBucket', 'ServiceUnavailable', 'NetworkError']
+    },
+    eventBridge: {
+      maxAttempts: 3,
+      initialDelay: 500,
+      maxDelay: 5000,
+      retryableErrors: ['ThrottlingException', 'ServiceUnavailable', 'InternalFailure']
+    }
+  }
+};
+
+// Source of match events on the bus; the processing rule matches it
+export const MATCH_EVENT_SOURCE = 'football.matches.live';
+
+// Suffix of the archived provider payload stored next to a normalized event
+export const PROVIDER_SOURCE_SUFFIX = '.source.json';
+
+/**
+ * Shared S3 + EventBridge write path for every ingestion entry point
+ */
+export class IngestionPipeline {
+  public readonly dlqUrl: string;
+  private readonly idempotencyStore: IdempotencyStore;
+  private readonly s3Client: S3Client;
+  private readonly eventBridgeClient: EventBridgeClient;
+  private readonly s3CircuitBreaker: CircuitBreaker;
+  private readonly eventBridgeCircuitBreaker: CircuitBreaker;
+
+  constructor(
+    private readonly appContext: AppContext,
+    private readonly utils: LambdaUtils,
+    private readonly logger: EventLogger
+  ) {
+    // Configuration
+    const LOCALSTACK_HOST = process.env.LOCALSTACK_HOSTNAME || "localhost";
+    const endpoint = `http://${LOCALSTACK_HOST}:4566`;
+    const EVENT_BUS_NAME = process.env.EVENT_BUS_NAME || 'football-serverless-dev-match-event-bus';
+    this.dlqUrl = process.env.EVENT_DLQ_URL || 'http://localhost:4566/000000000000/football-serverless-dev-event-dlq';
+
+    // Circuit breakers for resilience
+    this.s3CircuitBreaker = new CircuitBreaker(
+      logger,
+      3,  // max failures
+      30000,  // reset timeout
+      'S3'
+    );
+
+    this.eventBridgeCircuitBreaker = new CircuitBreaker(
+      logger,
+      3,  // max failures
+      30000,  // reset timeout
+      'EventBridge'
+    );
+
+    // Initialize clients
+    this.s3Client = new S3Client({
+      ...appContext,
+      endpoint,
+      s3ForcePathStyle: true
+    });
+
+    this.idempotencyStore = new IdempotencyStore(new DynamoDBClient(appContext), logger);
+
+    this.eventBridgeClient = new EventBridgeClient(
+      {...appContext, endpoint},
+      {
+        eventBusName: EVENT_BUS_NAME,
+        eventSource: MATCH_EVENT_SOURCE,
+        deadLetterQueueUrl: this.dlqUrl,
+      }
+    );
+  }
+
+  /**
+   * Writes a traced event to the raw-data bucket
+   * @param processedEvent Event with tracing info
+   * @param idempotencyKey Idempotency key stored as object metadata
+   * @param providerPayload Original provider payload, archived next to the normalized event
+   */
+  public async storeRawEvent(
+    processedEvent: Record<string, any>,
+    idempotencyKey: string,
+    providerPayload?: unknown
+  ): Promise<void> {
+    const objectKey = `matches/${processedEvent.match_id}/events/${processedEvent.event_id}`;
+
+    // S3 Storage with circuit breaker and retry
+    await this.s3CircuitBreaker.execute(async () => {
+      await this.utils.retryWithBackoff(
+        () => this.s3Client.uploadRawData(
+          'rawData',
+          `${objectKey}.json`,
+          JSON.stringify(processedEvent),
+          {
+            match_id: String(processedEvent.match_id),
+            event_type: String(processedEvent.event_type),
+            idempotency_key: idempotencyKey,
+            ...(processedEvent.provider_id ? { provider_id: String(processedEvent.provider_id) } : {}),
+            contentType: 'application/json',
+          }
+        ),
+        EVENT_CONFIG.RETRY_STRATEGIES.s3
+      );
+
+      if (providerPayload !== undefined) {
+        await this.utils.retryWithBackoff(
+          () => this.s3Client.uploadRawData(
+            'rawData',
+            `${objectKey}${PROVIDER_SOURCE_SUFFIX}`,
+            JSON.stringify(providerPayload),
+            {
+              match_id: String(processedEvent.match_id),
+              source_provider: String(processedEvent.source_provider || 'unknown'),
+              contentType: 'application/json',
+            }
+          ),
+          EVENT_CONFIG.RETRY_STRATEGIES.s3
+        );
+      }
+    });
+  }
+
+  /**
+   * Publishes a single traced event to the match event bus
+   * @param processedEvent Event with tracing info
+   * @param idempotencyKey Optional idempotency key for duplicate suppression
+   * @returns EventBridge event id
+   */
+  public async publishEvent(processedEvent: Record<string, any>, idempotencyKey?: string): Promise<string | undefined> {
+    // EventBridge Publishing with circuit breaker and retry
+    const eventBridgeResponse = await this.eventBridgeCircuitBreaker.execute(async () => {
+      return await this.utils.retryWithBackoff(
+        () => this.eventBridgeClient.publishMatchEvent(
+          processedEvent.match_id,
+          processedEvent.event_type,
+          processedEvent,
+          { idempotencyKey }
+        ),
+        EVENT_CONFIG.RETRY_STRATEGIES.eventBridge
+      );
+    });
+
+    return eventBridgeResponse.Entries?.[0]?.EventId;
+  }
+
+  /**
+   * Validates, stores and publishes a batch of events, reporting a status per item.
+   * Items claim the same computed idempotency keys as POST /events, so an item that
+   * was already ingested is reported as accepted (replayed) instead of being published again.
+   * @param events Raw event payloads (entries that failed to parse may be passed as errors)
+   * @param options Original provider payload per event (when an adapter was used) and the sending provider
+   * @returns Per-item results, in input order
+   */
+  public async ingestBatch(
+    events: Array<Record<string, any> | Error>,
+    options: { providerPayloads?: unknown[]; provider?: ProviderIdentity } = {}
+  ): Promise<BatchItemResult[]> {
+    const { providerPayloads = [], provider } = options;
+    const results: BatchItemResult[] = new Array(events.length);
+    const validated: Array<{ index: number; event: Record<string, any>; idempotencyKey: string; requestHash: string }> = [];
+
+    // 1. Validate every item against the schema registry; invalid items never reach S3 or EventBridge
+    events.forEach((rawItem, index) => {
+      if (rawItem instanceof Error) {
+        results[index] = { index, status: 'validation_error', errors: [rawItem.message] };
+        return;
+      }
+
+      const item = upcastEvent(rawItem);
+      const validationResult = this.utils.validateEventData(
+        item,
+        getEventValidationRules(item?.event_type, { ingestion: true })
+      );
+      if (!validationResult.valid) {
+        results[index] = { index, status: 'validation_error', errors: validationResult.errors };
+        return;
+      }
+
+      const accessError = checkCompetitionAccess(provider, item);
+      if (accessError) {
+        results[index] = { index, status: 'validation_error', errors: [accessError] };
+        return;
+      }
+
+      validated.push({
+        index,
+        event: this.utils.addTracingInfo(item, provider?.providerId),
+        idempotencyKey: this.utils.generateEventIdempotencyKey(item),
+        requestHash: IdempotencyStore.hashRequest(item),
+      });
+    });
+
+    // 2. Claim idempotency keys; items ingested before are answered from their stored response
+    const pending: typeof validated = [];
+    await mapWithConcurrency(validated, EVENT_CONFIG.S3_UPLOAD_CONCURRENCY, async (entry) => {
+      let claim: Awaited<ReturnType<IdempotencyStore['claimComputedKey']>>;
+      try {
+        claim = await this.idempotencyStore.claimComputedKey(entry.idempotencyKey, entry.requestHash);
+      } catch (error) {
+        results[entry.index] = {
+          index: entry.index,
+          status: 'failed',
+          reason: `Idempotency claim failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        };
+        return;
+      }
+      const { idempotencyKey, existing } = claim;
+      if (!existing) {
+        pending.push({ ...entry, idempotencyKey });
+      } else if (existing.status === 'IN_PROGRESS') {
+        results[entry.index] = {
+          index: entry.index,
+          status: 'failed',
+          reason: 'A request with this idempotency key is still being processed',
+        };
+      } else {
+        const stored = JSON.parse(existing.response_body || '{}');
+        results[entry.index] = {
+          index: entry.index,
+          status: 'accepted',
+          event_id: stored.eventId,
+          eventBridgeId: stored.eventBridgeId,
+          replayed: true,
+        };
+      }
+    });
+
+    // 3. Store raw objects with bounded concurrency
+    const stored: typeof pending = [];
+    await mapWithConcurrency(pending, EVENT_CONFIG.S3_UPLOAD_CONCURRENCY, async (entry) => {
+      try {
+        await this.storeRawEvent(entry.event, entry.idempotencyKey, providerPayloads[entry.index]);
+        stored.push(entry);
+      } catch (error) {
+        // Let the client retry the item
+        await this.idempotencyStore.release(entry.idempotencyKey);
+        results[entry.index] = {
+          index: entry.index,
+          status: 'failed',
+          event_id: entry.event.event_id,
+          reason: `S3 upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        };
+      }
+    });
+
+    // 4. Publish everything that was stored using multi-entry PutEvents calls
+    stored.sort((a, b) => a.index - b.index);
+    const publishResults = await this.eventBridgeClient.publishMatchEvents(
+      stored.map((entry) => ({
+        matchId: entry.event.match_id,
+        eventType: entry.event.event_type,
+        detail: entry.event,
+        idempotencyKey: entry.idempotencyKey,
+      }))
+    );
+
+    // 5. Record each item's outcome under its key: failed items are released, accepted ones replay
+    await mapWithConcurrency(publishResults, EVENT_CONFIG.S3_UPLOAD_CONCURRENCY, async (publishResult) => {
+      const entry = stored[publishResult.index];
+      if (publishResult.errorCode) {
+        await this.idempotencyStore.release(entry.idempotencyKey);
+        results[entry.index] = {
+          index: entry.index,
+          status: 'failed',
+          event_id: entry.event.event_id,
+          reason: `EventBridge publish failed: ${publishResult.errorCode} - ${publishResult.errorMessage}`,
+        };
+        return;
+      }
+
+      results[entry.index] = {
+        index: entry.index,
+        status: 'accepted',
+        event_id: entry.event.event_id,
+        eventBridgeId: publishResult.eventId,
+      };
+      try {
+        // Same stored response as POST /events, so either route replays the other's events
+        await this.idempotencyStore.complete(entry.idempotencyKey, entry.requestHash, {
+          statusCode: 200,
+          body: JSON.stringify({
+            status: 'success',
+            eventId: entry.event.event_id,
+            eventBridgeId: publishResult.eventId,
+            idempotencyKey: entry.idempotencyKey,
+          }),
+        });
+      } catch (storeError) {
+        this.logger.warn('Failed to store response for idempotency key', {
+          idempotencyKey: entry.idempotencyKey,
+          error: storeError instanceof Error ? storeError.message : 'Unknown error',
+        });
+      }
+    });
+
+    this.logger.info('Event batch processed', { ...summarizeBatch(results) });
+
+    return results;
+  }
+}
+
+/**
+ * Parses a batch request body as a JSON array or as NDJSON (one event per line)
+ * @param body Raw request body
+ * @returns Parsed items; lines that are not valid JSON are returned as errors
+ */
+export function parseBatchBody(body: string | null): Array<Record<string, any> | Error> {
+  const trimmed = (body || '').trim();
+  if (!trimmed) {
+    throw new Error('Request body is required and must be a JSON array or NDJSON');
+  }
+
+  if (trimmed.startsWith('[')) {
+    const parsed = JSON.parse(trimmed);
+    if (!Array.isArray(parsed)) {
+      throw new Error('Request body must be a JSON array');
+    }
+    return parsed;
+  }
+
+  return trimmed
+    .split(/\r?\n/)
+    .filter((line) => line.trim().length > 0)
+    .map((line, lineIndex) => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        return new Error(`Line ${lineIndex + 1} is not valid JSON`);
+      }
+    });
+}
+
+/**
+ * Counts batch results by status
+ */
+export function summarizeBatch(results: BatchItemResult[]): BatchSummary {
+  return results.reduce<BatchSummary>(
+    (summary, result) => {
+      summary[result.status]++;
+      return summary;
+    },
+    { total: results.length, accepted: 0, validation_error: 0, failed: 0 }
+  );
+}
+
+async function mapWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await fn(item);
+    }
+  });
+  await Promise.all(workers);
+}
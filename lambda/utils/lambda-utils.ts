@@ -7,6 +7,8 @@ import {Logger, ValidationResult, ErrorResponse, RetryOptions,
     ValidationRule
   } from '../dtos/lambda-utils'
 import { AppContext } from '../../lib/utils/app-context';
+import { DLQFailure } from '../dtos/dlq';
+import { createDLQEnvelope } from './dlq';
 
 
 /**
@@ -60,7 +62,7 @@ export class LambdaUtils {
 
     // Run all validation rules
     validationRules.forEach(rule => {
-      if (!rule.validator(data[rule.field])) {
+      if (!rule.validator(data[rule.field], data)) {
         errors.push(rule.message);
       }
     });
@@ -162,9 +164,10 @@ export class LambdaUtils {
   /**
    * Adds tracing information to an event
    * @param event Original event data
+   * @param providerId Optional id of the data provider (feed) that sent the event
    * @returns Event with tracing info added
    */
-  public addTracingInfo(event: Record<string, any>): Record<string, any> {
+  public addTracingInfo(event: Record<string, any>, providerId?: string): Record<string, any> {
     const traceId = event.trace_id || uuidv4();
     const parentId = event.event_id || null;
     const eventId = event.event_id || `${Date.now()}-${event.event_type || 'event'}-${uuidv4()}`;
@@ -174,19 +177,22 @@ export class LambdaUtils {
       event_id: eventId,
       trace_id: traceId,
       parent_id: parentId,
+      ...(providerId ? { provider_id: providerId } : {}),
       processed_timestamp: new Date().toISOString()
     };
   }
 
   /**
-   * Sends a message to a Dead Letter Queue
+   * Sends a failed event to a Dead Letter Queue, in the shared DLQ envelope
    * @param dlqUrl DLQ URL
-   * @param message Message to send
+   * @param message Failed event
+   * @param failure Origin and cause of the failure
    * @param region AWS region
    */
   public async sendToDLQ(
     dlqUrl: string, 
     message: Record<string, any>, 
+    failure: DLQFailure = { origin: 'unknown' },
     region: string = process.env.AWS_REGION || 'us-east-1'
   ): Promise<void> {
     if (!dlqUrl) {
@@ -204,21 +210,18 @@ export class LambdaUtils {
       
       const sqs = new AWS.SQS(sqsConfig);
       
-      // Add metadata for DLQ message
-      const enhancedMessage = {
-        ...message,
-        dlq_timestamp: new Date().toISOString(),
-        retry_count: (message.retry_count || 0) + 1
-      };
+      const envelope = createDLQEnvelope(message, failure);
       
       // Send to DLQ
       await sqs.sendMessage({
         QueueUrl: dlqUrl,
-        MessageBody: JSON.stringify(enhancedMessage)
+        MessageBody: JSON.stringify(envelope)
       }).promise();
       
       this.logger.info('Event sent to DLQ for retry', {
-        eventId: message.event_id || 'unknown'
+        eventId: message.event_id || 'unknown',
+        origin: envelope.origin,
+        reason: envelope.reason
       });
     } catch (error) {
       this.logger.error('Failed to send event to DLQ', {
@@ -232,13 +235,13 @@ export class LambdaUtils {
    * Handles errors consistently
    * @param error The error that occurred
    * @param context Additional context information
-   * @param dlqCallback Optional callback to send to DLQ
+   * @param dlqCallback Optional callback to send to DLQ; receives the error
    * @returns Standardized error response
    */
   public async handleError(
     error: unknown, 
     context: Record<string, any> = {}, 
-    dlqCallback?: () => Promise<void>
+    dlqCallback?: (error: Error) => Promise<void>
   ): Promise<ErrorResponse> {
     const err = error instanceof Error ? error : new Error(String(error));
     
@@ -250,7 +253,7 @@ export class LambdaUtils {
     
     // Execute DLQ callback if provided
     if (dlqCallback) {
-      await dlqCallback();
+      await dlqCallback(err);
     }
     
     return {
@@ -465,6 +468,23 @@ export function calculateSeason(timestamp: string | Date): string {
 }
 
 
+/**
+ * Reads an HTTP header case-insensitively (API Gateway keeps the client's casing)
+ * @param headers Request headers
+ * @param name Header name
+ * @returns Header value, or undefined when absent
+ */
+export function getHeader(
+  headers: Record<string, string | undefined> | null | undefined,
+  name: string
+): string | undefined {
+  if (!headers) return undefined;
+  const wanted = name.toLowerCase();
+  const match = Object.keys(headers).find((header) => header.toLowerCase() === wanted);
+  return match ? headers[match] : undefined;
+}
+
+
 // Enhanced Logging Utility
 export class EventLogger implements Logger {
   private baseLogger: any;
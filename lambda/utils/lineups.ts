@@ -0,0 +1,113 @@
+// File: utils/lineups.ts
+import { LineupPlayer, LineupPlayerAt, TeamLineup, TeamLineupAt } from '../dtos/lineups';
+import { MatchState } from '../dtos/match-state';
+import { resolveTeamName } from './match-state';
+
+/**
+ * Reads the players of a lineup event; names are turned into players
+ */
+export function toLineupPlayers(value: any): LineupPlayer[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.map((entry) => (typeof entry === 'string'
+    ? { player: entry }
+    : {
+      player: String(entry.player),
+      ...(entry.player_id !== undefined ? { player_id: String(entry.player_id) } : {}),
+      ...(entry.position ? { position: String(entry.position) } : {}),
+      ...(entry.shirt_number !== undefined ? { shirt_number: Number(entry.shirt_number) } : {}),
+    }));
+}
+
+/**
+ * Builds the lineup kept on the match state from a lineup event
+ */
+export function toTeamLineup(event: Record<string, any>): TeamLineup {
+  return {
+    event_id: String(event.event_id),
+    team: String(event.team),
+    ...(event.formation ? { formation: event.formation } : {}),
+    starting: toLineupPlayers(event.starting),
+    bench: toLineupPlayers(event.bench),
+  };
+}
+
+/**
+ * Lineup of a team; Home / Away and team names find the same lineup
+ */
+export function findTeamLineup(state: Pick<MatchState, 'lineups' | 'home_team' | 'away_team'>, team: string): TeamLineup | undefined {
+  const lineups = Object.values(state.lineups || {});
+  const name = resolveTeamName(state, team);
+  return lineups.find((lineup) => lineup.team === team) ||
+    lineups.find((lineup) => resolveTeamName(state, lineup.team) === name);
+}
+
+/**
+ * Minutes a player was on the pitch up to a minute
+ * @param onMinute Minute the player came on (0 for starters)
+ * @param offMinute Minute the player went off, if they did
+ * @param minute Match minute to count up to
+ */
+export function getMinutesPlayed(onMinute: number, offMinute: number | undefined, minute: number): number {
+  return Math.max(Math.min(offMinute ?? minute, minute) - onMinute, 0);
+}
+
+/**
+ * Works out each team's players on the pitch at a minute, from its lineup and the
+ * substitutions and dismissals up to and including that minute. Events without a
+ * minute count as having happened.
+ * @param state Match state
+ * @param minute Match minute
+ */
+export function getLineupsAt(state: MatchState, minute: number): TeamLineupAt[] {
+  const happened = (eventMinute?: number) => eventMinute === undefined || eventMinute <= minute;
+
+  return Object.values(state.lineups || {}).map((lineup) => {
+    const team = resolveTeamName(state, lineup.team);
+    const isTeam = (eventTeam: string) => !eventTeam || resolveTeamName(state, eventTeam) === team;
+    const players = new Map<string, LineupPlayerAt>();
+    lineup.starting.forEach((player) => players.set(player.player, { ...player, on_minute: 0, minutes_played: 0 }));
+    lineup.bench.forEach((player) => players.set(player.player, { ...player, minutes_played: 0 }));
+
+    let formation = lineup.formation;
+    const substitutions = state.substitutions
+      .filter((substitution) => isTeam(substitution.team) && happened(substitution.minute))
+      .sort((a, b) => (a.minute ?? 0) - (b.minute ?? 0));
+    substitutions.forEach((substitution) => {
+      const playerOut = players.get(substitution.player_out);
+      if (playerOut && playerOut.off_minute === undefined) {
+        playerOut.off_minute = substitution.minute ?? minute;
+      }
+      // Players missing from the bench list still come on
+      const playerIn = players.get(substitution.player_in) || { player: substitution.player_in, minutes_played: 0 };
+      playerIn.on_minute = substitution.minute ?? minute;
+      players.set(substitution.player_in, playerIn);
+      formation = substitution.formation || formation;
+    });
+
+    const dismissed = new Set<string>();
+    state.cards
+      .filter((card) => isTeam(card.team) && (card.card_type === 'red' || card.second_yellow) && happened(card.minute))
+      .forEach((card) => {
+        const player = players.get(card.player);
+        if (player && player.on_minute !== undefined && player.off_minute === undefined) {
+          player.off_minute = card.minute ?? minute;
+          dismissed.add(card.player);
+        }
+      });
+
+    const all = [...players.values()].map((player) => ({
+      ...player,
+      minutes_played: player.on_minute === undefined ? 0 : getMinutesPlayed(player.on_minute, player.off_minute, minute),
+    }));
+    return {
+      team: lineup.team,
+      ...(formation ? { formation } : {}),
+      on_pitch: all.filter((player) => player.on_minute !== undefined && player.off_minute === undefined),
+      bench: all.filter((player) => player.on_minute === undefined),
+      substituted_off: all.filter((player) => player.off_minute !== undefined && !dismissed.has(player.player)),
+      sent_off: all.filter((player) => dismissed.has(player.player)),
+    };
+  });
+}
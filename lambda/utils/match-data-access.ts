@@ -0,0 +1,208 @@
+// File: utils/match-data-access.ts
+import { AppContext } from '../../lib/utils/app-context';
+import { DynamoDBClient } from '../clients/dynamo-client';
+import { AmendedEvent } from '../dtos/amendments';
+import { MatchDirectoryEntry, MatchEventPageRequest, MatchLocation } from '../dtos/match-directory';
+import { MatchState } from '../dtos/match-state';
+import { PlayerMatchStats } from '../dtos/player-stats';
+import { QuarantinedEvent } from '../dtos/match-rules';
+import { AMENDMENT_EVENT_TYPE, applyAmendments, isAmendment } from './amendments';
+import { MATCH_ORDER_INDEX, sortByMatchOrder } from './match-sequencer';
+import { buildMatchStateKey, loadMatchEvents } from './match-state';
+import { loadQuarantinedEvents } from './match-rules';
+import { loadPlayerStats } from './player-stats';
+import { upcastEvent } from './schema-versions';
+
+export const MATCH_DIRECTORY_SORT_KEY = 'DIRECTORY';
+
+export function buildMatchDirectoryKey(matchId: string | number): { pk: string; sk: string } {
+  return { pk: buildMatchStateKey(matchId).pk, sk: MATCH_DIRECTORY_SORT_KEY };
+}
+
+/**
+ * Reads a match's items for the query endpoints. The match id is resolved to the
+ * season partition the event processor writes to, through the match's directory
+ * item, so read and write keys are built in one place.
+ */
+export class MatchDataAccess {
+  private readonly dynamoClient: DynamoDBClient;
+
+  constructor(private readonly appContext: AppContext, dynamoClient?: DynamoDBClient) {
+    this.dynamoClient = dynamoClient || new DynamoDBClient(appContext);
+  }
+
+  /**
+   * Records where a match's events are stored; called with the match's first event
+   * @param matchId Match id
+   * @param season Season the match's events are partitioned by
+   * @param competition Competition of the match, when known
+   */
+  public async registerMatch(matchId: string | number, season: string, competition?: string): Promise<MatchDirectoryEntry> {
+    const entry: MatchDirectoryEntry = {
+      ...buildMatchDirectoryKey(matchId),
+      match_id: String(matchId),
+      season,
+      ...(competition ? { competition } : {}),
+      events_pk: this.appContext.eventnameGenerator.generatePartitionKey(season, matchId),
+      has_amendments: false,
+      registered_at: new Date().toISOString(),
+    };
+    return await this.dynamoClient.putItem('matches', entry);
+  }
+
+  /**
+   * Records that a match has amendments, so event pages read and apply them
+   * @param matchId Match id
+   */
+  public async recordAmendment(matchId: string | number): Promise<void> {
+    const entry = await this.dynamoClient.getItem<MatchDirectoryEntry>('matches', buildMatchDirectoryKey(matchId), { consistentRead: true });
+    if (entry && entry.has_amendments !== true) {
+      await this.dynamoClient.putItem('matches', { ...entry, has_amendments: true });
+    }
+  }
+
+  public async getMatchState(matchId: string | number): Promise<MatchState | null> {
+    return await this.dynamoClient.getItem<MatchState>('matches', buildMatchStateKey(matchId));
+  }
+
+  /**
+   * Resolves a match id to its events partition
+   * @param matchId Match id
+   * @param state Match state, when already read; matches processed before the directory
+   * existed are resolved from its season
+   * @returns The location, or null when no event of the match was processed
+   */
+  public async resolveMatch(matchId: string | number, state?: MatchState | null): Promise<MatchLocation | null> {
+    const entry = await this.dynamoClient.getItem<MatchDirectoryEntry>('matches', buildMatchDirectoryKey(matchId));
+    const season = entry?.season || (state === undefined ? await this.getMatchState(matchId) : state)?.season;
+    if (!season) {
+      return null;
+    }
+    return {
+      match_id: String(matchId),
+      season,
+      partition_key: entry?.events_pk || this.appContext.eventnameGenerator.generatePartitionKey(season, matchId),
+      ...(entry?.has_amendments !== undefined ? { has_amendments: entry.has_amendments } : {}),
+    };
+  }
+
+  /**
+   * Every event of a match, amendments applied, in match order
+   */
+  public async loadEvents(location: MatchLocation): Promise<Record<string, any>[]> {
+    return await loadMatchEvents(this.dynamoClient, location.partition_key);
+  }
+
+  /**
+   * Events of one type with their amendments applied, in match order
+   * @param location Match location
+   * @param eventType Event type
+   * @param options includeHistory keeps retracted events and attaches their amendments
+   */
+  public async loadEventsOfType(
+    location: MatchLocation,
+    eventType: string,
+    options: { includeHistory?: boolean } = {}
+  ): Promise<AmendedEvent[]> {
+    const items: Record<string, any>[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      // Events of the type plus every amendment of one
+      const page = await this.dynamoClient.query(
+        'events',
+        'pk = :pk',
+        { ':pk': location.partition_key, ':etype': eventType, ':amendment': AMENDMENT_EVENT_TYPE },
+        {
+          filterExpression: 'event_type = :etype OR (event_type = :amendment AND amended_event_type = :etype)',
+          exclusiveStartKey,
+        }
+      );
+      items.push(...page.items);
+      exclusiveStartKey = page.lastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    // Events stored under older schema versions are returned in the current shape
+    return sortByMatchOrder(applyAmendments(
+      items.map((item) => (isAmendment(item) ? item : upcastEvent(item))),
+      options
+    ));
+  }
+
+  /**
+   * One page of a match's events in match order. Amendments are applied before the
+   * filter, so a corrected field is filtered on its corrected value and retracted
+   * events never take a place in the page.
+   * @returns The events, and the key to continue after the last one while there are more
+   */
+  public async queryEvents(
+    location: MatchLocation,
+    request: MatchEventPageRequest
+  ): Promise<{ events: AmendedEvent[]; lastEvaluatedKey?: Record<string, any> }> {
+    const amendments = location.has_amendments === false ? new Map() : await this.loadAmendments(location);
+    const events: AmendedEvent[] = [];
+    let exclusiveStartKey = request.exclusiveStartKey;
+
+    do {
+      const page = await this.dynamoClient.query(
+        'events',
+        'pk = :pk',
+        { ':pk': location.partition_key },
+        {
+          indexName: MATCH_ORDER_INDEX,
+          scanIndexForward: request.ascending,
+          limit: request.limit,
+          exclusiveStartKey,
+        }
+      );
+      exclusiveStartKey = page.lastEvaluatedKey;
+
+      for (const [index, item] of page.items.entries()) {
+        const [event] = applyAmendments([upcastEvent(item), ...(amendments.get(item.event_id) || [])]);
+        if (!event || !request.filter(event)) {
+          continue;
+        }
+        events.push(event);
+        if (events.length === request.limit) {
+          // A page filled before the end of what was read continues after its last event
+          if (index < page.items.length - 1) {
+            exclusiveStartKey = { pk: item.pk, sk: item.sk, match_order: item.match_order };
+          }
+          break;
+        }
+      }
+    } while (exclusiveStartKey && events.length < request.limit);
+
+    return {
+      events,
+      ...(exclusiveStartKey ? { lastEvaluatedKey: exclusiveStartKey } : {}),
+    };
+  }
+
+  // Amendments are not in the match order index; they are read once per page, by amended event id
+  private async loadAmendments(location: MatchLocation): Promise<Map<string, Record<string, any>[]>> {
+    const amendments = new Map<string, Record<string, any>[]>();
+    let exclusiveStartKey: Record<string, any> | undefined;
+    do {
+      const page = await this.dynamoClient.query(
+        'events',
+        'pk = :pk AND begins_with(sk, :amendmentPrefix)',
+        { ':pk': location.partition_key, ':amendmentPrefix': 'AMENDMENT#' },
+        { exclusiveStartKey }
+      );
+      page.items.forEach((amendment) => {
+        amendments.set(amendment.parent_id, [...(amendments.get(amendment.parent_id) || []), amendment]);
+      });
+      exclusiveStartKey = page.lastEvaluatedKey;
+    } while (exclusiveStartKey);
+    return amendments;
+  }
+
+  public async loadPlayerStats(location: MatchLocation): Promise<PlayerMatchStats[]> {
+    return await loadPlayerStats(this.dynamoClient, location.partition_key);
+  }
+
+  public async loadQuarantinedEvents(location: MatchLocation): Promise<QuarantinedEvent[]> {
+    return await loadQuarantinedEvents(this.dynamoClient, location.partition_key);
+  }
+}
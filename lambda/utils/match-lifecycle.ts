@@ -0,0 +1,257 @@
+// File: utils/match-lifecycle.ts
+import { MatchLifecycleSummary, MatchPhase, MatchState, MatchStatus } from '../dtos/match-state';
+import { MatchRuleId } from '../dtos/match-rules';
+
+// Events that move a match from one phase to the next
+export const LIFECYCLE_EVENT_TYPES = ['kickoff', 'halftime', 'fulltime', 'abandoned', 'postponed'];
+
+/**
+ * Phases a match can move to from each phase. Extra time moves to itself for its
+ * second period; a kickoff for extra time or penalties reopens a finished match,
+ * because some feeds send fulltime at the end of normal time.
+ */
+export const LIFECYCLE_TRANSITIONS: Record<MatchPhase, MatchPhase[]> = {
+  scheduled: ['first_half', 'postponed', 'abandoned'],
+  postponed: ['first_half', 'abandoned'],
+  first_half: ['halftime', 'abandoned'],
+  halftime: ['second_half', 'abandoned'],
+  second_half: ['finished', 'extra_time', 'penalties', 'abandoned'],
+  extra_time: ['extra_time', 'penalties', 'finished', 'abandoned'],
+  penalties: ['finished', 'abandoned'],
+  finished: ['extra_time', 'penalties'],
+  abandoned: [],
+};
+
+const LIVE_PHASES: MatchPhase[] = ['first_half', 'halftime', 'second_half', 'extra_time', 'penalties'];
+
+// Phases in which no football is played, so no player event can happen
+const CLOSED_PHASES: MatchPhase[] = ['scheduled', 'finished', 'abandoned', 'postponed'];
+
+// Cards and substitutions happen during the break, the ball is not in play
+const HALFTIME_EVENT_TYPES = ['card', 'substitution'];
+
+// Regulation minutes of each period; stoppage time is allowed on top of the end
+const PERIOD_MINUTES: Record<number, { start: number; end: number }> = {
+  1: { start: 0, end: 45 },
+  2: { start: 45, end: 90 },
+  3: { start: 90, end: 105 },
+  4: { start: 105, end: 120 },
+};
+
+const PENALTIES_PERIOD = 5;
+
+/**
+ * Match status reported for a phase
+ */
+export function getPhaseStatus(phase: MatchPhase): MatchStatus {
+  switch (phase) {
+    case 'first_half':
+    case 'second_half':
+    case 'extra_time':
+    case 'penalties':
+      return 'live';
+    default:
+      return phase;
+  }
+}
+
+/**
+ * Phase of a match state; states written before the lifecycle was tracked
+ * derive it from their status and period
+ */
+export function getMatchPhase(state: Pick<MatchState, 'phase' | 'status' | 'period'>): MatchPhase {
+  if (state.phase) {
+    return state.phase;
+  }
+  if (state.status !== 'live') {
+    return state.status;
+  }
+  if (state.period >= PENALTIES_PERIOD) {
+    return 'penalties';
+  }
+  if (state.period >= 3) {
+    return 'extra_time';
+  }
+  return state.period === 2 ? 'second_half' : 'first_half';
+}
+
+export function isMatchLive(state: Pick<MatchState, 'phase' | 'status' | 'period'>): boolean {
+  return LIVE_PHASES.includes(getMatchPhase(state));
+}
+
+export function isLifecycleEvent(event: Record<string, any>): boolean {
+  return LIFECYCLE_EVENT_TYPES.includes(event.event_type);
+}
+
+/**
+ * Phase a lifecycle event moves a match to. Kickoffs use their period; a
+ * kickoff without one starts the first half, or the second half after halftime.
+ * Extra time and penalties kickoffs need the period (3/4 and 5).
+ * @param phase Phase of the match before the event
+ * @param event Lifecycle event
+ */
+export function getLifecycleTarget(phase: MatchPhase, event: Record<string, any>): MatchPhase {
+  switch (event.event_type) {
+    case 'kickoff':
+      switch (event.period) {
+        case 1:
+          return 'first_half';
+        case 2:
+          return 'second_half';
+        case 3:
+        case 4:
+          return 'extra_time';
+        case PENALTIES_PERIOD:
+          return 'penalties';
+      }
+      if (phase === 'scheduled' || phase === 'postponed') {
+        return 'first_half';
+      }
+      if (phase === 'halftime') {
+        return 'second_half';
+      }
+      return LIVE_PHASES.includes(phase) ? phase : 'first_half';
+    case 'halftime':
+      // The break between the two periods of extra time
+      return phase === 'extra_time' ? 'extra_time' : 'halftime';
+    case 'fulltime':
+      return 'finished';
+    case 'abandoned':
+      return 'abandoned';
+    case 'postponed':
+      return 'postponed';
+    default:
+      return phase;
+  }
+}
+
+/**
+ * Period a match is in after a lifecycle event moved it to a phase
+ */
+export function getLifecyclePeriod(phase: MatchPhase, period: number, event: Record<string, any>): number {
+  if (event.event_type === 'kickoff' && Number.isInteger(event.period)) {
+    return event.period;
+  }
+  switch (phase) {
+    case 'first_half':
+    case 'halftime':
+      return Math.max(period, 1);
+    case 'second_half':
+      return Math.max(period, 2);
+    case 'extra_time':
+      return Math.max(period, 3);
+    case 'penalties':
+      return PENALTIES_PERIOD;
+    default:
+      return period;
+  }
+}
+
+/**
+ * Highest period an event may belong to in a phase
+ */
+function getMaxPeriod(phase: MatchPhase, period: number): number {
+  switch (phase) {
+    case 'scheduled':
+    case 'first_half':
+    case 'halftime':
+      return 1;
+    case 'second_half':
+      return 2;
+    case 'extra_time':
+      return Math.max(period, 3);
+    case 'penalties':
+      return PENALTIES_PERIOD;
+    default:
+      return period;
+  }
+}
+
+export interface LifecycleFinding {
+  rule: MatchRuleId;
+  message: string;
+}
+
+export interface LifecycleCheck {
+  findings: LifecycleFinding[];
+  // Set when the event only repeats the phase the match is already in
+  redundant?: string;
+}
+
+/**
+ * Checks that an event fits the phase its match is in
+ * @param state Match state before the event
+ * @param event Canonical event
+ * @param stoppageMinutes Minutes a period may run past its regulation end
+ */
+export function checkLifecycle(state: MatchState, event: Record<string, any>, stoppageMinutes: number): LifecycleCheck {
+  const phase = getMatchPhase(state);
+  const findings: LifecycleFinding[] = [];
+
+  if (isLifecycleEvent(event)) {
+    const target = getLifecycleTarget(phase, event);
+    const repeatsPeriod = event.event_type !== 'kickoff' || event.period === undefined || event.period === state.period;
+    if (target === phase && repeatsPeriod && !(phase === 'extra_time' && event.event_type === 'halftime')) {
+      return { findings, redundant: `Match is already in ${phase}; ${event.event_type} repeats it` };
+    }
+    if (!LIFECYCLE_TRANSITIONS[phase].includes(target)) {
+      findings.push({
+        rule: 'lifecycle_transition',
+        message: `${event.event_type} cannot move the match from ${phase} to ${target}`,
+      });
+    }
+    return { findings };
+  }
+
+  if (event.event_type === 'lineup') {
+    if (phase !== 'scheduled' && phase !== 'postponed') {
+      findings.push({ rule: 'period_mismatch', message: `Lineup of ${event.team} must be sent before kickoff; match is in ${phase}` });
+    }
+    return { findings };
+  }
+
+  // A player event before the kickoff means the match is under way; the reducer starts the first half
+  if (phase !== 'scheduled' && CLOSED_PHASES.includes(phase)) {
+    findings.push({ rule: 'match_not_in_play', message: `Match is ${phase}; no ${event.event_type} can happen` });
+    return { findings };
+  }
+
+  // An event of a later period arrived before its kickoff; it is checked again once the period starts
+  const maxPeriod = getMaxPeriod(phase, state.period);
+  if (Number.isInteger(event.period) && event.period > maxPeriod) {
+    findings.push({
+      rule: 'period_mismatch',
+      message: `Event is in period ${event.period} but the match is in ${phase} (period ${maxPeriod})`,
+    });
+    return { findings };
+  }
+
+  if (phase === 'halftime' && !HALFTIME_EVENT_TYPES.includes(event.event_type)) {
+    findings.push({ rule: 'match_not_in_play', message: `Ball is not in play at halftime; no ${event.event_type} can happen` });
+    return { findings };
+  }
+
+  const range = PERIOD_MINUTES[Number.isInteger(event.period) ? event.period : maxPeriod];
+  if (range && Number.isInteger(event.minute) && (event.minute < range.start || event.minute > range.end + stoppageMinutes)) {
+    findings.push({
+      rule: 'period_mismatch',
+      message: `Minute ${event.minute} is outside ${phase} (minutes ${range.start}-${range.end}+${stoppageMinutes})`,
+    });
+  }
+
+  return { findings };
+}
+
+/**
+ * Lifecycle fields of a match state, as reported by query responses
+ */
+export function summarizeLifecycle(state: MatchState): MatchLifecycleSummary {
+  const phase = getMatchPhase(state);
+  return {
+    status: getPhaseStatus(phase),
+    phase,
+    live: LIVE_PHASES.includes(phase),
+    period: state.period,
+    minute: state.minute,
+  };
+}
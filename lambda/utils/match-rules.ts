@@ -0,0 +1,255 @@
+// File: utils/match-rules.ts
+import { DynamoDBClient } from '../clients/dynamo-client';
+import { Logger } from '../dtos/lambda-utils';
+import { CardRecord, MatchState } from '../dtos/match-state';
+import {
+  MatchRuleEvaluation,
+  MatchRuleId,
+  MatchRuleViolation,
+  MatchRulesConfig,
+  QuarantinedEvent
+} from '../dtos/match-rules';
+import { applyEventToState, buildMatchStateKey, createMatchState, loadMatchEvents } from './match-state';
+import { getPlayerInvolvements } from './player-stats';
+import { checkLifecycle } from './match-lifecycle';
+
+export const QUARANTINE_SORT_KEY_PREFIX = 'QUARANTINE';
+
+export const DEFAULT_MATCH_RULES: MatchRulesConfig = {
+  rules: {
+    sent_off_player: 'reject',
+    substituted_player: 'reject',
+    third_yellow: 'reject',
+    // Player lists are built from the feed, so these can be feed gaps rather than impossible events
+    substitute_already_played: 'quarantine',
+    max_substitutions: 'quarantine',
+    lifecycle_transition: 'reject',
+    match_not_in_play: 'reject',
+    // Minutes and periods are often corrected by the feed afterwards
+    period_mismatch: 'quarantine',
+  },
+  max_substitutions: 5,
+  second_yellow_red: true,
+  stoppage_minutes: 15,
+};
+
+// Rule settings are read at most once a minute per competition and container
+const CONFIG_CACHE_TTL_MS = 60 * 1000;
+const configCache = new Map<string, { config: MatchRulesConfig; loadedAt: number }>();
+
+export function buildRulesConfigKey(competition: string): { pk: string; sk: string } {
+  return { pk: `COMPETITION#${competition}`, sk: 'RULES' };
+}
+
+/**
+ * Applies stored competition settings on top of the defaults
+ */
+export function mergeRulesConfig(stored?: Partial<MatchRulesConfig> | null): MatchRulesConfig {
+  return {
+    rules: { ...DEFAULT_MATCH_RULES.rules, ...(stored?.rules || {}) },
+    max_substitutions: stored?.max_substitutions ?? DEFAULT_MATCH_RULES.max_substitutions,
+    second_yellow_red: stored?.second_yellow_red ?? DEFAULT_MATCH_RULES.second_yellow_red,
+    stoppage_minutes: stored?.stoppage_minutes ?? DEFAULT_MATCH_RULES.stoppage_minutes,
+  };
+}
+
+// Player names are only unique within a team; records without a team match any team
+function isSamePlayer(record: { player: string; team: string }, player: string, team?: string): boolean {
+  return record.player === player && (!record.team || !team || record.team === team);
+}
+
+/**
+ * Checks an event against the state of its match just before it
+ * @param state Match state before the event
+ * @param event Canonical event (current schema version)
+ * @param config Rule settings of the match's competition
+ * @param idempotencyKey Key of the event, used to key the events it implies
+ */
+export function evaluateMatchRules(
+  state: MatchState,
+  event: Record<string, any>,
+  config: MatchRulesConfig,
+  idempotencyKey: string
+): MatchRuleEvaluation {
+  const eventId = String(event.event_id ?? idempotencyKey);
+  const team = event.team ? String(event.team) : undefined;
+  const violations: MatchRuleViolation[] = [];
+  const implied: Record<string, any>[] = [];
+  const flag = (rule: MatchRuleId, message: string, player?: string) => {
+    const action = config.rules[rule];
+    if (action && action !== 'off') {
+      violations.push({ rule, action, ...(player ? { player } : {}), message });
+    }
+  };
+
+  // The event must fit the match's phase: no pass after fulltime, no second-half minute before halftime
+  const lifecycle = checkLifecycle(state, event, config.stoppage_minutes);
+  if (lifecycle.redundant) {
+    return { violations: [], implied: [], redundant: lifecycle.redundant };
+  }
+  lifecycle.findings.forEach(({ rule, message }) => flag(rule, message));
+
+  // Feeds that send their own red card after a second yellow repeat the implied one
+  if (event.event_type === 'card' && event.card_type === 'red' && config.second_yellow_red) {
+    const impliedRed = state.cards.find((card: CardRecord) =>
+      card.implied_by && card.card_type === 'red' && isSamePlayer(card, event.player, team));
+    if (impliedRed && (event.second_yellow || event.minute === impliedRed.minute)) {
+      return {
+        violations: [],
+        implied: [],
+        redundant: `Red card of ${event.player} already recorded after the second yellow (${impliedRed.event_id})`,
+      };
+    }
+  }
+
+  const substitutedOff = state.substitutions.filter((substitution) => substitution.event_id !== eventId);
+  getPlayerInvolvements(event).forEach(({ player, role }) => {
+    if (state.sent_off.includes(player)) {
+      flag('sent_off_player', `${player} was sent off and cannot be involved in a ${event.event_type} (${role})`, player);
+    }
+    if (substitutedOff.some((substitution) => substitution.player_out === player && (!team || substitution.team === team))) {
+      flag('substituted_player', `${player} was substituted off and cannot be involved in a ${event.event_type} (${role})`, player);
+    }
+  });
+
+  if (event.event_type === 'card' && event.card_type === 'yellow') {
+    const yellows = state.cards.filter((card) =>
+      card.card_type === 'yellow' && card.event_id !== eventId && isSamePlayer(card, event.player, team)).length;
+
+    if (yellows >= 2) {
+      flag('third_yellow', `${event.player} already has ${yellows} yellow cards`, event.player);
+    } else if (yellows === 1 && !event.second_yellow && config.second_yellow_red && violations.length === 0) {
+      implied.push({
+        ...event,
+        event_id: `${eventId}-second-yellow-red`,
+        idempotencyKey: `${idempotencyKey}-second-yellow-red`,
+        card_type: 'red',
+        second_yellow: true,
+        implied_by: eventId,
+      });
+    }
+  }
+
+  if (event.event_type === 'substitution' && team) {
+    const teamSubstitutions = substitutedOff.filter((substitution) => substitution.team === team);
+    if (teamSubstitutions.length >= config.max_substitutions) {
+      flag('max_substitutions', `${team} has already made ${teamSubstitutions.length} substitutions (limit ${config.max_substitutions})`);
+    }
+
+    const alreadyPlayed = (state.on_pitch[team] || []).includes(event.player_in) ||
+      teamSubstitutions.some((substitution) => substitution.player_in === event.player_in);
+    if (alreadyPlayed) {
+      flag('substitute_already_played', `${event.player_in} has already played in this match`, event.player_in);
+    }
+  }
+
+  return { violations, implied };
+}
+
+/**
+ * The strictest action among violations: one rejecting rule rejects the event
+ */
+export function getViolationAction(violations: MatchRuleViolation[]): MatchRuleViolation['action'] | undefined {
+  if (violations.length === 0) {
+    return undefined;
+  }
+  return violations.some((violation) => violation.action === 'reject') ? 'reject' : 'quarantine';
+}
+
+/**
+ * Checks events against the rules of their competition and stores quarantined events
+ */
+export class MatchRuleEngine {
+  constructor(
+    private readonly dynamoClient: DynamoDBClient,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Evaluates an event against its match as it stood at the event's time. Late
+   * events are checked against the match rebuilt from the events before them.
+   * @param event Canonical event
+   * @param partitionKey Events table partition of the match
+   * @param idempotencyKey Key of the event
+   */
+  public async evaluate(event: Record<string, any>, partitionKey: string, idempotencyKey: string): Promise<MatchRuleEvaluation> {
+    const state = await this.loadStateAt(event, partitionKey);
+    const config = await this.loadConfig(event.competition || state.competition);
+    return evaluateMatchRules(state, event, config, idempotencyKey);
+  }
+
+  /**
+   * Stores an event held back by a quarantine rule, with the explanation
+   */
+  public async quarantine(
+    partitionKey: string,
+    idempotencyKey: string,
+    event: Record<string, any>,
+    violations: MatchRuleViolation[]
+  ): Promise<void> {
+    const item: QuarantinedEvent = {
+      pk: partitionKey,
+      sk: `${QUARANTINE_SORT_KEY_PREFIX}#${idempotencyKey}`,
+      match_id: String(event.match_id),
+      event,
+      violations,
+      quarantined_at: new Date().toISOString(),
+    };
+    await this.dynamoClient.putItem('events', item);
+  }
+
+  private async loadStateAt(event: Record<string, any>, partitionKey: string): Promise<MatchState> {
+    const state = await this.dynamoClient.getItem<MatchState>('matches', buildMatchStateKey(event.match_id), { consistentRead: true });
+    if (!state) {
+      return createMatchState(event.match_id);
+    }
+    // Feeds differ in offsets (+01:00 / Z) and precision, so times are compared as instants, not strings
+    const eventTime = new Date(event.timestamp).getTime();
+    if (!state.last_event_timestamp || isNaN(eventTime) || eventTime >= new Date(state.last_event_timestamp).getTime()) {
+      return state;
+    }
+
+    const earlier = (await loadMatchEvents(this.dynamoClient, partitionKey))
+      .filter((stored) => new Date(stored.timestamp).getTime() <= eventTime);
+    this.logger.debug('Evaluating late event against rebuilt state', { match_id: event.match_id, events: earlier.length });
+    return earlier.reduce(applyEventToState, createMatchState(event.match_id));
+  }
+
+  private async loadConfig(competition?: string): Promise<MatchRulesConfig> {
+    if (!competition) {
+      return DEFAULT_MATCH_RULES;
+    }
+    const cached = configCache.get(competition);
+    if (cached && Date.now() - cached.loadedAt < CONFIG_CACHE_TTL_MS) {
+      return cached.config;
+    }
+
+    const stored = await this.dynamoClient.getItem<Partial<MatchRulesConfig>>('matches', buildRulesConfigKey(competition));
+    const config = mergeRulesConfig(stored);
+    configCache.set(competition, { config, loadedAt: Date.now() });
+    return config;
+  }
+}
+
+/**
+ * Loads the quarantined events of a match
+ * @param dynamoClient DynamoDB client
+ * @param partitionKey Events table partition of the match
+ */
+export async function loadQuarantinedEvents(dynamoClient: DynamoDBClient, partitionKey: string): Promise<QuarantinedEvent[]> {
+  const items: QuarantinedEvent[] = [];
+  let exclusiveStartKey: Record<string, any> | undefined;
+
+  do {
+    const page = await dynamoClient.query<QuarantinedEvent>(
+      'events',
+      'pk = :pk AND begins_with(sk, :quarantinePrefix)',
+      { ':pk': partitionKey, ':quarantinePrefix': `${QUARANTINE_SORT_KEY_PREFIX}#` },
+      { consistentRead: true, exclusiveStartKey }
+    );
+    items.push(...page.items);
+    exclusiveStartKey = page.lastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return items;
+}
@@ -0,0 +1,132 @@
+// File: utils/match-sequencer.ts
+import { DynamoDBClient } from '../clients/dynamo-client';
+import { Logger } from '../dtos/lambda-utils';
+import { MatchSequenceRecord, SequenceAssignment, SequenceWindowEntry } from '../dtos/match-sequencer';
+
+// Events table GSI that returns a match's events in match order
+export const MATCH_ORDER_INDEX = 'MatchOrderIndex';
+
+const DEFAULT_WINDOW_SIZE = 50;
+const MAX_CONFLICT_RETRIES = 5;
+const SEQUENCE_DIGITS = 10;
+
+/**
+ * Builds the match-order sort key: event time first, arrival sequence as tie-breaker
+ * @param timestamp Event timestamp
+ * @param sequence Per-match sequence number
+ */
+export function buildMatchOrder(timestamp: string, sequence: number): string {
+  return `${new Date(timestamp).toISOString()}#${String(sequence).padStart(SEQUENCE_DIGITS, '0')}`;
+}
+
+/**
+ * Sorts events into match order; events stored before sequencing fall back to their timestamp
+ */
+export function sortByMatchOrder<T extends Record<string, any>>(events: T[]): T[] {
+  const orderOf = (event: T): string => event.match_order || new Date(event.timestamp || 0).toISOString();
+  return [...events].sort((a, b) => orderOf(a).localeCompare(orderOf(b)));
+}
+
+/**
+ * Assigns per-match sequence numbers. The sequence item keeps a window of the most
+ * recent events in match order, so an event that arrives after later ones is flagged
+ * as late with the size of the gap. Concurrent invocations update the item with
+ * optimistic concurrency on its version.
+ */
+export class MatchSequencer {
+  private readonly windowSize: number;
+
+  constructor(
+    private readonly dynamoClient: DynamoDBClient,
+    private readonly logger: Logger,
+    options: { windowSize?: number } = {}
+  ) {
+    this.windowSize = options.windowSize ?? (Number(process.env.REORDER_WINDOW_SIZE) || DEFAULT_WINDOW_SIZE);
+  }
+
+  /**
+   * Assigns the next sequence number of a match to an event
+   * @param event Event with match_id, event_id, event_type and timestamp
+   * @returns Sequence number, match-order key and lateness
+   */
+  public async assign(event: Record<string, any>): Promise<SequenceAssignment> {
+    const key = { pk: `MATCH#${event.match_id}`, sk: 'SEQUENCE' };
+
+    for (let attempt = 0; attempt < MAX_CONFLICT_RETRIES; attempt++) {
+      const record = await this.dynamoClient.getItem<MatchSequenceRecord>('matches', key, { consistentRead: true });
+      const window = record?.window || [];
+
+      // A redelivered event keeps the sequence it was given the first time
+      const previous = window.find((entry) => entry.event_id === event.event_id);
+      if (previous) {
+        return this.describe(previous, window);
+      }
+
+      const sequence = (record?.last_sequence || 0) + 1;
+      const entry: SequenceWindowEntry = {
+        event_id: event.event_id,
+        sequence,
+        match_order: buildMatchOrder(event.timestamp, sequence),
+      };
+      const assignment = this.describe(entry, [...window, entry]);
+
+      const isLatest = !record?.latest_match_order || entry.match_order > record.latest_match_order;
+      const updated: MatchSequenceRecord = {
+        ...key,
+        match_id: String(event.match_id),
+        last_sequence: sequence,
+        window: [...window, entry]
+          .sort((a, b) => a.match_order.localeCompare(b.match_order))
+          .slice(-this.windowSize),
+        latest_event_id: isLatest ? event.event_id : record?.latest_event_id,
+        latest_event_type: isLatest ? event.event_type : record?.latest_event_type,
+        latest_event_timestamp: isLatest ? event.timestamp : record?.latest_event_timestamp,
+        latest_match_order: isLatest ? entry.match_order : record?.latest_match_order,
+        version: (record?.version || 0) + 1,
+        updated_at: new Date().toISOString(),
+      };
+
+      try {
+        await this.dynamoClient.putItem('matches', updated, record
+          ? { conditionExpression: 'version = :version', expressionAttributeValues: { ':version': record.version } }
+          : { conditionExpression: 'attribute_not_exists(pk)' });
+      } catch (error) {
+        if (!DynamoDBClient.isConditionalCheckFailed(error)) {
+          throw error;
+        }
+        this.logger.debug('Sequence item updated concurrently, retrying', { match_id: event.match_id, attempt });
+        continue;
+      }
+
+      if (assignment.late) {
+        this.logger.warn('Late event detected', {
+          match_id: event.match_id,
+          event_id: event.event_id,
+          late_by_seconds: assignment.late_by_seconds,
+          reorder_gap: assignment.reorder_gap,
+        });
+      }
+      return assignment;
+    }
+
+    throw new Error(`Could not assign a sequence number for match ${event.match_id} after ${MAX_CONFLICT_RETRIES} attempts`);
+  }
+
+  private describe(entry: SequenceWindowEntry, window: SequenceWindowEntry[]): SequenceAssignment {
+    // Events already processed that happened later in the match than this one
+    const later = window.filter((other) => other.sequence < entry.sequence && other.match_order > entry.match_order);
+    if (later.length === 0) {
+      return { sequence: entry.sequence, match_order: entry.match_order, late: false };
+    }
+
+    const latestTime = later.reduce((max, other) => (other.match_order > max ? other.match_order : max), '');
+    const lateBy = (new Date(latestTime.split('#')[0]).getTime() - new Date(entry.match_order.split('#')[0]).getTime()) / 1000;
+    return {
+      sequence: entry.sequence,
+      match_order: entry.match_order,
+      late: true,
+      late_by_seconds: lateBy,
+      reorder_gap: later.length,
+    };
+  }
+}
@@ -0,0 +1,399 @@
+// File: utils/match-state.ts
+import { DynamoDBClient } from '../clients/dynamo-client';
+import { Logger } from '../dtos/lambda-utils';
+import { MatchScore, MatchSide, MatchState, MatchStateChange, ScoreMismatch, ShotRecord } from '../dtos/match-state';
+import { applyAmendments, isAmendment } from './amendments';
+import { sortByMatchOrder } from './match-sequencer';
+import { upcastEvent } from './schema-versions';
+import { computeShotXG } from './xg';
+import { toTeamLineup } from './lineups';
+import { getLifecyclePeriod, getLifecycleTarget, getMatchPhase, getPhaseStatus } from './match-lifecycle';
+
+const MAX_CONFLICT_RETRIES = 5;
+
+// Source and detail type of the events published when a reported score does not add up
+export const DATA_QUALITY_EVENT_SOURCE = 'football.matches.data-quality';
+export const SCORE_MISMATCH_EVENT_TYPE = 'match.data_quality.score_mismatch';
+
+export function buildMatchStateKey(matchId: string | number): { pk: string; sk: string } {
+  return { pk: `MATCH#${matchId}`, sk: 'STATE' };
+}
+
+/**
+ * Creates the state of a match no event has been applied to yet
+ */
+export function createMatchState(matchId: string | number): MatchState {
+  return {
+    ...buildMatchStateKey(matchId),
+    match_id: String(matchId),
+    status: 'scheduled',
+    phase: 'scheduled',
+    period: 0,
+    minute: 0,
+    score: { home: 0, away: 0 },
+    goals: [],
+    shots: [],
+    xg: { home: 0, away: 0 },
+    cards: [],
+    substitutions: [],
+    on_pitch: {},
+    sent_off: [],
+    score_mismatches: [],
+    version: 0,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Maps a team to its side, from the known team names or a literal Home / Away
+ */
+export function resolveSide(state: Pick<MatchState, 'home_team' | 'away_team'>, team: string | undefined): MatchSide | undefined {
+  if (!team) {
+    return undefined;
+  }
+  if (team === state.home_team || team.toLowerCase() === 'home') {
+    return 'home';
+  }
+  if (team === state.away_team || team.toLowerCase() === 'away') {
+    return 'away';
+  }
+  return undefined;
+}
+
+/**
+ * Name of a team as the match knows it: a literal Home / Away becomes the team's name when it is known
+ */
+export function resolveTeamName(state: Pick<MatchState, 'home_team' | 'away_team'>, team: string): string {
+  const side = resolveSide(state, team);
+  return (side === 'home' ? state.home_team : side === 'away' ? state.away_team : undefined) || team;
+}
+
+/**
+ * Computes the score from the goals of a state; own goals count for the other side
+ * @param state Match state
+ * @param matchOrder Only count goals up to this point of the match (goals without a match order always count)
+ */
+export function computeScore(state: MatchState, matchOrder?: string): MatchScore {
+  return state.goals.reduce<MatchScore>((score, goal) => {
+    const side = resolveSide(state, goal.team);
+    const counted = !matchOrder || !goal.match_order || goal.match_order <= matchOrder;
+    if (side && counted) {
+      const scoringSide: MatchSide = goal.own_goal ? (side === 'home' ? 'away' : 'home') : side;
+      score[scoringSide]++;
+    }
+    return score;
+  }, { home: 0, away: 0 });
+}
+
+/**
+ * Sums the xG of each side's shots; shots of a team that is not known as home or away are not counted
+ */
+export function computeXG(state: MatchState): MatchScore {
+  return (state.shots || []).reduce<MatchScore>((xg, shot) => {
+    const side = resolveSide(state, shot.team);
+    if (side) {
+      xg[side] = Math.round((xg[side] + shot.xg) * 10000) / 10000;
+    }
+    return xg;
+  }, { home: 0, away: 0 });
+}
+
+/**
+ * Compares the score an event reports with the running score at that event
+ * @returns The mismatch, or undefined when the event reports no score or the scores agree
+ */
+export function checkReportedScore(state: MatchState, event: Record<string, any>): ScoreMismatch | undefined {
+  const reported = event.score;
+  if (!reported || typeof reported.home !== 'number' || typeof reported.away !== 'number') {
+    return undefined;
+  }
+
+  const computed = computeScore(state, event.match_order);
+  if (computed.home === reported.home && computed.away === reported.away) {
+    return undefined;
+  }
+
+  return {
+    event_id: String(event.event_id),
+    event_type: event.event_type,
+    match_order: event.match_order,
+    minute: event.minute,
+    timestamp: event.timestamp,
+    reported: { home: reported.home, away: reported.away },
+    computed,
+  };
+}
+
+/**
+ * Lists the score mismatches of a state that the previous state did not have
+ */
+export function findNewScoreMismatches(previous: MatchState | undefined, state: MatchState): ScoreMismatch[] {
+  const known = new Set((previous?.score_mismatches || []).map((mismatch) => mismatch.event_id));
+  return state.score_mismatches.filter((mismatch) => !known.has(mismatch.event_id));
+}
+
+/**
+ * Applies one event to a match state. Re-applying an event leaves the state unchanged:
+ * goals, cards and substitutions are keyed by event_id and players are kept as sets.
+ * @param current State before the event
+ * @param event Canonical event (current schema version)
+ * @returns A new state
+ */
+export function applyEventToState(current: MatchState, event: Record<string, any>): MatchState {
+  const shots = [...(current.shots || [])];
+  const state: MatchState = {
+    ...current,
+    goals: [...current.goals],
+    shots,
+    cards: [...current.cards],
+    substitutions: [...current.substitutions],
+    on_pitch: Object.fromEntries(Object.entries(current.on_pitch).map(([team, players]) => [team, [...players]])),
+    sent_off: [...current.sent_off],
+    lineups: { ...(current.lineups || {}) },
+    score_mismatches: [...(current.score_mismatches || [])],
+  };
+  const eventId = String(event.event_id);
+  const team = event.team ? String(event.team) : undefined;
+
+  state.season = state.season ?? event.season;
+  state.competition = state.competition ?? event.competition;
+  state.home_team = state.home_team ?? event.home_team;
+  state.away_team = state.away_team ?? event.away_team;
+  state.minute = Math.max(state.minute || 0, event.minute || 0);
+
+  const seeOnPitch = (player: string | undefined) => {
+    if (!team || !player || state.sent_off.includes(player)) {
+      return;
+    }
+    const players = state.on_pitch[team] || [];
+    if (!players.includes(player)) {
+      state.on_pitch[team] = [...players, player];
+    }
+  };
+  const leavePitch = (player: string | undefined) => {
+    if (team && player && state.on_pitch[team]) {
+      state.on_pitch[team] = state.on_pitch[team].filter((onPitch) => onPitch !== player);
+    }
+  };
+
+  switch (event.event_type) {
+    // Applied as reported; the match rules decide beforehand whether the transition is allowed
+    case 'kickoff':
+    case 'halftime':
+    case 'fulltime':
+    case 'abandoned':
+    case 'postponed':
+      state.phase = getLifecycleTarget(getMatchPhase(state), event);
+      state.period = getLifecyclePeriod(state.phase, state.period, event);
+      break;
+    case 'goal':
+      if (!state.goals.some((goal) => goal.event_id === eventId)) {
+        state.goals.push({
+          event_id: eventId,
+          team: team || '',
+          player: event.player,
+          player_id: event.player_id,
+          minute: event.minute,
+          second: event.second,
+          period: event.period,
+          match_order: event.match_order,
+          ...(event.own_goal ? { own_goal: true } : {}),
+        });
+      }
+      if (!event.own_goal) {
+        seeOnPitch(event.player);
+      }
+      break;
+    case 'shot':
+      if (!shots.some((shot) => shot.event_id === eventId)) {
+        const shot: Omit<ShotRecord, 'xg'> = {
+          event_id: eventId,
+          team: team || '',
+          player: event.player,
+          player_id: event.player_id,
+          minute: event.minute,
+          period: event.period,
+          position: { x: event.position.x, y: event.position.y },
+          body_part: event.body_part,
+          situation: event.situation,
+          outcome: event.outcome,
+        };
+        // Recomputed rather than read from the stored event, so an amended position or body part counts
+        shots.push({ ...shot, xg: computeShotXG(shot) });
+      }
+      seeOnPitch(event.player);
+      break;
+    case 'card':
+      if (!state.cards.some((card) => card.event_id === eventId)) {
+        state.cards.push({
+          event_id: eventId,
+          team: team || '',
+          player: event.player,
+          card_type: event.card_type,
+          minute: event.minute,
+          ...(event.second_yellow ? { second_yellow: true } : {}),
+          ...(event.implied_by ? { implied_by: String(event.implied_by) } : {}),
+        });
+      }
+      if (event.card_type === 'red' || event.second_yellow) {
+        leavePitch(event.player);
+        if (!state.sent_off.includes(event.player)) {
+          state.sent_off.push(event.player);
+        }
+      }
+      break;
+    case 'substitution':
+      if (!state.substitutions.some((substitution) => substitution.event_id === eventId)) {
+        state.substitutions.push({
+          event_id: eventId,
+          team: team || '',
+          player_in: event.player_in,
+          player_out: event.player_out,
+          minute: event.minute,
+          ...(event.formation ? { formation: event.formation } : {}),
+        });
+      }
+      leavePitch(event.player_out);
+      seeOnPitch(event.player_in);
+      break;
+    case 'lineup':
+      if (team) {
+        const lineup = toTeamLineup(event);
+        state.lineups![team] = lineup;
+        // The starting XI replaces the players seen so far
+        state.on_pitch[team] = lineup.starting
+          .map((player) => player.player)
+          .filter((player) => !state.sent_off.includes(player));
+      }
+      break;
+    case 'pass':
+      seeOnPitch(event.from_player);
+      seeOnPitch(event.to_player);
+      break;
+    case 'foul':
+      seeOnPitch(event.player);
+      break;
+  }
+
+  // Player events (other than lineups) mean the match is under way even if the kickoff has not arrived yet
+  state.phase = getMatchPhase(state);
+  if (state.phase === 'scheduled' && team && event.event_type !== 'lineup') {
+    state.phase = 'first_half';
+    state.period = Math.max(state.period, 1);
+  }
+  state.status = getPhaseStatus(state.phase);
+
+  if (!state.last_match_order || (event.match_order && event.match_order > state.last_match_order)) {
+    state.last_event_id = eventId;
+    state.last_event_type = event.event_type;
+    state.last_event_timestamp = event.timestamp;
+    state.last_match_order = event.match_order;
+  }
+
+  state.score = computeScore(state);
+  state.xg = computeXG(state);
+
+  // Feeds report the score on goal events; check it against the goals recorded up to that point
+  const mismatch = checkReportedScore(state, event);
+  state.score_mismatches = state.score_mismatches.filter((flagged) => flagged.event_id !== eventId);
+  if (mismatch) {
+    state.score_mismatches.push(mismatch);
+  }
+
+  return state;
+}
+
+/**
+ * Keeps the match aggregate in the matches table up to date. Writes use optimistic
+ * concurrency on the state's version, so concurrent invocations retry on top of
+ * each other's changes instead of overwriting them.
+ */
+export class MatchStateProjector {
+  constructor(
+    private readonly dynamoClient: DynamoDBClient,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Applies a newly stored event to its match state
+   * @param event Stored event item
+   */
+  public async apply(event: Record<string, any>): Promise<MatchStateChange> {
+    return this.update(event.match_id, async (current) => applyEventToState(current, event));
+  }
+
+  /**
+   * Recomputes a match state from every stored event, in match order and with
+   * amendments applied. Used for late events and amendments, which can change
+   * the result of events that were applied before them.
+   * @param matchId Match to rebuild
+   * @param partitionKey Events table partition holding the match's events
+   */
+  public async rebuild(matchId: string | number, partitionKey: string): Promise<MatchStateChange> {
+    return this.update(matchId, async (current) => {
+      const events = await loadMatchEvents(this.dynamoClient, partitionKey);
+
+      this.logger.info('Rebuilding match state', { match_id: matchId, events: events.length });
+
+      const rebuilt = events.reduce(applyEventToState, createMatchState(matchId));
+      return { ...rebuilt, version: current.version };
+    });
+  }
+
+  private async update(
+    matchId: string | number,
+    change: (current: MatchState) => Promise<MatchState>
+  ): Promise<MatchStateChange> {
+    const key = buildMatchStateKey(matchId);
+
+    for (let attempt = 0; attempt < MAX_CONFLICT_RETRIES; attempt++) {
+      const existing = await this.dynamoClient.getItem<MatchState>('matches', key, { consistentRead: true });
+      const current = existing || createMatchState(matchId);
+      const updated: MatchState = {
+        ...(await change(current)),
+        version: current.version + 1,
+        updated_at: new Date().toISOString(),
+      };
+
+      try {
+        await this.dynamoClient.putItem('matches', updated, existing
+          ? { conditionExpression: 'version = :version', expressionAttributeValues: { ':version': existing.version } }
+          : { conditionExpression: 'attribute_not_exists(pk)' });
+        return { previous: existing || undefined, state: updated };
+      } catch (error) {
+        if (!DynamoDBClient.isConditionalCheckFailed(error)) {
+          throw error;
+        }
+        this.logger.debug('Match state updated concurrently, retrying', { match_id: matchId, attempt });
+      }
+    }
+
+    throw new Error(`Could not update the state of match ${matchId} after ${MAX_CONFLICT_RETRIES} attempts`);
+  }
+}
+
+/**
+ * Loads the events of a match, with amendments applied and in match order
+ * @param dynamoClient DynamoDB client
+ * @param partitionKey Events table partition holding the match's events
+ */
+export async function loadMatchEvents(dynamoClient: DynamoDBClient, partitionKey: string): Promise<Record<string, any>[]> {
+  const items: Record<string, any>[] = [];
+  let exclusiveStartKey: Record<string, any> | undefined;
+
+  do {
+    // The partition also holds derived items (player statistics) that are not events
+    const page = await dynamoClient.query(
+      'events',
+      'pk = :pk',
+      { ':pk': partitionKey },
+      { filterExpression: 'attribute_exists(event_type)', consistentRead: true, exclusiveStartKey }
+    );
+    items.push(...page.items);
+    exclusiveStartKey = page.lastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return sortByMatchOrder(applyAmendments(
+    items.map((item) => (isAmendment(item) ? item : upcastEvent(item)))
+  ));
+}
@@ -0,0 +1,234 @@
+// File: utils/pass-network.ts
+import { MatchState } from '../dtos/match-state';
+import { PassNetwork, PassNetworkEdge, PassNetworkFilter, PassNetworkPlayer } from '../dtos/pass-network';
+import { resolveSide, resolveTeamName } from './match-state';
+
+// Path lengths are 1 / completed passes; sums of them are compared with a tolerance
+const DISTANCE_EPSILON = 1e-9;
+
+const round = (value: number, decimals: number): number => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+const percentage = (part: number, total: number): number | null => (total > 0 ? round((part / total) * 100, 1) : null);
+
+/**
+ * Whether a pass falls in the filter's minute range
+ */
+export function isInMinuteRange(pass: Record<string, any>, filter: PassNetworkFilter): boolean {
+  if (filter.from_minute === undefined && filter.to_minute === undefined) {
+    return true;
+  }
+  if (typeof pass.minute !== 'number') {
+    return false;
+  }
+  return (filter.from_minute === undefined || pass.minute >= filter.from_minute) &&
+    (filter.to_minute === undefined || pass.minute <= filter.to_minute);
+}
+
+/**
+ * Whether a pass's team is the requested team; Home / Away match the known team names
+ */
+export function isSameTeam(state: Pick<MatchState, 'home_team' | 'away_team'>, passTeam: string, team: string): boolean {
+  if (passTeam === team) {
+    return true;
+  }
+  const side = resolveSide(state, team);
+  return Boolean(side) && resolveSide(state, passTeam) === side;
+}
+
+/**
+ * Betweenness centrality of each player in a directed pass graph (Brandes' algorithm).
+ * Frequent connections are short: an edge's length is 1 / completed passes.
+ * @param players Player ids
+ * @param matrix Completed passes, passer -> recipient
+ * @returns Betweenness normalized by (n - 1)(n - 2), by player id
+ */
+export function computeBetweenness(players: string[], matrix: Record<string, Record<string, number>>): Map<string, number> {
+  const betweenness = new Map(players.map((player) => [player, 0]));
+
+  players.forEach((source) => {
+    const stack: string[] = [];
+    const predecessors = new Map<string, string[]>(players.map((player) => [player, []]));
+    const paths = new Map(players.map((player) => [player, 0]));
+    const distance = new Map(players.map((player) => [player, Infinity]));
+    const visited = new Set<string>();
+    paths.set(source, 1);
+    distance.set(source, 0);
+
+    // Dijkstra; networks have a few dozen players at most, so a linear scan for the closest is enough
+    for (;;) {
+      const next = players
+        .filter((player) => !visited.has(player) && distance.get(player)! < Infinity)
+        .sort((a, b) => distance.get(a)! - distance.get(b)!)[0];
+      if (!next) {
+        break;
+      }
+      visited.add(next);
+      stack.push(next);
+
+      Object.entries(matrix[next] || {}).forEach(([recipient, completed]) => {
+        if (completed <= 0 || recipient === next || visited.has(recipient)) {
+          return;
+        }
+        const candidate = distance.get(next)! + 1 / completed;
+        const known = distance.get(recipient)!;
+        if (candidate < known - DISTANCE_EPSILON) {
+          distance.set(recipient, candidate);
+          paths.set(recipient, paths.get(next)!);
+          predecessors.set(recipient, [next]);
+        } else if (Math.abs(candidate - known) <= DISTANCE_EPSILON) {
+          paths.set(recipient, paths.get(recipient)! + paths.get(next)!);
+          predecessors.get(recipient)!.push(next);
+        }
+      });
+    }
+
+    const dependency = new Map(players.map((player) => [player, 0]));
+    while (stack.length > 0) {
+      const player = stack.pop()!;
+      predecessors.get(player)!.forEach((predecessor) => {
+        const share = (paths.get(predecessor)! / paths.get(player)!) * (1 + dependency.get(player)!);
+        dependency.set(predecessor, dependency.get(predecessor)! + share);
+      });
+      if (player !== source) {
+        betweenness.set(player, betweenness.get(player)! + dependency.get(player)!);
+      }
+    }
+  });
+
+  const pairs = (players.length - 1) * (players.length - 2);
+  return new Map([...betweenness].map(([player, value]) => [player, pairs > 0 ? round(value / pairs, 4) : 0]));
+}
+
+/**
+ * Builds the passing network of one team
+ * @param team Team name
+ * @param passes The team's pass events, amendments applied
+ */
+export function buildPassNetwork(team: string, passes: Record<string, any>[]): PassNetwork {
+  const players = new Map<string, PassNetworkPlayer>();
+  const edges = new Map<string, PassNetworkEdge>();
+  const positionSums = new Map<string, { x: number; y: number }>();
+  const matrix: Record<string, Record<string, number>> = {};
+
+  const getPlayer = (playerId: string, name: string): PassNetworkPlayer => {
+    const player = players.get(playerId) || {
+      player_id: playerId,
+      player: name,
+      passes_attempted: 0,
+      passes_completed: 0,
+      passes_received: 0,
+      completion_rate: null,
+      positioned_passes: 0,
+      out_degree: 0,
+      in_degree: 0,
+      degree_centrality: 0,
+      betweenness_centrality: 0,
+    };
+    players.set(playerId, player);
+    return player;
+  };
+
+  // Average positions come from the passes that carry an origin
+  const recordPosition = (playerId: string, passer: PassNetworkPlayer, position: any) => {
+    if (position && typeof position.x === 'number' && typeof position.y === 'number') {
+      const sum = positionSums.get(playerId) || { x: 0, y: 0 };
+      positionSums.set(playerId, { x: sum.x + position.x, y: sum.y + position.y });
+      passer.positioned_passes++;
+    }
+  };
+
+  passes.forEach((pass) => {
+    const fromId = String(pass.from_player_id ?? pass.from_player);
+    // Feeds that do not report the outcome only send completed passes
+    const completed = pass.success !== false;
+
+    const passer = getPlayer(fromId, String(pass.from_player));
+    passer.passes_attempted++;
+
+    // Some feeds do not say who an incomplete pass was meant for; it has no edge
+    if (!pass.to_player) {
+      recordPosition(fromId, passer, pass.position);
+      return;
+    }
+    const toId = String(pass.to_player_id ?? pass.to_player);
+    const recipient = getPlayer(toId, String(pass.to_player));
+
+    const edgeKey = `${fromId}>${toId}`;
+    const edge = edges.get(edgeKey) ||
+      { from_player_id: fromId, from_player: passer.player, to_player_id: toId, to_player: recipient.player, passes: 0, completed: 0 };
+    edge.passes++;
+    edges.set(edgeKey, edge);
+
+    if (completed) {
+      passer.passes_completed++;
+      recipient.passes_received++;
+      edge.completed++;
+      matrix[fromId] = matrix[fromId] || {};
+      matrix[fromId][toId] = (matrix[fromId][toId] || 0) + 1;
+    }
+
+    recordPosition(fromId, passer, pass.position);
+  });
+
+  const playerIds = [...players.keys()];
+  const betweenness = computeBetweenness(playerIds, matrix);
+  players.forEach((player, playerId) => {
+    const recipients = Object.keys(matrix[playerId] || {}).filter((id) => id !== playerId);
+    const passers = playerIds.filter((id) => id !== playerId && matrix[id]?.[playerId]);
+    player.completion_rate = percentage(player.passes_completed, player.passes_attempted);
+    player.out_degree = recipients.length;
+    player.in_degree = passers.length;
+    player.degree_centrality = playerIds.length > 1
+      ? round(new Set([...recipients, ...passers]).size / (playerIds.length - 1), 4)
+      : 0;
+    player.betweenness_centrality = betweenness.get(playerId) || 0;
+
+    const sum = positionSums.get(playerId);
+    if (sum && player.positioned_passes > 0) {
+      player.average_position = { x: round(sum.x / player.positioned_passes, 2), y: round(sum.y / player.positioned_passes, 2) };
+    }
+  });
+
+  const completedPasses = passes.filter((pass) => pass.success !== false).length;
+  return {
+    team,
+    total_passes: passes.length,
+    completed_passes: completedPasses,
+    completion_rate: percentage(completedPasses, passes.length),
+    players: [...players.values()].sort((a, b) => b.passes_attempted - a.passes_attempted || a.player.localeCompare(b.player)),
+    edges: [...edges.values()].sort((a, b) => b.passes - a.passes || a.from_player.localeCompare(b.from_player)),
+    matrix,
+  };
+}
+
+/**
+ * Builds a passing network per team from a match's events
+ * @param state Match state, used to resolve Home / Away to team names
+ * @param events Match events, amendments applied
+ * @param filter Team and minute range
+ * @returns One network per team with passes in the range, home team first
+ */
+export function buildPassNetworks(
+  state: Pick<MatchState, 'home_team' | 'away_team'>,
+  events: Record<string, any>[],
+  filter: PassNetworkFilter = {}
+): PassNetwork[] {
+  const passesByTeam = new Map<string, Record<string, any>[]>(
+    [state.home_team, state.away_team]
+      .filter((team): team is string => Boolean(team) && (!filter.team || isSameTeam(state, team!, filter.team)))
+      .map((team) => [team, []])
+  );
+
+  events
+    .filter((event) => event.event_type === 'pass' && event.team && isInMinuteRange(event, filter))
+    .filter((pass) => !filter.team || isSameTeam(state, String(pass.team), filter.team))
+    .forEach((pass) => {
+      // Feeds that send Home / Away are grouped under the team's name
+      const team = resolveTeamName(state, String(pass.team));
+      const passes = passesByTeam.get(team) || [];
+      passes.push(pass);
+      passesByTeam.set(team, passes);
+    });
+
+  return [...passesByTeam].map(([team, passes]) => buildPassNetwork(team, passes));
+}
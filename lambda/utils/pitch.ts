@@ -0,0 +1,33 @@
+// File: utils/pitch.ts
+
+// Canonical pitch: metres on a 105 x 68 pitch, the acting team attacking towards x = 105
+export const PITCH_LENGTH = 105;
+export const PITCH_WIDTH = 68;
+
+export interface PitchPosition {
+  x: number;
+  y: number;
+}
+
+/**
+ * Rescales a provider coordinate to the canonical pitch
+ * @param x Provider x coordinate
+ * @param y Provider y coordinate
+ * @param sourceLength Length of the provider's pitch (e.g. 120 for StatsBomb, 100 for Opta)
+ * @param sourceWidth Width of the provider's pitch (e.g. 80 for StatsBomb, 100 for Opta)
+ * @returns Position rounded to centimetres, or undefined when a coordinate is missing
+ */
+export function toPitchPosition(
+  x: number | undefined,
+  y: number | undefined,
+  sourceLength: number,
+  sourceWidth: number
+): PitchPosition | undefined {
+  if (typeof x !== 'number' || typeof y !== 'number' || isNaN(x) || isNaN(y)) {
+    return undefined;
+  }
+  return {
+    x: Math.round((x / sourceLength) * PITCH_LENGTH * 100) / 100,
+    y: Math.round((y / sourceWidth) * PITCH_WIDTH * 100) / 100,
+  };
+}
@@ -0,0 +1,386 @@
+// File: utils/player-stats.ts
+import { DynamoDBClient } from '../clients/dynamo-client';
+import { Logger } from '../dtos/lambda-utils';
+import { MatchState } from '../dtos/match-state';
+import { loadMatchEvents } from './match-state';
+import { CountedEventMarker, PlayerInvolvement, PlayerMatchStats, PlayerStatLine } from '../dtos/player-stats';
+import { EventNameGenerator } from '../../lib/modules/name-gen-dynamo';
+import { isShotOnTarget, scoreShot } from './xg';
+import { findTeamLineup, getMinutesPlayed } from './lineups';
+
+export const PLAYER_SORT_KEY_PREFIX = 'PLAYER';
+export const COUNTED_SORT_KEY_PREFIX = 'COUNTED';
+
+// Statistics the stat sheet can be sorted by
+export const PLAYER_STAT_FIELDS = [
+  'goals', 'own_goals', 'assists', 'shots', 'shots_on_target', 'xg', 'passes_attempted', 'passes_completed', 'passes_received',
+  'pass_accuracy', 'fouls_committed', 'yellow_cards', 'red_cards', 'minutes_played',
+] as const;
+
+export type PlayerStatField = typeof PLAYER_STAT_FIELDS[number];
+
+const MAX_CONFLICT_RETRIES = 5;
+const REGULATION_MINUTES = 90;
+// Redeliveries arrive within EventBridge's 24-hour retry window; markers expire after it
+const COUNTED_MARKER_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Lists the players an event involves and their role in it
+ * @param event Canonical event (current schema version, so every player reference has an *_id)
+ */
+export function getPlayerInvolvements(event: Record<string, any>): PlayerInvolvement[] {
+  const team = event.team ? String(event.team) : '';
+  const involvement = (field: string, role: PlayerInvolvement['role']): PlayerInvolvement[] =>
+    event[field] ? [{ player_id: String(event[`${field}_id`] ?? event[field]), player: String(event[field]), team, role }] : [];
+
+  switch (event.event_type) {
+    case 'goal':
+      return event.own_goal
+        ? involvement('player', 'own_goal_scorer')
+        : [...involvement('player', 'scorer'), ...involvement('assist', 'assist')];
+    case 'shot':
+      return involvement('player', 'shooter');
+    case 'pass':
+      return [...involvement('from_player', 'passer'), ...involvement('to_player', 'receiver')];
+    case 'foul':
+      return involvement('player', 'fouler');
+    case 'card':
+      return involvement('player', 'booked');
+    case 'substitution':
+      return [...involvement('player_in', 'subbed_on'), ...involvement('player_out', 'subbed_off')];
+    default:
+      return [];
+  }
+}
+
+export function createPlayerStats(pk: string, sk: string, matchId: string | number, involvement: PlayerInvolvement): PlayerMatchStats {
+  return {
+    pk,
+    sk,
+    match_id: String(matchId),
+    player_id: involvement.player_id,
+    player: involvement.player,
+    team: involvement.team,
+    goals: 0,
+    own_goals: 0,
+    assists: 0,
+    shots: 0,
+    shots_on_target: 0,
+    xg: 0,
+    passes_attempted: 0,
+    passes_completed: 0,
+    passes_received: 0,
+    fouls_committed: 0,
+    yellow_cards: 0,
+    red_cards: 0,
+    version: 0,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Identifies one involvement of a player in an event
+ */
+export function getCountedEventKey(event: Record<string, any>, involvement: PlayerInvolvement): string {
+  return `${event.event_id}#${involvement.role}`;
+}
+
+/**
+ * Sort key of the marker recording that an involvement was counted
+ */
+export function buildCountedSortKey(event: Record<string, any>, involvement: PlayerInvolvement): string {
+  return `${COUNTED_SORT_KEY_PREFIX}#${getCountedEventKey(event, involvement)}`;
+}
+
+/**
+ * Counts one event in a player's statistics
+ * @returns A new statistics object
+ */
+export function applyInvolvement(
+  current: PlayerMatchStats,
+  event: Record<string, any>,
+  involvement: PlayerInvolvement
+): PlayerMatchStats {
+  const stats: PlayerMatchStats = { ...current, player: involvement.player, team: involvement.team || current.team };
+
+  switch (involvement.role) {
+    case 'scorer':
+      stats.goals++;
+      break;
+    case 'own_goal_scorer':
+      stats.own_goals++;
+      break;
+    case 'assist':
+      stats.assists++;
+      break;
+    case 'shooter':
+      stats.shots = (stats.shots ?? 0) + 1;
+      stats.shots_on_target = (stats.shots_on_target ?? 0) + (isShotOnTarget(event) ? 1 : 0);
+      stats.xg = Math.round(((stats.xg ?? 0) + scoreShot(event).xg) * 10000) / 10000;
+      break;
+    case 'passer':
+      stats.passes_attempted++;
+      // Feeds that do not report the outcome only send completed passes
+      if (event.success !== false) {
+        stats.passes_completed++;
+      }
+      break;
+    case 'receiver':
+      stats.passes_received++;
+      break;
+    case 'fouler':
+      stats.fouls_committed++;
+      break;
+    case 'booked':
+      if (event.card_type === 'red') {
+        stats.red_cards++;
+      } else {
+        stats.yellow_cards++;
+      }
+      if (event.card_type === 'red' || event.second_yellow) {
+        stats.sent_off_minute = event.minute ?? stats.sent_off_minute;
+      }
+      break;
+    case 'subbed_on':
+      stats.subbed_on_minute = event.minute ?? stats.subbed_on_minute;
+      break;
+    case 'subbed_off':
+      stats.subbed_off_minute = event.minute ?? stats.subbed_off_minute;
+      break;
+  }
+
+  return stats;
+}
+
+/**
+ * Builds the statistics of every player from a match's events
+ * @param partitionKey Events table partition of the match
+ * @param events Events with amendments applied, in match order
+ * @param nameGenerator Key generator
+ * @returns Statistics by sort key
+ */
+export function buildPlayerStats(
+  partitionKey: string,
+  events: Record<string, any>[],
+  nameGenerator: EventNameGenerator
+): Map<string, PlayerMatchStats> {
+  const statsByKey = new Map<string, PlayerMatchStats>();
+
+  events.forEach((event) => {
+    getPlayerInvolvements(event).forEach((involvement) => {
+      const sk = nameGenerator.generateSortKey(PLAYER_SORT_KEY_PREFIX, involvement.player_id);
+      const current = statsByKey.get(sk) || createPlayerStats(partitionKey, sk, event.match_id, involvement);
+      statsByKey.set(sk, applyInvolvement(current, event, involvement));
+    });
+  });
+
+  return statsByKey;
+}
+
+/**
+ * Turns stored statistics into a stat sheet row
+ * @param stats Stored statistics
+ * @param state Match state, used for the current match minute
+ */
+export function toStatLine(
+  stats: PlayerMatchStats,
+  state?: Pick<MatchState, 'minute' | 'status' | 'lineups' | 'home_team' | 'away_team'>
+): PlayerStatLine {
+  const { pk, sk, counted_events, last_match_order, version, ...line } = stats;
+
+  // Players without a substitution on started the match, unless the team's lineup says they did not;
+  // players still on play until the current minute
+  const matchMinute = state?.status === 'finished' ? Math.max(state.minute || 0, REGULATION_MINUTES) : state?.minute || 0;
+  const lineup = state && stats.team ? findTeamLineup(state, stats.team) : undefined;
+  const started = !lineup || lineup.starting.some((starter) => starter.player === stats.player);
+  const onMinute = stats.subbed_on_minute ?? (started ? 0 : undefined);
+  const offMinute = stats.subbed_off_minute ?? stats.sent_off_minute;
+
+  return {
+    ...line,
+    shots: stats.shots ?? 0,
+    shots_on_target: stats.shots_on_target ?? 0,
+    xg: stats.xg ?? 0,
+    minutes_played: onMinute === undefined ? 0 : getMinutesPlayed(onMinute, offMinute, matchMinute),
+    pass_accuracy: stats.passes_attempted > 0
+      ? Math.round((stats.passes_completed / stats.passes_attempted) * 1000) / 10
+      : null,
+  };
+}
+
+export function isPlayerStatField(value: any): value is PlayerStatField {
+  return PLAYER_STAT_FIELDS.includes(value);
+}
+
+/**
+ * Sorts stat sheet rows by a statistic; ties are broken by player name
+ */
+export function sortStatLines(lines: PlayerStatLine[], field: PlayerStatField, order: 'asc' | 'desc' = 'desc'): PlayerStatLine[] {
+  const direction = order === 'asc' ? 1 : -1;
+  return [...lines].sort((a, b) => {
+    // Players without a value (pass accuracy without passes) always sort last
+    const aValue = a[field] ?? (order === 'asc' ? Infinity : -Infinity);
+    const bValue = b[field] ?? (order === 'asc' ? Infinity : -Infinity);
+    return aValue !== bValue ? (aValue - bValue) * direction : a.player.localeCompare(b.player);
+  });
+}
+
+/**
+ * Keeps the PLAYER# statistics items of a match up to date. Events are counted
+ * incrementally; a COUNTED# marker per involvement, kept for a day, stops
+ * redeliveries from counting twice while events applied out of order still count.
+ * Late events and amendments rebuild all of the match's player items from its events.
+ */
+export class PlayerStatsAggregator {
+  constructor(
+    private readonly dynamoClient: DynamoDBClient,
+    private readonly logger: Logger,
+    private readonly nameGenerator: EventNameGenerator
+  ) {}
+
+  /**
+   * Counts a newly stored event for every player it involves
+   * @param partitionKey Events table partition of the match
+   * @param event Stored event item
+   */
+  public async apply(partitionKey: string, event: Record<string, any>): Promise<void> {
+    for (const involvement of getPlayerInvolvements(event)) {
+      await this.applyToPlayer(partitionKey, event, involvement);
+    }
+  }
+
+  /**
+   * Recomputes every player item of a match from its events; players no event
+   * refers to any more are removed
+   * @param partitionKey Events table partition of the match
+   */
+  public async rebuild(partitionKey: string): Promise<void> {
+    for (let attempt = 0; attempt < MAX_CONFLICT_RETRIES; attempt++) {
+      const existing = new Map((await loadPlayerStats(this.dynamoClient, partitionKey)).map((item) => [item.sk, item]));
+      const rebuilt = buildPlayerStats(partitionKey, await loadMatchEvents(this.dynamoClient, partitionKey), this.nameGenerator);
+
+      try {
+        for (const [sk, stats] of rebuilt) {
+          await this.write(stats, existing.get(sk));
+        }
+        for (const sk of existing.keys()) {
+          if (!rebuilt.has(sk)) {
+            await this.dynamoClient.deleteItem('events', { pk: partitionKey, sk });
+          }
+        }
+
+        this.logger.info('Rebuilt player statistics', { pk: partitionKey, players: rebuilt.size });
+        return;
+      } catch (error) {
+        if (!DynamoDBClient.isConditionalCheckFailed(error)) {
+          throw error;
+        }
+        this.logger.debug('Player statistics updated concurrently, retrying rebuild', { pk: partitionKey, attempt });
+      }
+    }
+
+    throw new Error(`Could not rebuild player statistics of ${partitionKey} after ${MAX_CONFLICT_RETRIES} attempts`);
+  }
+
+  private async applyToPlayer(partitionKey: string, event: Record<string, any>, involvement: PlayerInvolvement): Promise<void> {
+    const key = {
+      pk: partitionKey,
+      sk: this.nameGenerator.generateSortKey(PLAYER_SORT_KEY_PREFIX, involvement.player_id),
+    };
+
+    if (!(await this.markCounted(partitionKey, event, involvement))) {
+      return;
+    }
+
+    try {
+      for (let attempt = 0; attempt < MAX_CONFLICT_RETRIES; attempt++) {
+        const existing = await this.dynamoClient.getItem<PlayerMatchStats>('events', key, { consistentRead: true });
+        if (existing?.last_match_order !== undefined) {
+          // Items of the first version cannot tell which events they counted; the rebuild counts this one too
+          await this.rebuild(partitionKey);
+          return;
+        }
+        if (existing?.counted_events?.includes(getCountedEventKey(event, involvement))) {
+          return;
+        }
+
+        const current = existing || createPlayerStats(key.pk, key.sk, event.match_id, involvement);
+        try {
+          await this.write(applyInvolvement(current, event, involvement), existing || undefined);
+          return;
+        } catch (error) {
+          if (!DynamoDBClient.isConditionalCheckFailed(error)) {
+            throw error;
+          }
+          this.logger.debug('Player statistics updated concurrently, retrying', { sk: key.sk, attempt });
+        }
+      }
+
+      throw new Error(`Could not update statistics of player ${involvement.player_id} after ${MAX_CONFLICT_RETRIES} attempts`);
+    } catch (error) {
+      // Let a retry of the event count it
+      await this.dynamoClient.deleteItem('events', { pk: partitionKey, sk: buildCountedSortKey(event, involvement) });
+      throw error;
+    }
+  }
+
+  /**
+   * Writes the marker of an involvement
+   * @returns false when the involvement was already counted
+   */
+  private async markCounted(partitionKey: string, event: Record<string, any>, involvement: PlayerInvolvement): Promise<boolean> {
+    const marker: CountedEventMarker = {
+      pk: partitionKey,
+      sk: buildCountedSortKey(event, involvement),
+      player_id: involvement.player_id,
+      counted_at: new Date().toISOString(),
+      expires_at: Math.floor(Date.now() / 1000) + COUNTED_MARKER_TTL_SECONDS,
+    };
+
+    try {
+      await this.dynamoClient.putItem('events', marker, { conditionExpression: 'attribute_not_exists(pk)' });
+      return true;
+    } catch (error) {
+      if (!DynamoDBClient.isConditionalCheckFailed(error)) {
+        throw error;
+      }
+      this.logger.debug('Involvement already counted', { sk: marker.sk });
+      return false;
+    }
+  }
+
+  private async write(stats: PlayerMatchStats, existing?: PlayerMatchStats): Promise<void> {
+    // Lists of counted events written by earlier versions are dropped; markers replace them
+    const { counted_events, ...fields } = stats;
+    await this.dynamoClient.putItem('events', {
+      ...fields,
+      version: (existing?.version ?? 0) + 1,
+      updated_at: new Date().toISOString(),
+    }, existing
+      ? { conditionExpression: 'version = :version', expressionAttributeValues: { ':version': existing.version } }
+      : { conditionExpression: 'attribute_not_exists(pk)' });
+  }
+}
+
+/**
+ * Loads the PLAYER# items of a match
+ * @param dynamoClient DynamoDB client
+ * @param partitionKey Events table partition of the match
+ */
+export async function loadPlayerStats(dynamoClient: DynamoDBClient, partitionKey: string): Promise<PlayerMatchStats[]> {
+  const items: PlayerMatchStats[] = [];
+  let exclusiveStartKey: Record<string, any> | undefined;
+
+  do {
+    const page = await dynamoClient.query<PlayerMatchStats>(
+      'events',
+      'pk = :pk AND begins_with(sk, :playerPrefix)',
+      { ':pk': partitionKey, ':playerPrefix': `${PLAYER_SORT_KEY_PREFIX}#` },
+      { consistentRead: true, exclusiveStartKey }
+    );
+    items.push(...page.items);
+    exclusiveStartKey = page.lastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return items;
+}
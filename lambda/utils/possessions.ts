@@ -0,0 +1,179 @@
+// File: utils/possessions.ts
+import { MatchState } from '../dtos/match-state';
+import { PossessionChain, PossessionEnd, PossessionMoment, PossessionSplit } from '../dtos/possessions';
+import { LIFECYCLE_EVENT_TYPES } from './match-lifecycle';
+import { resolveTeamName } from './match-state';
+import { scoreShot } from './xg';
+
+// Cards and substitutions happen while the ball is out of play
+const STOPPAGE_EVENT_TYPES = ['card', 'substitution'];
+
+const PERIOD_PARTS: Record<number, PossessionSplit['part']> = {
+  1: 'first_half',
+  2: 'second_half',
+  3: 'extra_time',
+  4: 'extra_time',
+};
+
+const clockSeconds = (moment: PossessionMoment): number | undefined =>
+  typeof moment.minute === 'number' ? moment.minute * 60 + (moment.second || 0) : undefined;
+
+const toMoment = (event: Record<string, any>): PossessionMoment => ({
+  event_id: String(event.event_id),
+  event_type: event.event_type,
+  minute: event.minute,
+  second: event.second,
+  timestamp: event.timestamp,
+});
+
+/**
+ * Groups a match's events into possession chains: consecutive actions of one team
+ * until a turnover, a stoppage or a shot. Passes and shots are actions; a failed
+ * pass or an action of the other team is a turnover; fouls, cards, substitutions
+ * and period markers stop play.
+ * @param state Match state, used to resolve Home / Away to team names
+ * @param events Match events, amendments applied, in match order
+ */
+export function buildPossessionChains(
+  state: Pick<MatchState, 'home_team' | 'away_team'>,
+  events: Record<string, any>[]
+): PossessionChain[] {
+  const chains: PossessionChain[] = [];
+  let open: PossessionChain | undefined;
+
+  const close = (endedBy: PossessionEnd) => {
+    if (!open) {
+      return;
+    }
+    const start = clockSeconds(open.start);
+    const end = clockSeconds(open.end);
+    open.ended_by = endedBy;
+    open.duration_seconds = start !== undefined && end !== undefined ? Math.max(end - start, 0) : 0;
+    chains.push(open);
+    open = undefined;
+  };
+
+  const involve = (chain: PossessionChain, player: unknown) => {
+    if (player && !chain.players.includes(String(player))) {
+      chain.players.push(String(player));
+    }
+  };
+
+  // Starts a chain for the acting team, ending the other team's chain with a turnover
+  const act = (team: string, event: Record<string, any>, player: unknown): PossessionChain => {
+    if (open && open.team !== team) {
+      close('turnover');
+    }
+    const chain: PossessionChain = open || {
+      sequence: chains.length + 1,
+      team,
+      period: event.period,
+      start: toMoment(event),
+      end: toMoment(event),
+      duration_seconds: 0,
+      actions: 0,
+      passes: 0,
+      completed_passes: 0,
+      players: [],
+      ended_by: 'ongoing',
+      xg: 0,
+    };
+    chain.actions++;
+    chain.end = toMoment(event);
+    involve(chain, player);
+    open = chain;
+    return chain;
+  };
+
+  events.forEach((event) => {
+    const team = event.team ? resolveTeamName(state, String(event.team)) : undefined;
+
+    switch (event.event_type) {
+      case 'pass': {
+        if (!team) {
+          break;
+        }
+        const chain = act(team, event, event.from_player);
+        chain.passes++;
+        // Feeds that do not report the outcome only send completed passes
+        if (event.success !== false) {
+          chain.completed_passes++;
+          involve(chain, event.to_player);
+        } else {
+          close(event.out_of_play ? 'out_of_play' : 'turnover');
+        }
+        break;
+      }
+      case 'shot': {
+        if (!team) {
+          break;
+        }
+        const chain = act(team, event, event.player);
+        chain.xg = Math.round((chain.xg + scoreShot(event).xg) * 10000) / 10000;
+        close(event.outcome === 'goal' ? 'goal' : 'shot');
+        break;
+      }
+      case 'goal': {
+        if (event.own_goal || !team) {
+          close('goal');
+          break;
+        }
+        // A goal right after the team's shot is the outcome of that shot
+        const last = chains[chains.length - 1];
+        if (!open && last && last.team === team && last.end.event_type === 'shot') {
+          last.ended_by = 'goal';
+          break;
+        }
+        act(team, event, event.player);
+        close('goal');
+        break;
+      }
+      case 'foul':
+        close('foul');
+        break;
+      default:
+        if (STOPPAGE_EVENT_TYPES.includes(event.event_type)) {
+          close('out_of_play');
+        } else if (LIFECYCLE_EVENT_TYPES.includes(event.event_type)) {
+          close('period_end');
+        }
+    }
+  });
+
+  close('ongoing');
+  return chains;
+}
+
+/**
+ * Possession share of each team per half, extra time and the whole match, from
+ * the time of their chains
+ * @param chains Possession chains of the match
+ * @param teams Teams to report, in order; teams of the chains are added
+ */
+export function summarizePossession(chains: PossessionChain[], teams: string[]): PossessionSplit[] {
+  const allTeams = [...new Set([...teams, ...chains.map((chain) => chain.team)])];
+  const split = (part: PossessionSplit['part'], partChains: PossessionChain[]): PossessionSplit => {
+    const totalSeconds = partChains.reduce((total, chain) => total + chain.duration_seconds, 0);
+    return {
+      part,
+      teams: allTeams.map((team) => {
+        const teamChains = partChains.filter((chain) => chain.team === team);
+        const seconds = teamChains.reduce((total, chain) => total + chain.duration_seconds, 0);
+        return {
+          team,
+          chains: teamChains.length,
+          seconds,
+          percentage: totalSeconds > 0 ? Math.round((seconds / totalSeconds) * 1000) / 10 : null,
+        };
+      }),
+    };
+  };
+
+  const parts: PossessionSplit['part'][] = ['first_half', 'second_half', 'extra_time'];
+  return [
+    ...parts
+      .map((part) => split(part, chains.filter((chain) => chain.period !== undefined && PERIOD_PARTS[chain.period] === part)))
+      .filter((possession) => possession.part !== 'extra_time' || possession.teams.some((team) => team.chains > 0)),
+    split('match', chains),
+  ];
+}
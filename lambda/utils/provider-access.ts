@@ -0,0 +1,83 @@
+// File: utils/provider-access.ts
+import * as crypto from 'crypto';
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { ProviderIdentity } from '../dtos/provider-access';
+
+export const API_KEY_HEADER = 'x-api-key';
+const ALL_COMPETITIONS = '*';
+
+/**
+ * Hashes an API key; only the hash is stored in the providers table
+ * @param apiKey Plain API key sent by the provider
+ * @returns Hex SHA-256 of the key
+ */
+export function hashApiKey(apiKey: string): string {
+  return crypto.createHash('sha256').update(apiKey).digest('hex');
+}
+
+/**
+ * Reads the provider identity the API key authorizer attached to the request
+ * @param event API Gateway request
+ * @returns The identity, or undefined when the route has no authorizer
+ */
+export function getProviderIdentity(event: APIGatewayProxyEvent): ProviderIdentity | undefined {
+  const authorizer = event.requestContext?.authorizer;
+  if (!authorizer?.providerId) {
+    return undefined;
+  }
+
+  let allowedCompetitions: string[] = [];
+  try {
+    // Authorizer context values must be primitives, so the list travels as JSON
+    allowedCompetitions = JSON.parse(authorizer.allowedCompetitions || '[]');
+  } catch {
+    allowedCompetitions = [];
+  }
+
+  return { providerId: String(authorizer.providerId), allowedCompetitions };
+}
+
+/**
+ * Response for a request the authorizer found over its provider's rate limit
+ * @param event API Gateway request
+ * @returns A 429 response with Retry-After, or undefined when the request is within the limit
+ */
+export function getRateLimitRejection(event: APIGatewayProxyEvent): APIGatewayProxyResult | undefined {
+  const authorizer = event.requestContext?.authorizer;
+  // Authorizer context values arrive as strings
+  if (!authorizer || String(authorizer.rateLimited) !== 'true') {
+    return undefined;
+  }
+
+  const retryAfterSeconds = Number(authorizer.retryAfterSeconds) || 1;
+  return {
+    statusCode: 429,
+    headers: { 'Retry-After': String(retryAfterSeconds) },
+    body: JSON.stringify({
+      status: 'rate_limited',
+      message: `Rate limit exceeded, retry after ${retryAfterSeconds} seconds`,
+    }),
+  };
+}
+
+/**
+ * Checks that a provider may send events for an event's competition
+ * @param identity Provider identity, or undefined for unauthenticated routes
+ * @param event Canonical event
+ * @returns An error message when the event is not allowed, otherwise undefined
+ */
+export function checkCompetitionAccess(
+  identity: ProviderIdentity | undefined,
+  event: Record<string, any>
+): string | undefined {
+  if (!identity || identity.allowedCompetitions.includes(ALL_COMPETITIONS)) {
+    return undefined;
+  }
+  if (!event.competition) {
+    return `competition is required for provider ${identity.providerId}`;
+  }
+  if (!identity.allowedCompetitions.includes(String(event.competition))) {
+    return `provider ${identity.providerId} is not allowed to send events for competition ${event.competition}`;
+  }
+  return undefined;
+}
@@ -0,0 +1,71 @@
+// File: utils/rate-limiter.ts
+import { DynamoDBClient } from '../clients/dynamo-client';
+import { Logger } from '../dtos/lambda-utils';
+import { RateLimitConfig, RateLimitDecision, TokenBucket } from '../dtos/provider-access';
+
+export const DEFAULT_RATE_LIMIT: RateLimitConfig = {
+  capacity: 50,
+  refill_per_second: 10,
+};
+
+const MAX_CONFLICT_RETRIES = 3;
+
+/**
+ * Per-provider token bucket stored in DynamoDB. Concurrent authorizer
+ * invocations update the bucket with optimistic concurrency on updated_at.
+ */
+export class TokenBucketRateLimiter {
+  constructor(
+    private readonly dynamoClient: DynamoDBClient,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Takes one token from the provider's bucket
+   * @param providerId Provider the request belongs to
+   * @param config Bucket capacity and refill rate
+   * @returns Whether the request is allowed, and when to retry if it is not
+   */
+  public async consume(providerId: string, config: RateLimitConfig = DEFAULT_RATE_LIMIT): Promise<RateLimitDecision> {
+    const key = { pk: `PROVIDER#${providerId}`, sk: 'RATE_LIMIT' };
+
+    for (let attempt = 0; attempt < MAX_CONFLICT_RETRIES; attempt++) {
+      const now = Date.now();
+      const bucket = await this.dynamoClient.getItem<TokenBucket>('providers', key, { consistentRead: true });
+
+      // Refill for the time elapsed since the last update, up to capacity
+      const elapsedSeconds = bucket ? Math.max(0, now - bucket.updated_at) / 1000 : 0;
+      const available = bucket
+        ? Math.min(config.capacity, bucket.tokens + elapsedSeconds * config.refill_per_second)
+        : config.capacity;
+
+      if (available < 1) {
+        return {
+          allowed: false,
+          remaining: 0,
+          retryAfterSeconds: Math.ceil((1 - available) / config.refill_per_second),
+        };
+      }
+
+      const updated: TokenBucket = { ...key, tokens: available - 1, updated_at: now };
+      try {
+        await this.dynamoClient.putItem('providers', updated, bucket
+          ? {
+              conditionExpression: 'updated_at = :previous',
+              expressionAttributeValues: { ':previous': bucket.updated_at },
+            }
+          : { conditionExpression: 'attribute_not_exists(pk)' });
+        return { allowed: true, remaining: Math.floor(updated.tokens) };
+      } catch (error) {
+        if (!DynamoDBClient.isConditionalCheckFailed(error)) {
+          throw error;
+        }
+        this.logger.debug('Token bucket updated concurrently, retrying', { providerId, attempt });
+      }
+    }
+
+    // Heavy contention on one bucket means the provider is sending faster than we can count
+    this.logger.warn('Token bucket contention, rejecting request', { providerId });
+    return { allowed: false, remaining: 0, retryAfterSeconds: 1 };
+  }
+}
@@ -0,0 +1,374 @@
+// File: utils/replay.ts
+import { AppContext } from '../../lib/utils/app-context';
+import { DynamoDBClient } from '../clients/dynamo-client';
+import { S3Client } from '../clients/s3-client';
+import { AmendmentEvent } from '../dtos/amendments';
+import { MatchState } from '../dtos/match-state';
+import {
+  MatchStateSummary,
+  ReplayError,
+  ReplayMatchReport,
+  ReplayReport,
+  ReplayRequest,
+  ReplayScope
+} from '../dtos/replay';
+import { EventLogger, LambdaUtils, calculateSeason } from './lambda-utils';
+import { EventProcessor } from './event-processor';
+import { PROVIDER_SOURCE_SUFFIX } from './ingestion-pipeline';
+import { applyAmendments, buildAmendmentSortKey, isAmendment } from './amendments';
+import { upcastEvent } from './schema-versions';
+import { applyEventToState, buildMatchStateKey, createMatchState } from './match-state';
+import { MATCH_DIRECTORY_SORT_KEY } from './match-data-access';
+import { normalizeSeason, toMatchResult } from './standings';
+
+// raw-storage archives every event (and amendment) as matches/<match_id>/events/<event_id>.json
+export const RAW_EVENTS_PREFIX = 'matches/';
+export const REPLAY_REPORT_PREFIX = 'replay-reports/';
+
+const RAW_EVENT_KEY = /^matches\/([^/]+)\/events\/[^/]+\.json$/;
+const MAX_REPORTED_ERRORS = 1000;
+const DOWNLOAD_CONCURRENCY = 20;
+
+/**
+ * Checks a replay request
+ * @returns Validation errors; empty when the request can run
+ */
+export function validateReplayRequest(request: ReplayRequest): string[] {
+  const errors: string[] = [];
+  if (!request.match_id && !request.season && !request.from && !request.to) {
+    errors.push('scope requires at least one of match_id, season, from, to');
+  }
+  (['from', 'to'] as const).forEach((field) => {
+    if (request[field] !== undefined && isNaN(new Date(request[field] as string).getTime())) {
+      errors.push(`${field} must be a valid date string`);
+    }
+  });
+  if (request.from && request.to && new Date(request.from) > new Date(request.to)) {
+    errors.push('from must not be after to');
+  }
+  if (request.season && !/^\d{4}[/-]\d{4}$/.test(decodeURIComponent(request.season))) {
+    errors.push('season must look like 2024/2025 or 2024-2025');
+  }
+  return errors;
+}
+
+export function getReplayReportKey(replayId: string): string {
+  return `${REPLAY_REPORT_PREFIX}${replayId}.json`;
+}
+
+/**
+ * Extracts the match id from an archived event key
+ * @returns The match id, or undefined for other objects (provider payloads, reports)
+ */
+export function getMatchIdFromKey(key: string): string | undefined {
+  if (key.endsWith(PROVIDER_SOURCE_SUFFIX)) {
+    return undefined;
+  }
+  return RAW_EVENT_KEY.exec(key)?.[1];
+}
+
+/**
+ * Whether an archived event (not an amendment) falls inside a replay scope
+ */
+export function isEventInScope(event: Record<string, any>, scope: ReplayScope): boolean {
+  if (scope.match_id && String(event.match_id) !== String(scope.match_id)) {
+    return false;
+  }
+  const time = new Date(event.timestamp).getTime();
+  if (scope.season && (isNaN(time) || calculateSeason(event.timestamp) !== normalizeSeason(scope.season))) {
+    return false;
+  }
+  if (scope.from && !(time >= new Date(scope.from).getTime())) {
+    return false;
+  }
+  if (scope.to && !(time <= new Date(scope.to).getTime())) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Picks the archived events of a scope and puts them in replay order: events by
+ * event time, then the amendments of those events by amendment time. Replaying
+ * in match order means no event arrives late.
+ */
+export function selectReplayEvents(events: Record<string, any>[], scope: ReplayScope): Record<string, any>[] {
+  const originals = events
+    .filter((event) => !isAmendment(event) && isEventInScope(event, scope))
+    .sort((a, b) => String(a.timestamp).localeCompare(String(b.timestamp)) || String(a.event_id).localeCompare(String(b.event_id)));
+  const selectedIds = new Set(originals.map((event) => event.event_id));
+  const amendments = events
+    .filter((event) => isAmendment(event) && selectedIds.has(event.parent_id))
+    .sort((a, b) => String(a.amended_at).localeCompare(String(b.amended_at)));
+
+  return [...originals, ...amendments];
+}
+
+/**
+ * Computes the match state a replay of archived events produces, without writing anything
+ */
+export function projectMatchState(matchId: string, events: Record<string, any>[]): MatchState {
+  return applyAmendments(events.map((event) => (isAmendment(event) ? event : upcastEvent(event))))
+    .sort((a, b) => String(a.timestamp).localeCompare(String(b.timestamp)))
+    .reduce(applyEventToState, createMatchState(matchId));
+}
+
+export function summarizeState(state: MatchState): MatchStateSummary {
+  return {
+    status: state.status,
+    score: state.score,
+    goals: state.goals.length,
+    cards: state.cards.length,
+  };
+}
+
+/**
+ * Rebuilds DynamoDB projections from the raw-data archive. Matches are replayed
+ * one at a time through the same EventProcessor as live events, optionally after
+ * purging the match's items; a dry run only compares the archive with what is stored.
+ */
+export class ReplayJob {
+  private readonly s3Client: S3Client;
+  private readonly dynamoClient: DynamoDBClient;
+  private readonly processor: EventProcessor;
+
+  constructor(
+    private readonly appContext: AppContext,
+    utils: LambdaUtils,
+    private readonly logger: EventLogger
+  ) {
+    this.s3Client = new S3Client(appContext);
+    this.dynamoClient = new DynamoDBClient(appContext);
+    this.processor = new EventProcessor(appContext, utils, logger);
+  }
+
+  /**
+   * Runs a replay
+   * @param request Scope and mode
+   * @param replayId Id of the run, used in the report key
+   */
+  public async run(request: ReplayRequest, replayId: string): Promise<ReplayReport> {
+    const scope: ReplayScope = {
+      ...(request.match_id ? { match_id: String(request.match_id) } : {}),
+      ...(request.season ? { season: request.season } : {}),
+      ...(request.from ? { from: request.from } : {}),
+      ...(request.to ? { to: request.to } : {}),
+    };
+    const report: ReplayReport = {
+      replay_id: replayId,
+      scope,
+      dry_run: Boolean(request.dry_run),
+      purge: Boolean(request.purge),
+      status: 'completed',
+      started_at: new Date().toISOString(),
+      completed_at: '',
+      objects: { listed: 0, read: 0, out_of_scope: 0, invalid: 0 },
+      matches: [],
+      errors: [],
+    };
+
+    try {
+      // Keys carry the match id, so a season or date range is replayed one match at a time
+      const prefix = scope.match_id ? `${RAW_EVENTS_PREFIX}${scope.match_id}/events/` : RAW_EVENTS_PREFIX;
+      const keysByMatch = new Map<string, string[]>();
+      (await this.s3Client.listObjectKeys('rawData', prefix)).forEach((key) => {
+        const matchId = getMatchIdFromKey(key);
+        if (matchId) {
+          keysByMatch.set(matchId, [...(keysByMatch.get(matchId) || []), key]);
+          report.objects.listed++;
+        }
+      });
+
+      this.logger.info('Starting replay', { replay_id: replayId, scope, matches: keysByMatch.size, dry_run: report.dry_run });
+
+      const purgedResults = new Map<string, { season: string; competition: string }>();
+      for (const [matchId, keys] of keysByMatch) {
+        const matchReport = await this.replayMatch(matchId, keys, request, report, purgedResults);
+        if (matchReport) {
+          report.matches.push(matchReport);
+        }
+      }
+
+      // Purged results of matches the archive does not finish again must leave the tables too
+      if (!report.dry_run) {
+        for (const { season, competition } of purgedResults.values()) {
+          await this.processor.standings.refreshTable(season, competition);
+        }
+      }
+    } catch (error) {
+      this.logger.error('Replay failed', error instanceof Error ? error : new Error(String(error)), { replay_id: replayId });
+      report.status = 'failed';
+      report.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    report.completed_at = new Date().toISOString();
+    return report;
+  }
+
+  private async replayMatch(
+    matchId: string,
+    keys: string[],
+    request: ReplayRequest,
+    report: ReplayReport,
+    purgedResults: Map<string, { season: string; competition: string }>
+  ): Promise<ReplayMatchReport | undefined> {
+    const archived = await this.readEvents(keys, report);
+    const events = selectReplayEvents(archived, report.scope);
+    report.objects.out_of_scope += archived.length - events.length;
+    if (events.length === 0) {
+      return undefined;
+    }
+
+    // Storage location of every archived item, to compare with what is stored
+    const itemKeys = events.map((event) => (isAmendment(event)
+      ? {
+        pk: this.appContext.eventnameGenerator.generatePartitionKey(event.season, event.match_id),
+        sk: buildAmendmentSortKey(event as AmendmentEvent),
+      }
+      : this.processor.getEventKey(upcastEvent(event))));
+    const partitionKeys = [...new Set(itemKeys.map((key) => key.pk))];
+    const storedKeys = new Set<string>();
+    for (const pk of partitionKeys) {
+      (await this.loadPartitionKeys(pk)).forEach((sk) => storedKeys.add(`${pk}|${sk}`));
+    }
+
+    const stateBefore = await this.dynamoClient.getItem<MatchState>('matches', buildMatchStateKey(matchId), { consistentRead: true });
+    const matchReport: ReplayMatchReport = {
+      match_id: matchId,
+      season: calculateSeason(events[0].timestamp),
+      archived_events: events.filter((event) => !isAmendment(event)).length,
+      archived_amendments: events.filter(isAmendment).length,
+      missing_items: itemKeys.filter((key) => !storedKeys.has(`${key.pk}|${key.sk}`)).length,
+      stored_items: storedKeys.size,
+      processed: 0,
+      skipped: 0,
+      failed: 0,
+      ...(stateBefore ? { state_before: summarizeState(stateBefore) } : {}),
+    };
+
+    if (request.dry_run) {
+      matchReport.state_after = summarizeState(projectMatchState(matchId, events));
+      return matchReport;
+    }
+
+    if (request.purge) {
+      matchReport.purged_items = await this.purgeMatch(matchId, partitionKeys, stateBefore, purgedResults);
+    }
+
+    for (const event of events) {
+      try {
+        const result = await this.processor.process(event);
+        if (result.status === 'success') {
+          matchReport.processed++;
+        } else {
+          matchReport.skipped++;
+        }
+      } catch (error) {
+        matchReport.failed++;
+        this.reportError(report, { event_id: event.event_id, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    const stateAfter = await this.dynamoClient.getItem<MatchState>('matches', buildMatchStateKey(matchId), { consistentRead: true });
+    if (stateAfter) {
+      matchReport.state_after = summarizeState(stateAfter);
+    }
+
+    this.logger.info('Replayed match', {
+      match_id: matchId,
+      processed: matchReport.processed,
+      skipped: matchReport.skipped,
+      failed: matchReport.failed,
+    });
+    return matchReport;
+  }
+
+  // Downloads archived events a few at a time; unreadable or invalid objects are reported and left out
+  private async readEvents(keys: string[], report: ReplayReport): Promise<Record<string, any>[]> {
+    const events: Record<string, any>[] = [];
+
+    for (let offset = 0; offset < keys.length; offset += DOWNLOAD_CONCURRENCY) {
+      const chunk = keys.slice(offset, offset + DOWNLOAD_CONCURRENCY);
+      const objects = await Promise.all(chunk.map(async (key) => {
+        try {
+          const object = await this.s3Client.downloadObject('rawData', key);
+          return { key, event: JSON.parse(String(object.Body)) as Record<string, any> };
+        } catch (error) {
+          return { key, error: error instanceof Error ? error.message : 'Unreadable object' };
+        }
+      }));
+
+      objects.forEach(({ key, event, error }) => {
+        report.objects.read++;
+        const validation = event ? this.processor.validateEvent(event) : undefined;
+        if (!event || !validation?.valid) {
+          report.objects.invalid++;
+          this.reportError(report, { key, error: error || validation!.errors.join(', ') });
+          return;
+        }
+        events.push(event);
+      });
+    }
+
+    return events;
+  }
+
+  private async loadPartitionKeys(partitionKey: string): Promise<string[]> {
+    const sortKeys: string[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const page = await this.dynamoClient.query(
+        'events',
+        'pk = :pk',
+        { ':pk': partitionKey },
+        { consistentRead: true, exclusiveStartKey }
+      );
+      page.items.forEach((item) => sortKeys.push(item.sk));
+      exclusiveStartKey = page.lastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return sortKeys;
+  }
+
+  // Deletes the match's events, amendments and player items, its sequence and state, and its result
+  private async purgeMatch(
+    matchId: string,
+    partitionKeys: string[],
+    stateBefore: MatchState | null,
+    purgedResults: Map<string, { season: string; competition: string }>
+  ): Promise<number> {
+    let purged = 0;
+
+    for (const pk of partitionKeys) {
+      for (const sk of await this.loadPartitionKeys(pk)) {
+        await this.dynamoClient.deleteItem('events', { pk, sk });
+        purged++;
+      }
+    }
+
+    const matchKey = buildMatchStateKey(matchId);
+    for (const sk of ['SEQUENCE', MATCH_DIRECTORY_SORT_KEY, matchKey.sk]) {
+      await this.dynamoClient.deleteItem('matches', { pk: matchKey.pk, sk });
+      purged++;
+    }
+
+    const result = stateBefore?.status === 'finished' ? toMatchResult(stateBefore) : undefined;
+    if (result) {
+      await this.dynamoClient.deleteItem('matches', { pk: result.pk, sk: result.sk });
+      purgedResults.set(`${result.season}|${result.competition}`, { season: result.season, competition: result.competition });
+      purged++;
+    }
+
+    this.logger.info('Purged match items', { match_id: matchId, purged });
+    return purged;
+  }
+
+  private reportError(report: ReplayReport, error: ReplayError): void {
+    if (report.errors.length < MAX_REPORTED_ERRORS) {
+      report.errors.push(error);
+    } else {
+      report.errors_truncated = true;
+    }
+  }
+}
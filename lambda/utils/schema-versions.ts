@@ -0,0 +1,103 @@
+// File: utils/schema-versions.ts
+import { SchemaUpcaster } from '../dtos/event-schemas';
+import { CURRENT_SCHEMA_VERSION, normalizeEventType } from './event-schemas';
+
+// Fields that reference a player; since v3 each has a matching <field>_id
+export const PLAYER_REFERENCE_FIELDS = ['player', 'from_player', 'to_player', 'player_in', 'player_out', 'against_player'];
+
+// Events stored before schema_version existed use the v1 shape
+const UNVERSIONED_SCHEMA_VERSION = 1;
+
+/**
+ * Parses a v1 score: "2-1" strings or flat home_score / away_score fields
+ */
+function parseLegacyScore(event: Record<string, any>): { home: number; away: number } | undefined {
+  if (typeof event.score === 'string') {
+    const match = event.score.trim().match(/^(\d+)\s*[-:]\s*(\d+)$/);
+    return match ? { home: Number(match[1]), away: Number(match[2]) } : undefined;
+  }
+  if (event.home_score !== undefined && event.away_score !== undefined) {
+    return { home: Number(event.home_score), away: Number(event.away_score) };
+  }
+  return undefined;
+}
+
+/**
+ * Registry of upcasters, keyed by the version they convert from
+ */
+const UPCASTERS: Record<number, SchemaUpcaster> = {
+  1: {
+    fromVersion: 1,
+    description: 'Nested score object instead of "2-1" strings or home_score / away_score',
+    upcast: (event) => {
+      const score = parseLegacyScore(event);
+      if (!score) {
+        return event;
+      }
+      const { home_score, away_score, ...rest } = event;
+      return { ...rest, score };
+    },
+  },
+  2: {
+    fromVersion: 2,
+    description: 'Player references carry a player id; the reference itself stays as the display name',
+    upcast: (event) => {
+      const upcast = { ...event };
+      PLAYER_REFERENCE_FIELDS.forEach((field) => {
+        const idField = `${field}_id`;
+        if (upcast[field] !== undefined && upcast[idField] === undefined) {
+          // Feeds that sent no id reference players by a stable name or provider id
+          upcast[idField] = String(upcast[field]);
+        }
+      });
+      return upcast;
+    },
+  },
+};
+
+/**
+ * Whether a value is a JSON object; null, arrays and primitives are not events
+ */
+export function isEventObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads the schema version of an event
+ * @returns The version, or undefined when it is not a version this code knows
+ */
+export function getSchemaVersion(event: Record<string, any>): number | undefined {
+  if (!isEventObject(event)) {
+    return undefined;
+  }
+  const version = event.schema_version ?? UNVERSIONED_SCHEMA_VERSION;
+  return Number.isInteger(version) && version >= 1 && version <= CURRENT_SCHEMA_VERSION ? version : undefined;
+}
+
+/**
+ * Converts an event of any known schema version to the current shape
+ * @param event Event as sent or as stored (S3 raw object, DynamoDB item)
+ * @returns The event in the current shape with schema_version set; events with an
+ *          unknown version and values that are not objects are returned unchanged so
+ *          that validation can reject them
+ */
+export function upcastEvent(event: Record<string, any>): Record<string, any> {
+  if (!isEventObject(event)) {
+    return event;
+  }
+
+  // Legacy event types (yellow_card, red_card) are accepted at every version
+  const normalized = normalizeEventType(event);
+  let version = getSchemaVersion(normalized);
+  if (version === undefined) {
+    return normalized;
+  }
+
+  let upcast: Record<string, any> = normalized;
+  while (version < CURRENT_SCHEMA_VERSION) {
+    upcast = UPCASTERS[version].upcast(upcast);
+    version++;
+  }
+
+  return { ...upcast, schema_version: CURRENT_SCHEMA_VERSION };
+}
@@ -0,0 +1,322 @@
+// File: utils/standings.ts
+import { DynamoDBClient } from '../clients/dynamo-client';
+import { Logger } from '../dtos/lambda-utils';
+import { MatchState, MatchStateChange } from '../dtos/match-state';
+import {
+  MatchOutcome,
+  MatchResultRecord,
+  RankedStandingsRow,
+  StandingsRecord,
+  StandingsRow,
+  TieBreaker
+} from '../dtos/standings';
+
+// Competition of matches whose events do not name one
+export const DEFAULT_COMPETITION = 'default';
+
+export const TIE_BREAKERS: TieBreaker[] = ['goal_difference', 'goals_for', 'goals_against', 'wins', 'head_to_head'];
+export const DEFAULT_TIE_BREAKERS: TieBreaker[] = ['goal_difference', 'goals_for', 'head_to_head'];
+
+const POINTS: Record<MatchOutcome, number> = { W: 3, D: 1, L: 0 };
+const FORM_LENGTH = 5;
+const MAX_CONFLICT_RETRIES = 5;
+
+export function buildStandingsPartitionKey(season: string): string {
+  return `STANDINGS#${season}`;
+}
+
+export function buildResultSortKey(competition: string, matchId: string | number): string {
+  return `${competition}#RESULT#${matchId}`;
+}
+
+export function buildTableSortKey(competition: string): string {
+  return `${competition}#TABLE`;
+}
+
+/**
+ * Seasons are stored as 2024/2025 (see calculateSeason); URLs use 2024-2025
+ */
+export function normalizeSeason(season: string): string {
+  return decodeURIComponent(season).replace('-', '/');
+}
+
+/**
+ * Parses a comma-separated tie-breaker list
+ * @returns The tie-breakers, or the unknown names when the list is invalid
+ */
+export function parseTieBreakers(value: string | undefined): { tieBreakers: TieBreaker[]; invalid: string[] } {
+  if (!value) {
+    return { tieBreakers: DEFAULT_TIE_BREAKERS, invalid: [] };
+  }
+  const names = value.split(',').map((name) => name.trim()).filter(Boolean);
+  return {
+    tieBreakers: names.filter((name): name is TieBreaker => TIE_BREAKERS.includes(name as TieBreaker)),
+    invalid: names.filter((name) => !TIE_BREAKERS.includes(name as TieBreaker)),
+  };
+}
+
+/**
+ * Builds the result record of a finished match
+ * @returns The result, or undefined when the match state lacks the season or team names
+ */
+export function toMatchResult(state: MatchState): MatchResultRecord | undefined {
+  if (!state.season || !state.home_team || !state.away_team) {
+    return undefined;
+  }
+  const competition = state.competition || DEFAULT_COMPETITION;
+
+  return {
+    pk: buildStandingsPartitionKey(state.season),
+    sk: buildResultSortKey(competition, state.match_id),
+    season: state.season,
+    competition,
+    match_id: state.match_id,
+    home_team: state.home_team,
+    away_team: state.away_team,
+    home_goals: state.score.home,
+    away_goals: state.score.away,
+    finished_at: state.last_event_timestamp || state.updated_at,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Computes a league table from match results
+ * @param results Results of one competition and season
+ * @returns One row per team, ordered by points, goal difference, goals scored and name
+ */
+export function computeStandingsRows(results: MatchResultRecord[]): StandingsRow[] {
+  const rows = new Map<string, StandingsRow>();
+  const outcomes = new Map<string, Array<{ outcome: MatchOutcome; finished_at: string }>>();
+
+  const record = (team: string, goalsFor: number, goalsAgainst: number, finishedAt: string) => {
+    const row = rows.get(team) || {
+      team, played: 0, won: 0, drawn: 0, lost: 0,
+      goals_for: 0, goals_against: 0, goal_difference: 0, points: 0, form: [],
+    };
+    const outcome: MatchOutcome = goalsFor > goalsAgainst ? 'W' : goalsFor === goalsAgainst ? 'D' : 'L';
+
+    row.played++;
+    row.won += outcome === 'W' ? 1 : 0;
+    row.drawn += outcome === 'D' ? 1 : 0;
+    row.lost += outcome === 'L' ? 1 : 0;
+    row.goals_for += goalsFor;
+    row.goals_against += goalsAgainst;
+    row.goal_difference = row.goals_for - row.goals_against;
+    row.points += POINTS[outcome];
+    rows.set(team, row);
+    outcomes.set(team, [...(outcomes.get(team) || []), { outcome, finished_at: finishedAt }]);
+  };
+
+  results.forEach((result) => {
+    record(result.home_team, result.home_goals, result.away_goals, result.finished_at);
+    record(result.away_team, result.away_goals, result.home_goals, result.finished_at);
+  });
+
+  rows.forEach((row) => {
+    row.form = (outcomes.get(row.team) || [])
+      .sort((a, b) => b.finished_at.localeCompare(a.finished_at))
+      .slice(0, FORM_LENGTH)
+      .map((entry) => entry.outcome);
+  });
+
+  return orderRows([...rows.values()], ['goal_difference', 'goals_for'], results);
+}
+
+/**
+ * Ranks a league table. Points always come first; teams level on points are
+ * separated by the tie-breakers in order, and finally by name. Head-to-head
+ * compares points, goal difference and goals scored in the matches between the
+ * teams still level at that step.
+ */
+export function rankStandings(
+  rows: StandingsRow[],
+  results: MatchResultRecord[],
+  tieBreakers: TieBreaker[] = DEFAULT_TIE_BREAKERS
+): RankedStandingsRow[] {
+  return orderRows(rows, tieBreakers, results).map((row, index) => ({ ...row, position: index + 1 }));
+}
+
+type RankingCriterion = TieBreaker | 'points';
+
+function orderRows(rows: StandingsRow[], tieBreakers: TieBreaker[], results: MatchResultRecord[]): StandingsRow[] {
+  return orderByCriteria(rows, ['points', ...tieBreakers], results);
+}
+
+function orderByCriteria(rows: StandingsRow[], criteria: RankingCriterion[], results: MatchResultRecord[]): StandingsRow[] {
+  if (rows.length <= 1) {
+    return rows;
+  }
+  if (criteria.length === 0) {
+    return [...rows].sort((a, b) => a.team.localeCompare(b.team));
+  }
+
+  const [criterion, ...remaining] = criteria;
+  const keyOf = criterion === 'head_to_head' ? headToHeadKeys(rows, results) : (row: StandingsRow) => statKey(row, criterion);
+  const keyed = rows.map((row) => ({ row, key: keyOf(row) }));
+  keyed.sort((a, b) => compareKeys(b.key, a.key));
+
+  // Teams still level on this criterion are separated by the next ones
+  const ordered: StandingsRow[] = [];
+  let group: typeof keyed = [];
+  const flush = () => {
+    ordered.push(...orderByCriteria(group.map((entry) => entry.row), remaining, results));
+    group = [];
+  };
+  keyed.forEach((entry) => {
+    if (group.length > 0 && compareKeys(group[0].key, entry.key) !== 0) {
+      flush();
+    }
+    group.push(entry);
+  });
+  flush();
+
+  return ordered;
+}
+
+function statKey(row: StandingsRow, criterion: Exclude<RankingCriterion, 'head_to_head'>): number[] {
+  switch (criterion) {
+    case 'points':
+      return [row.points];
+    case 'goal_difference':
+      return [row.goal_difference];
+    case 'goals_for':
+      return [row.goals_for];
+    case 'goals_against':
+      // Fewer goals conceded ranks higher
+      return [-row.goals_against];
+    case 'wins':
+      return [row.won];
+  }
+}
+
+function headToHeadKeys(rows: StandingsRow[], results: MatchResultRecord[]): (row: StandingsRow) => number[] {
+  const teams = new Set(rows.map((row) => row.team));
+  const miniTable = new Map(computeStandingsRows(
+    results.filter((result) => teams.has(result.home_team) && teams.has(result.away_team))
+  ).map((row) => [row.team, row]));
+
+  return (row) => {
+    const mini = miniTable.get(row.team);
+    return mini ? [mini.points, mini.goal_difference, mini.goals_for] : [0, 0, 0];
+  };
+}
+
+function compareKeys(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const difference = (a[i] ?? 0) - (b[i] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Records match results when a match reaches fulltime and keeps the league
+ * table of its competition and season in step with them. The table is
+ * recomputed from all results and written with optimistic concurrency, so
+ * matches finishing at the same time are all counted.
+ */
+export class StandingsUpdater {
+  constructor(
+    private readonly dynamoClient: DynamoDBClient,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Stores, updates or removes the result of a match after a state change
+   * @param change Match state before and after the update
+   */
+  public async recordResult(change: MatchStateChange): Promise<void> {
+    const { previous, state } = change;
+    const wasFinished = previous?.status === 'finished';
+    const isFinished = state.status === 'finished';
+
+    if (isFinished) {
+      const unchanged = wasFinished &&
+        previous!.score.home === state.score.home &&
+        previous!.score.away === state.score.away;
+      if (unchanged) {
+        return;
+      }
+
+      const result = toMatchResult(state);
+      if (!result) {
+        this.logger.warn('Finished match has no season or team names; standings not updated', { match_id: state.match_id });
+        return;
+      }
+      await this.dynamoClient.putItem('matches', result);
+      await this.refreshTable(result.season, result.competition);
+    } else if (wasFinished) {
+      // A retracted fulltime reopens the match
+      const result = toMatchResult(previous!);
+      if (result) {
+        await this.dynamoClient.deleteItem('matches', { pk: result.pk, sk: result.sk });
+        await this.refreshTable(result.season, result.competition);
+      }
+    }
+  }
+
+  /**
+   * Recomputes the league table of a competition and season from its stored results
+   */
+  public async refreshTable(season: string, competition: string): Promise<void> {
+    const pk = buildStandingsPartitionKey(season);
+    const key = { pk, sk: buildTableSortKey(competition) };
+
+    for (let attempt = 0; attempt < MAX_CONFLICT_RETRIES; attempt++) {
+      const existing = await this.dynamoClient.getItem<StandingsRecord>('matches', key, { consistentRead: true });
+      const results = await loadMatchResults(this.dynamoClient, season, competition);
+      const table: StandingsRecord = {
+        ...key,
+        season,
+        competition,
+        rows: computeStandingsRows(results),
+        matches: results.length,
+        version: (existing?.version ?? 0) + 1,
+        updated_at: new Date().toISOString(),
+      };
+
+      try {
+        await this.dynamoClient.putItem('matches', table, existing
+          ? { conditionExpression: 'version = :version', expressionAttributeValues: { ':version': existing.version } }
+          : { conditionExpression: 'attribute_not_exists(pk)' });
+        this.logger.info('Standings updated', { season, competition, matches: results.length });
+        return;
+      } catch (error) {
+        if (!DynamoDBClient.isConditionalCheckFailed(error)) {
+          throw error;
+        }
+        this.logger.debug('Standings updated concurrently, retrying', { season, competition, attempt });
+      }
+    }
+
+    throw new Error(`Could not update standings of ${competition} ${season} after ${MAX_CONFLICT_RETRIES} attempts`);
+  }
+}
+
+/**
+ * Loads the match results of one competition and season
+ */
+export async function loadMatchResults(
+  dynamoClient: DynamoDBClient,
+  season: string,
+  competition: string
+): Promise<MatchResultRecord[]> {
+  const results: MatchResultRecord[] = [];
+  let exclusiveStartKey: Record<string, any> | undefined;
+
+  do {
+    const page = await dynamoClient.query<MatchResultRecord>(
+      'matches',
+      'pk = :pk AND begins_with(sk, :resultPrefix)',
+      { ':pk': buildStandingsPartitionKey(season), ':resultPrefix': `${competition}#RESULT#` },
+      { consistentRead: true, exclusiveStartKey }
+    );
+    results.push(...page.items);
+    exclusiveStartKey = page.lastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return results;
+}
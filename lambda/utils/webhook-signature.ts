@@ -0,0 +1,55 @@
+// File: utils/webhook-signature.ts
+import * as crypto from 'crypto';
+import { WebhookSignatureInput, WebhookSignatureResult } from '../dtos/webhook-signature';
+
+export const SIGNATURE_HEADER = 'X-Signature';
+export const TIMESTAMP_HEADER = 'X-Timestamp';
+export const DEFAULT_TOLERANCE_SECONDS = 300;
+
+const SIGNATURE_PREFIX = 'sha256=';
+
+/**
+ * Computes the signature a provider sends for a webhook body
+ * @param secret Provider signing secret
+ * @param timestamp Epoch seconds sent in X-Timestamp
+ * @param rawBody Request body exactly as received
+ * @returns Header value: sha256=<hex HMAC of "<timestamp>.<body>">
+ */
+export function signWebhookPayload(secret: string, timestamp: string, rawBody: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+  return `${SIGNATURE_PREFIX}${digest}`;
+}
+
+/**
+ * Hex digest of a verified X-Signature header, which identifies the delivery
+ */
+export function getSignatureDigest(signature: string): string {
+  return signature.trim().toLowerCase().slice(SIGNATURE_PREFIX.length);
+}
+
+/**
+ * Verifies a webhook signature and rejects requests signed outside the tolerance window.
+ * The timestamp is part of the signed content, so it cannot be refreshed on a replayed request.
+ */
+export function verifyWebhookSignature(input: WebhookSignatureInput): WebhookSignatureResult {
+  const { rawBody, signature, timestamp, secret, toleranceSeconds } = input;
+  const now = input.now ?? Math.floor(Date.now() / 1000);
+
+  if (!signature || !signature.startsWith(SIGNATURE_PREFIX)) {
+    return { valid: false, reason: `${SIGNATURE_HEADER} header must be formatted as ${SIGNATURE_PREFIX}<hex digest>` };
+  }
+  if (!timestamp || !/^\d+$/.test(timestamp)) {
+    return { valid: false, reason: `${TIMESTAMP_HEADER} header must be a Unix timestamp in seconds` };
+  }
+  if (Math.abs(now - Number(timestamp)) > toleranceSeconds) {
+    return { valid: false, reason: `Request timestamp is outside the ${toleranceSeconds} second tolerance window` };
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, rawBody));
+  const received = Buffer.from(`${SIGNATURE_PREFIX}${getSignatureDigest(signature)}`);
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return { valid: false, reason: 'Signature does not match' };
+  }
+
+  return { valid: true };
+}
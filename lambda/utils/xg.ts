@@ -0,0 +1,126 @@
+// File: utils/xg.ts
+import { MatchState, ShotRecord } from '../dtos/match-state';
+import { PlayerXG, ShotSummary, TeamXG, XGModelCoefficients, XGTotals } from '../dtos/xg';
+import { PITCH_LENGTH, PITCH_WIDTH, PitchPosition } from './pitch';
+
+// Stored on each shot next to its xG, so values from different model versions can be told apart
+export const XG_MODEL_VERSION = 'logistic-v1';
+
+export const XG_COEFFICIENTS: XGModelCoefficients = {
+  intercept: -1.1,
+  distance: -0.1,
+  angle: 1.5,
+  body_part: { foot: 0, head: -0.9, other: -0.6 },
+  situation: { open_play: 0, set_piece: -0.2 },
+};
+
+// Penalties are not modelled from the position: every penalty is worth the same
+export const PENALTY_XG = 0.76;
+
+const GOAL_WIDTH = 7.32;
+const GOAL_CENTRE: PitchPosition = { x: PITCH_LENGTH, y: PITCH_WIDTH / 2 };
+const ON_TARGET_OUTCOMES = ['goal', 'saved'];
+
+const round = (value: number, decimals: number): number => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+/**
+ * Distance in metres from a position to the centre of the goal being attacked
+ */
+export function getShotDistance(position: PitchPosition): number {
+  return Math.hypot(GOAL_CENTRE.x - position.x, GOAL_CENTRE.y - position.y);
+}
+
+/**
+ * Angle in radians between the two goalposts, seen from a position
+ */
+export function getShotAngle(position: PitchPosition): number {
+  const depth = GOAL_CENTRE.x - position.x;
+  const nearPost = Math.atan2(GOAL_CENTRE.y - GOAL_WIDTH / 2 - position.y, depth);
+  const farPost = Math.atan2(GOAL_CENTRE.y + GOAL_WIDTH / 2 - position.y, depth);
+  return Math.abs(farPost - nearPost);
+}
+
+/**
+ * Expected-goals value of a shot. Deterministic: the same shot always gets the same value.
+ * @param shot Shot event (or record) with position, body_part and situation
+ * @returns Probability of the shot being scored, rounded to 4 decimals
+ */
+export function computeShotXG(shot: Pick<ShotRecord, 'position' | 'body_part' | 'situation'>): number {
+  if (shot.situation === 'penalty') {
+    return PENALTY_XG;
+  }
+
+  const z = XG_COEFFICIENTS.intercept +
+    XG_COEFFICIENTS.distance * getShotDistance(shot.position) +
+    XG_COEFFICIENTS.angle * getShotAngle(shot.position) +
+    (XG_COEFFICIENTS.body_part[shot.body_part] ?? 0) +
+    (XG_COEFFICIENTS.situation[shot.situation] ?? 0);
+
+  return round(1 / (1 + Math.exp(-z)), 4);
+}
+
+/**
+ * xG fields stored on a shot event when it is processed
+ * @param event Validated shot event
+ */
+export function scoreShot(event: Record<string, any>): { xg: number; xg_model: string } {
+  return {
+    xg: computeShotXG({ position: event.position, body_part: event.body_part, situation: event.situation }),
+    xg_model: XG_MODEL_VERSION,
+  };
+}
+
+export function isShotOnTarget(shot: Pick<ShotRecord, 'outcome'>): boolean {
+  return ON_TARGET_OUTCOMES.includes(shot.outcome as string);
+}
+
+function addShot(totals: XGTotals, shot: ShotRecord): void {
+  totals.shots++;
+  totals.shots_on_target += isShotOnTarget(shot) ? 1 : 0;
+  totals.goals += shot.outcome === 'goal' ? 1 : 0;
+  totals.xg = round(totals.xg + shot.xg, 4);
+}
+
+const emptyTotals = (): XGTotals => ({ shots: 0, shots_on_target: 0, goals: 0, xg: 0 });
+
+/**
+ * Totals the shots of a match per team and per player
+ * @param state Match state
+ * @returns Teams in home / away order, players by xG (ties by name), and the shots in match order
+ */
+export function summarizeXG(state: MatchState): { teams: TeamXG[]; players: PlayerXG[]; shots: ShotSummary[] } {
+  const shots = state.shots || [];
+  const teams = new Map<string, TeamXG>(
+    [state.home_team, state.away_team]
+      .filter((team): team is string => Boolean(team))
+      .map((team) => [team, { team, ...emptyTotals() }])
+  );
+  const players = new Map<string, PlayerXG>();
+
+  shots.forEach((shot) => {
+    const team = teams.get(shot.team) || { team: shot.team, ...emptyTotals() };
+    addShot(team, shot);
+    teams.set(shot.team, team);
+
+    const playerId = shot.player_id || shot.player;
+    const player = players.get(playerId) || { player_id: playerId, player: shot.player, team: shot.team, ...emptyTotals() };
+    addShot(player, shot);
+    players.set(playerId, player);
+  });
+
+  return {
+    teams: [...teams.values()],
+    players: [...players.values()].sort((a, b) => b.xg - a.xg || a.player.localeCompare(b.player)),
+    shots: shots.map((shot) => ({
+      event_id: shot.event_id,
+      team: shot.team,
+      player: shot.player,
+      minute: shot.minute,
+      body_part: shot.body_part,
+      situation: shot.situation,
+      outcome: shot.outcome,
+      distance: round(getShotDistance(shot.position), 1),
+      xg: shot.xg,
+    })),
+  };
+}
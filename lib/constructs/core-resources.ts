@@ -16,6 +16,8 @@ export class CoreResourcesConstruct extends Construct {
   public readonly queryLambdaExecutionRole: iam.Role;
   public readonly eventsTable: dynamodb.Table;
   public readonly matchesTable: dynamodb.Table;
+  public readonly idempotencyTable: dynamodb.Table;
+  public readonly providersTable: dynamodb.Table;
   public readonly eventBucket: s3.Bucket;
   public readonly apiGateway: apigateway.RestApi;
 
@@ -61,8 +63,28 @@ export class CoreResourcesConstruct extends Construct {
       billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
       removalPolicy: cdk.RemovalPolicy.RETAIN,
       stream: dynamodb.StreamViewType.NEW_AND_OLD_IMAGES,
+      timeToLiveAttribute: 'expires_at', // ✅ Expires the COUNTED# markers of player statistics
     });
 
+    // ✅ **Look up an event by event_id (amendments target events by id)**
+    this.eventsTable.addGlobalSecondaryIndex({
+      indexName: 'EventIdIndex',
+      partitionKey: { name: 'event_id', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
+    // ✅ **Read a match's events in match order (pk + match_order), not arrival order**
+    // CloudFormation adds one GSI per update to an existing table: stacks deployed before
+    // both indexes existed first deploy with -c eventsTableIndexStage=1 (scripts/deploy-events-indexes.sh)
+    if (String(this.node.tryGetContext('eventsTableIndexStage')) !== '1') {
+      this.eventsTable.addGlobalSecondaryIndex({
+        indexName: 'MatchOrderIndex',
+        partitionKey: { name: 'pk', type: dynamodb.AttributeType.STRING },
+        sortKey: { name: 'match_order', type: dynamodb.AttributeType.STRING },
+        projectionType: dynamodb.ProjectionType.ALL,
+      });
+    }
+
     this.matchesTable = new dynamodb.Table(this, 'MatchesTable', {
       tableName: dynamoTables.matches,  // ✅ Uses AppContext for consistency
       partitionKey: { name: 'pk', type: dynamodb.AttributeType.STRING },
@@ -72,9 +94,30 @@ export class CoreResourcesConstruct extends Construct {
       stream: dynamodb.StreamViewType.NEW_AND_OLD_IMAGES,
     });
 
+    // ✅ **Idempotency keys for ingestion (expired by DynamoDB TTL)**
+    this.idempotencyTable = new dynamodb.Table(this, 'IdempotencyTable', {
+      tableName: dynamoTables.idempotency,  // ✅ Uses AppContext for consistency
+      partitionKey: { name: 'pk', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'sk', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      timeToLiveAttribute: 'expires_at',
+    });
+
+    // ✅ **Data provider API keys and rate-limit buckets**
+    this.providersTable = new dynamodb.Table(this, 'ProvidersTable', {
+      tableName: dynamoTables.providers,  // ✅ Uses AppContext for consistency
+      partitionKey: { name: 'pk', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'sk', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
     // ✅ **Grant Core Lambda Permissions**
     this.eventsTable.grantReadWriteData(this.lambdaExecutionRole);
     this.matchesTable.grantReadWriteData(this.lambdaExecutionRole);
+    this.idempotencyTable.grantReadWriteData(this.lambdaExecutionRole);
+    this.providersTable.grantReadWriteData(this.lambdaExecutionRole);
     this.eventBus.grantPutEventsTo(this.lambdaExecutionRole);
     this.dlq.grantSendMessages(this.lambdaExecutionRole);
 
@@ -2,6 +2,8 @@ import * as cdk from 'aws-cdk-lib';
 import { Construct } from 'constructs';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
 import * as apigateway from 'aws-cdk-lib/aws-apigateway';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import * as s3n from 'aws-cdk-lib/aws-s3-notifications';
 import { AppContext } from './../utils/app-context';
 import { NodejsFunction } from 'aws-cdk-lib/aws-lambda-nodejs';
 import { CoreResourcesConstruct } from './core-resources';
@@ -15,6 +17,11 @@ export interface EventIngestionProps {
 
 export class EventIngestionConstruct extends Construct {
   public readonly ingestLambda: lambda.Function;
+  public readonly batchIngestLambda: lambda.Function;
+  public readonly apiKeyAuthorizerLambda: lambda.Function;
+  public readonly webhookIngestLambda: lambda.Function;
+  public readonly bulkImportLambda: lambda.Function;
+  public readonly amendmentLambda: lambda.Function;
   public readonly api: apigateway.RestApi; // ✅ Expose API Gateway
 
   constructor(scope: Construct, id: string, props: EventIngestionProps) {
@@ -42,6 +49,107 @@ export class EventIngestionConstruct extends Construct {
       },
     });
 
+    // ✅ **Lambda for Storing Batches of Raw Events in S3**
+    this.batchIngestLambda = new NodejsFunction(this, 'StoreMatchEventBatchLambda', {
+      functionName: `${constructName}-batch`,
+      entry: path.join(__dirname, '../../lambda/handler/batch-storage.ts'),
+      handler: 'handler',
+      runtime: lambda.Runtime.NODEJS_18_X,
+      role: coreResources.lambdaExecutionRole, // ✅ Use write-access role
+      timeout: cdk.Duration.seconds(29), // ✅ API Gateway integration limit
+      memorySize: 512,
+      logRetention: cdk.aws_logs.RetentionDays.ONE_WEEK,
+      bundling: { externalModules: [], target: 'es2018' },
+      environment: {
+        EVENT_BUCKET_NAME: coreResources.eventBucket.bucketName,
+        EVENT_BUS_NAME: eventBusName,
+        EVENT_DLQ_URL: coreResources.dlq.queueUrl,
+        PROJECT_NAME: project,
+        ENVIRONMENT: environment,
+      },
+    });
+
+    // ✅ **Lambda Authorizer for Provider API Keys (per-provider rate limits)**
+    this.apiKeyAuthorizerLambda = new NodejsFunction(this, 'ApiKeyAuthorizerLambda', {
+      functionName: `${constructName}-authorizer`,
+      entry: path.join(__dirname, '../../lambda/handler/api-key-authorizer.ts'),
+      handler: 'handler',
+      runtime: lambda.Runtime.NODEJS_18_X,
+      role: coreResources.lambdaExecutionRole,
+      logRetention: cdk.aws_logs.RetentionDays.ONE_WEEK,
+      bundling: { externalModules: [], target: 'es2018' },
+      environment: {
+        PROJECT_NAME: project,
+        ENVIRONMENT: environment,
+      },
+    });
+
+    // ✅ **Lambda for Signed Provider Webhooks**
+    this.webhookIngestLambda = new NodejsFunction(this, 'WebhookIngestLambda', {
+      functionName: `${constructName}-webhook`,
+      entry: path.join(__dirname, '../../lambda/handler/webhook-ingestion.ts'),
+      handler: 'handler',
+      runtime: lambda.Runtime.NODEJS_18_X,
+      role: coreResources.lambdaExecutionRole, // ✅ Use write-access role
+      timeout: cdk.Duration.seconds(29), // ✅ API Gateway integration limit
+      memorySize: 512,
+      logRetention: cdk.aws_logs.RetentionDays.ONE_WEEK,
+      bundling: { externalModules: [], target: 'es2018' },
+      environment: {
+        EVENT_BUCKET_NAME: coreResources.eventBucket.bucketName,
+        EVENT_BUS_NAME: eventBusName,
+        EVENT_DLQ_URL: coreResources.dlq.queueUrl,
+        WEBHOOK_TOLERANCE_SECONDS: '300',
+        PROJECT_NAME: project,
+        ENVIRONMENT: environment,
+      },
+    });
+
+    // ✅ **Lambda for Bulk Historical Imports (CSV / NDJSON under imports/)**
+    this.bulkImportLambda = new NodejsFunction(this, 'BulkImportLambda', {
+      functionName: `${constructName}-bulk-import`,
+      entry: path.join(__dirname, '../../lambda/handler/bulk-import.ts'),
+      handler: 'handler',
+      runtime: lambda.Runtime.NODEJS_18_X,
+      role: coreResources.lambdaExecutionRole, // ✅ Use write-access role
+      timeout: cdk.Duration.minutes(15), // ✅ Large season files are streamed in one invocation
+      memorySize: 1024,
+      logRetention: cdk.aws_logs.RetentionDays.ONE_WEEK,
+      bundling: { externalModules: [], target: 'es2018' },
+      environment: {
+        EVENT_BUCKET_NAME: coreResources.eventBucket.bucketName,
+        EVENT_BUS_NAME: eventBusName,
+        EVENT_DLQ_URL: coreResources.dlq.queueUrl,
+        PROJECT_NAME: project,
+        ENVIRONMENT: environment,
+      },
+    });
+
+    // ✅ **Run an import for every file dropped under imports/ (reports go to import-reports/)**
+    coreResources.eventBucket.addEventNotification(
+      s3.EventType.OBJECT_CREATED,
+      new s3n.LambdaDestination(this.bulkImportLambda),
+      { prefix: 'imports/' }
+    );
+
+    // ✅ **Lambda for Event Corrections and Retractions**
+    this.amendmentLambda = new NodejsFunction(this, 'EventAmendmentLambda', {
+      functionName: `${constructName}-amendments`,
+      entry: path.join(__dirname, '../../lambda/handler/event-amendments.ts'),
+      handler: 'handler',
+      runtime: lambda.Runtime.NODEJS_18_X,
+      role: coreResources.lambdaExecutionRole, // ✅ Use write-access role
+      logRetention: cdk.aws_logs.RetentionDays.ONE_WEEK,
+      bundling: { externalModules: [], target: 'es2018' },
+      environment: {
+        EVENT_BUCKET_NAME: coreResources.eventBucket.bucketName,
+        EVENT_BUS_NAME: eventBusName,
+        EVENT_DLQ_URL: coreResources.dlq.queueUrl,
+        PROJECT_NAME: project,
+        ENVIRONMENT: environment,
+      },
+    });
+
     // ✅ **Allow EventBridge to Invoke Lambda**
     this.ingestLambda.addPermission('AllowEventBridgeInvoke', {
       principal: new cdk.aws_iam.ServicePrincipal('events.amazonaws.com'),
@@ -51,6 +159,35 @@ export class EventIngestionConstruct extends Construct {
     // ✅ **Grant permissions**
     coreResources.eventBus.grantPutEventsTo(this.ingestLambda);
     coreResources.eventBucket.grantWrite(this.ingestLambda);
+    coreResources.idempotencyTable.grantReadWriteData(this.ingestLambda);
+    coreResources.eventBus.grantPutEventsTo(this.batchIngestLambda);
+    coreResources.eventBucket.grantWrite(this.batchIngestLambda);
+    coreResources.dlq.grantSendMessages(this.batchIngestLambda);
+    coreResources.providersTable.grantReadWriteData(this.apiKeyAuthorizerLambda);
+    coreResources.eventBus.grantPutEventsTo(this.webhookIngestLambda);
+    coreResources.eventBucket.grantWrite(this.webhookIngestLambda);
+    coreResources.dlq.grantSendMessages(this.webhookIngestLambda);
+    coreResources.providersTable.grantReadData(this.webhookIngestLambda);
+    coreResources.idempotencyTable.grantReadWriteData(this.webhookIngestLambda);
+    coreResources.eventBus.grantPutEventsTo(this.bulkImportLambda);
+    coreResources.eventBus.grantPutEventsTo(this.amendmentLambda);
+    coreResources.eventBucket.grantWrite(this.amendmentLambda);
+    coreResources.dlq.grantSendMessages(this.amendmentLambda);
+    coreResources.eventsTable.grantReadData(this.amendmentLambda);
+    coreResources.idempotencyTable.grantReadWriteData(this.amendmentLambda);
+    coreResources.eventBucket.grantReadWrite(this.bulkImportLambda);
+    coreResources.dlq.grantSendMessages(this.bulkImportLambda);
+    this.webhookIngestLambda.addToRolePolicy(new cdk.aws_iam.PolicyStatement({
+      actions: ['secretsmanager:GetSecretValue'],
+      resources: [
+        cdk.Stack.of(this).formatArn({
+          service: 'secretsmanager',
+          resource: 'secret',
+          resourceName: `${project}/${environment}/webhooks/*`,
+          arnFormat: cdk.ArnFormat.COLON_RESOURCE_NAME,
+        }),
+      ],
+    }));
 
     // ✅ **Use Shared API Gateway from Core Resources**
     this.api = coreResources.apiGateway;
@@ -61,6 +198,34 @@ export class EventIngestionConstruct extends Construct {
       eventsResource = this.api.root.addResource('events');
     }
 
-    eventsResource.addMethod('POST', new apigateway.LambdaIntegration(this.ingestLambda));
+    // ✅ **Every ingestion request needs a provider API key (x-api-key)**
+    // Results are not cached: the authorizer consumes a rate-limit token per request
+    const apiKeyAuthorizer = new apigateway.RequestAuthorizer(this, 'ApiKeyAuthorizer', {
+      handler: this.apiKeyAuthorizerLambda,
+      identitySources: [apigateway.IdentitySource.header('x-api-key')],
+      resultsCacheTtl: cdk.Duration.seconds(0),
+    });
+    const ingestionMethodOptions: apigateway.MethodOptions = {
+      authorizer: apiKeyAuthorizer,
+      authorizationType: apigateway.AuthorizationType.CUSTOM,
+    };
+
+    eventsResource.addMethod('POST', new apigateway.LambdaIntegration(this.ingestLambda), ingestionMethodOptions);
+
+    // ✅ **Batch ingestion route (JSON array or NDJSON body)**
+    const batchResource = eventsResource.addResource('batch');
+    batchResource.addMethod('POST', new apigateway.LambdaIntegration(this.batchIngestLambda), ingestionMethodOptions);
+
+    // ✅ **Amendment routes: PATCH corrects an event, DELETE retracts it**
+    const eventResource = eventsResource.addResource('{event_id}');
+    const amendmentIntegration = new apigateway.LambdaIntegration(this.amendmentLambda);
+    eventResource.addMethod('PATCH', amendmentIntegration, ingestionMethodOptions);
+    eventResource.addMethod('DELETE', amendmentIntegration, ingestionMethodOptions);
+
+    // ✅ **Webhook route: no API key, requests are authenticated by their HMAC signature**
+    const webhooksResource = this.api.root.getResource('webhooks') || this.api.root.addResource('webhooks');
+    webhooksResource
+      .addResource('{provider}')
+      .addMethod('POST', new apigateway.LambdaIntegration(this.webhookIngestLambda));
   }
 }
@@ -5,7 +5,9 @@ import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
 import * as eventbridge from 'aws-cdk-lib/aws-events';
 import * as eventTargets from 'aws-cdk-lib/aws-events-targets';
 import * as sqs from 'aws-cdk-lib/aws-sqs';
-import { SqsEventSource } from 'aws-cdk-lib/aws-lambda-event-sources';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import { DynamoEventSource, SqsEventSource } from 'aws-cdk-lib/aws-lambda-event-sources';
 import { NodejsFunction } from 'aws-cdk-lib/aws-lambda-nodejs';
 import { AppContext } from './../utils/app-context';
 import { CoreResourcesConstruct } from './core-resources';
@@ -21,6 +23,9 @@ export interface EventProcessingProps {
 export class EventProcessingConstruct extends Construct {
   public readonly processLambda: lambda.Function;
   public readonly queryLambda: lambda.Function;
+  public readonly matchStreamLambda: lambda.Function;
+  public readonly replayLambda: lambda.Function;
+  public readonly dlqAdminLambda: lambda.Function;
 
   constructor(scope: Construct, id: string, props: EventProcessingProps) {
     super(scope, id);
@@ -96,6 +101,115 @@ export class EventProcessingConstruct extends Construct {
     coreResources.eventsTable.grantReadWriteData(this.processLambda);
     coreResources.matchesTable.grantReadWriteData(this.processLambda);
 
+    // ✅ **Lambda deriving domain events from match state changes (matches table stream)**
+    this.matchStreamLambda = new NodejsFunction(this, 'MatchStreamLambda', {
+      functionName: `${project}-${environment}-match-stream-lambda`,
+      entry: path.join(__dirname, '../.././lambda/handler/match-stream.ts'),
+      handler: 'handler',
+      runtime: lambda.Runtime.NODEJS_18_X,
+      role: coreResources.lambdaExecutionRole,
+      timeout: cdk.Duration.seconds(60),
+      logRetention: cdk.aws_logs.RetentionDays.ONE_WEEK,
+      bundling: { externalModules: [], target: 'es2018' },
+      environment: {
+        EVENT_BUS_NAME: coreResources.eventBus.eventBusName,
+        EVENT_DLQ_URL: coreResources.dlq.queueUrl,
+        PROJECT_NAME: project,
+        ENVIRONMENT: environment,
+      },
+      tracing: lambda.Tracing.ACTIVE,
+    });
+
+    // ✅ **Only match state records (sk = STATE) invoke the stream Lambda**
+    this.matchStreamLambda.addEventSource(
+      new DynamoEventSource(coreResources.matchesTable, {
+        startingPosition: lambda.StartingPosition.LATEST,
+        batchSize: 100,
+        maxBatchingWindow: cdk.Duration.seconds(1),
+        retryAttempts: 3,
+        bisectBatchOnError: true,
+        filters: [
+          lambda.FilterCriteria.filter({ dynamodb: { Keys: { sk: { S: lambda.FilterRule.isEqual('STATE') } } } }),
+        ],
+      })
+    );
+    coreResources.eventBus.grantPutEventsTo(this.matchStreamLambda);
+    coreResources.dlq.grantSendMessages(this.matchStreamLambda);
+
+    // ✅ **Lambda replaying the raw archive into the tables (admin)**
+    const functionNameReplayLambda = `${project}-${environment}-replay-lambda`;
+    this.replayLambda = new NodejsFunction(this, 'ReplayLambda', {
+      functionName: functionNameReplayLambda,
+      entry: path.join(__dirname, '../.././lambda/handler/replay.ts'),
+      handler: 'handler',
+      runtime: lambda.Runtime.NODEJS_18_X,
+      role: coreResources.lambdaExecutionRole,
+      timeout: cdk.Duration.minutes(15),
+      memorySize: 1024,
+      logRetention: cdk.aws_logs.RetentionDays.ONE_WEEK,
+      bundling: { externalModules: [], target: 'es2018' },
+      environment: {
+        EVENTS_TABLE_NAME: coreResources.eventsTable.tableName,
+        MATCHES_TABLE_NAME: coreResources.matchesTable.tableName,
+        EVENT_BUS_NAME: coreResources.eventBus.eventBusName,
+        EVENT_DLQ_URL: coreResources.dlq.queueUrl,
+        EVENT_BUCKET_NAME: coreResources.eventBucket.bucketName,
+        PROJECT_NAME: project,
+        ENVIRONMENT: environment,
+      },
+      tracing: lambda.Tracing.ACTIVE,
+    });
+
+    coreResources.eventsTable.grantReadWriteData(this.replayLambda);
+    coreResources.matchesTable.grantReadWriteData(this.replayLambda);
+    coreResources.eventBucket.grantReadWrite(this.replayLambda);
+    coreResources.eventBus.grantPutEventsTo(this.replayLambda);
+    coreResources.dlq.grantSendMessages(this.replayLambda);
+
+    // ✅ **The admin route starts the replay by invoking the function asynchronously (ARN by name, to avoid a role cycle)**
+    this.replayLambda.addToRolePolicy(new iam.PolicyStatement({
+      actions: ['lambda:InvokeFunction'],
+      resources: [cdk.Stack.of(this).formatArn({
+        service: 'lambda',
+        resource: 'function',
+        resourceName: functionNameReplayLambda,
+        arnFormat: cdk.ArnFormat.COLON_RESOURCE_NAME,
+      })],
+    }));
+
+    // ✅ **Lambda inspecting and redriving DLQ messages (admin)**
+    this.dlqAdminLambda = new NodejsFunction(this, 'DlqAdminLambda', {
+      functionName: `${project}-${environment}-dlq-admin-lambda`,
+      entry: path.join(__dirname, '../.././lambda/handler/dlq-admin.ts'),
+      handler: 'handler',
+      runtime: lambda.Runtime.NODEJS_18_X,
+      role: coreResources.lambdaExecutionRole,
+      timeout: cdk.Duration.seconds(60),
+      logRetention: cdk.aws_logs.RetentionDays.ONE_WEEK,
+      bundling: { externalModules: [], target: 'es2018' },
+      environment: {
+        EVENT_BUS_NAME: coreResources.eventBus.eventBusName,
+        EVENT_DLQ_URL: coreResources.dlq.queueUrl,
+        EVENT_PROCESSING_QUEUE_URL: eventProcessingQueue.queueUrl,
+        EVENT_BUCKET_NAME: coreResources.eventBucket.bucketName,
+        PROJECT_NAME: project,
+        ENVIRONMENT: environment,
+      },
+      tracing: lambda.Tracing.ACTIVE,
+    });
+
+    coreResources.dlq.grantConsumeMessages(this.dlqAdminLambda);
+    eventProcessingQueue.grantSendMessages(this.dlqAdminLambda);
+    coreResources.eventBus.grantPutEventsTo(this.dlqAdminLambda);
+    coreResources.eventBucket.grantReadWrite(this.dlqAdminLambda);
+
+    // ✅ **Secret signing the pagination cursors of the events query**
+    const cursorSecret = new secretsmanager.Secret(this, 'EventCursorSecret', {
+      secretName: `${project}/${environment}/event-cursor-key`,
+      description: 'Signs the pagination cursors of GET /matches/{match_id}/events',
+      generateSecretString: { passwordLength: 64, excludePunctuation: true },
+    });
+
     // ✅ **Lambda for Querying Match Events (READ-ONLY)**
     this.queryLambda = new NodejsFunction(this, 'QueryMatchEventLambda', {
       functionName: functionNameQueryLambda,
@@ -108,8 +222,7 @@ export class EventProcessingConstruct extends Construct {
       environment: {
         EVENTS_TABLE_NAME: coreResources.eventsTable.tableName,
         MATCHES_TABLE_NAME: coreResources.matchesTable.tableName,
-        EVENT_BUS_NAME: coreResources.eventBus.eventBusName,
-        EVENT_DLQ_URL: coreResources.dlq.queueUrl,
+        CURSOR_SECRET_ID: cursorSecret.secretArn,
         PROJECT_NAME: project,
         ENVIRONMENT: environment,
       },
@@ -119,6 +232,7 @@ export class EventProcessingConstruct extends Construct {
     // ✅ **Grant Query Lambda Read-Only Access to DynamoDB**
     coreResources.eventsTable.grantReadData(this.queryLambda);
     coreResources.matchesTable.grantReadData(this.queryLambda);
+    cursorSecret.grantRead(this.queryLambda);
 
     // ✅ **Monitoring: CloudWatch Alarms**
     new cdk.aws_cloudwatch.Alarm(this, 'DLQNotEmptyAlarm', {
@@ -3,7 +3,6 @@ import * as cdk from 'aws-cdk-lib';
 import { Construct } from 'constructs';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
 import { NodejsFunction } from 'aws-cdk-lib/aws-lambda-nodejs';
-import * as apigateway from 'aws-cdk-lib/aws-apigateway';
 import { CoreResourcesConstruct } from './core-resources';
 import * as path from 'path';
 
@@ -15,6 +14,13 @@ export interface QueryConstructProps {
 export class QueryConstruct extends Construct {
   public readonly goalsLambda: lambda.Function;
   public readonly passesLambda: lambda.Function;
+  public readonly dataQualityLambda: lambda.Function;
+  public readonly playersLambda: lambda.Function;
+  public readonly xgLambda: lambda.Function;
+  public readonly passNetworkLambda: lambda.Function;
+  public readonly possessionsLambda: lambda.Function;
+  public readonly lineupLambda: lambda.Function;
+  public readonly standingsLambda: lambda.Function;
 
   constructor(scope: Construct, id: string, props: QueryConstructProps) {
     super(scope, id);
@@ -32,7 +38,10 @@ export class QueryConstruct extends Construct {
       logRetention: cdk.aws_logs.RetentionDays.ONE_WEEK,
       environment: {
         TABLE_NAME: coreResources.eventsTable.tableName,
+        MATCHES_TABLE_NAME: coreResources.matchesTable.tableName,
         BUCKET_NAME: coreResources.eventBucket.bucketName,
+        PROJECT_NAME: project,
+        ENVIRONMENT: environment,
       },
       deadLetterQueueEnabled: true,
       deadLetterQueue: coreResources.dlq,
@@ -48,31 +57,156 @@ export class QueryConstruct extends Construct {
       logRetention: cdk.aws_logs.RetentionDays.ONE_WEEK,
       environment: {
         TABLE_NAME: coreResources.eventsTable.tableName,
+        MATCHES_TABLE_NAME: coreResources.matchesTable.tableName,
         BUCKET_NAME: coreResources.eventBucket.bucketName,
+        PROJECT_NAME: project,
+        ENVIRONMENT: environment,
       },
       deadLetterQueueEnabled: true,
       deadLetterQueue: coreResources.dlq,
     });
 
-    // ✅ **Grant Query Lambdas Read-Only Access to DynamoDB**
-    coreResources.eventsTable.grantReadData(this.goalsLambda);
-    coreResources.eventsTable.grantReadData(this.passesLambda);
+    // ✅ **Lambda for Querying Data-Quality Findings (score mismatches, quarantined events)**
+    this.dataQualityLambda = new NodejsFunction(this, 'DataQualityLambda', {
+      functionName: `${project}-data-quality-function`,
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'handler',
+      entry: path.join(__dirname, '../../lambda/handler/data-quality.ts'),
+      role: coreResources.queryLambdaExecutionRole,
+      logRetention: cdk.aws_logs.RetentionDays.ONE_WEEK,
+      environment: {
+        TABLE_NAME: coreResources.eventsTable.tableName,
+        MATCHES_TABLE_NAME: coreResources.matchesTable.tableName,
+        PROJECT_NAME: project,
+        ENVIRONMENT: environment,
+      },
+      deadLetterQueueEnabled: true,
+      deadLetterQueue: coreResources.dlq,
+    });
 
-    // ✅ **Reference existing API Gateway from CoreResourcesConstruct**
-    const api = coreResources.apiGateway;
+    // ✅ **Lambda for Querying Player Statistics**
+    this.playersLambda = new NodejsFunction(this, 'PlayersLambda', {
+      functionName: `${project}-players-function`,
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'handler',
+      entry: path.join(__dirname, '../../lambda/handler/players.ts'),
+      role: coreResources.queryLambdaExecutionRole,
+      logRetention: cdk.aws_logs.RetentionDays.ONE_WEEK,
+      environment: {
+        TABLE_NAME: coreResources.eventsTable.tableName,
+        MATCHES_TABLE_NAME: coreResources.matchesTable.tableName,
+        PROJECT_NAME: project,
+        ENVIRONMENT: environment,
+      },
+      deadLetterQueueEnabled: true,
+      deadLetterQueue: coreResources.dlq,
+    });
 
-    // ✅ **Retrieve the existing `events` resource**
-    const eventsResource = api.root.getResource('events');
-    if (!eventsResource) {
-      throw new Error("The 'events' resource must be created before QueryConstruct.");
-    }
+    // ✅ **Lambda for Querying Shots and Expected Goals**
+    this.xgLambda = new NodejsFunction(this, 'XGLambda', {
+      functionName: `${project}-xg-function`,
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'handler',
+      entry: path.join(__dirname, '../../lambda/handler/xg.ts'),
+      role: coreResources.queryLambdaExecutionRole,
+      logRetention: cdk.aws_logs.RetentionDays.ONE_WEEK,
+      environment: {
+        MATCHES_TABLE_NAME: coreResources.matchesTable.tableName,
+        PROJECT_NAME: project,
+        ENVIRONMENT: environment,
+      },
+      deadLetterQueueEnabled: true,
+      deadLetterQueue: coreResources.dlq,
+    });
 
-    const matchResource = eventsResource.addResource('{match_id}');
-    const goalsResource = matchResource.addResource('goals');
-    const passesResource = matchResource.addResource('passes');
+    // ✅ **Lambda for Querying Pass Networks**
+    this.passNetworkLambda = new NodejsFunction(this, 'PassNetworkLambda', {
+      functionName: `${project}-pass-network-function`,
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'handler',
+      entry: path.join(__dirname, '../../lambda/handler/pass-network.ts'),
+      role: coreResources.queryLambdaExecutionRole,
+      logRetention: cdk.aws_logs.RetentionDays.ONE_WEEK,
+      environment: {
+        TABLE_NAME: coreResources.eventsTable.tableName,
+        MATCHES_TABLE_NAME: coreResources.matchesTable.tableName,
+        PROJECT_NAME: project,
+        ENVIRONMENT: environment,
+      },
+      deadLetterQueueEnabled: true,
+      deadLetterQueue: coreResources.dlq,
+    });
+
+    // ✅ **Lambda for Querying Possession Chains**
+    this.possessionsLambda = new NodejsFunction(this, 'PossessionsLambda', {
+      functionName: `${project}-possessions-function`,
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'handler',
+      entry: path.join(__dirname, '../../lambda/handler/possessions.ts'),
+      role: coreResources.queryLambdaExecutionRole,
+      logRetention: cdk.aws_logs.RetentionDays.ONE_WEEK,
+      environment: {
+        TABLE_NAME: coreResources.eventsTable.tableName,
+        MATCHES_TABLE_NAME: coreResources.matchesTable.tableName,
+        PROJECT_NAME: project,
+        ENVIRONMENT: environment,
+      },
+      deadLetterQueueEnabled: true,
+      deadLetterQueue: coreResources.dlq,
+    });
+
+    // ✅ **Lambda for Querying Lineups at a Minute**
+    this.lineupLambda = new NodejsFunction(this, 'LineupLambda', {
+      functionName: `${project}-lineup-function`,
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'handler',
+      entry: path.join(__dirname, '../../lambda/handler/lineup.ts'),
+      role: coreResources.queryLambdaExecutionRole,
+      logRetention: cdk.aws_logs.RetentionDays.ONE_WEEK,
+      environment: {
+        MATCHES_TABLE_NAME: coreResources.matchesTable.tableName,
+        PROJECT_NAME: project,
+        ENVIRONMENT: environment,
+      },
+      deadLetterQueueEnabled: true,
+      deadLetterQueue: coreResources.dlq,
+    });
+
+    // ✅ **Lambda for Querying Season Standings**
+    this.standingsLambda = new NodejsFunction(this, 'StandingsLambda', {
+      functionName: `${project}-standings-function`,
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'handler',
+      entry: path.join(__dirname, '../../lambda/handler/standings.ts'),
+      role: coreResources.queryLambdaExecutionRole,
+      logRetention: cdk.aws_logs.RetentionDays.ONE_WEEK,
+      environment: {
+        MATCHES_TABLE_NAME: coreResources.matchesTable.tableName,
+        PROJECT_NAME: project,
+        ENVIRONMENT: environment,
+      },
+      deadLetterQueueEnabled: true,
+      deadLetterQueue: coreResources.dlq,
+    });
+
+    // ✅ **Grant Query Lambdas Read-Only Access to DynamoDB**
+    coreResources.eventsTable.grantReadData(this.goalsLambda);
+    coreResources.matchesTable.grantReadData(this.goalsLambda);
+    coreResources.eventsTable.grantReadData(this.passesLambda);
+    coreResources.matchesTable.grantReadData(this.passesLambda);
+    coreResources.eventsTable.grantReadData(this.dataQualityLambda);
+    coreResources.matchesTable.grantReadData(this.dataQualityLambda);
+    coreResources.eventsTable.grantReadData(this.playersLambda);
+    coreResources.matchesTable.grantReadData(this.playersLambda);
+    coreResources.matchesTable.grantReadData(this.xgLambda);
+    coreResources.eventsTable.grantReadData(this.passNetworkLambda);
+    coreResources.matchesTable.grantReadData(this.passNetworkLambda);
+    coreResources.eventsTable.grantReadData(this.possessionsLambda);
+    coreResources.matchesTable.grantReadData(this.possessionsLambda);
+    coreResources.matchesTable.grantReadData(this.lineupLambda);
+    coreResources.matchesTable.grantReadData(this.standingsLambda);
 
-    // ✅ **Integrate Lambda functions with API Gateway**
-    goalsResource.addMethod('GET', new apigateway.LambdaIntegration(this.goalsLambda));
-    passesResource.addMethod('GET', new apigateway.LambdaIntegration(this.passesLambda));
+    // ✅ **Routes are attached by the stack under /matches/{match_id}**
+    // /events/{event_id} belongs to event amendments, so no /events/{match_id} routes are added here
   }
 }
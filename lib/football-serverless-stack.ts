@@ -31,7 +31,7 @@ export class MatchProcessingStack extends cdk.Stack {
     const eventIngestion = new EventIngestionConstruct(this, 'EventIngestion', { appContext, coreResources });
 
     // ✅ **Event Processing Construct**
-    new EventProcessingConstruct(this, 'EventProcessing', { appContext, coreResources });
+    const eventProcessing = new EventProcessingConstruct(this, 'EventProcessing', { appContext, coreResources });
 
     // ✅ **Use Shared API Gateway from Core Resources**
     const api = eventIngestion.api ?? coreResources.apiGateway;
@@ -48,10 +48,44 @@ export class MatchProcessingStack extends cdk.Stack {
     const matchResource = matchesResource.addResource('{match_id}');
     const goalsResource = matchResource.addResource('goals');
     const passesResource = matchResource.addResource('passes');
+    const dataQualityResource = matchResource.addResource('data-quality');
+    const playersResource = matchResource.addResource('players');
+    const xgResource = matchResource.addResource('xg');
+    const passNetworkResource = matchResource.addResource('pass-network');
+    const possessionsResource = matchResource.addResource('possessions');
+    const lineupResource = matchResource.addResource('lineup');
+    const matchEventsResource = matchResource.addResource('events');
 
     // ✅ **Attach Lambda Integrations for Querying**
     goalsResource.addMethod('GET', new apigateway.LambdaIntegration(queryConstruct.goalsLambda));
     passesResource.addMethod('GET', new apigateway.LambdaIntegration(queryConstruct.passesLambda));
+    dataQualityResource.addMethod('GET', new apigateway.LambdaIntegration(queryConstruct.dataQualityLambda));
+    playersResource.addMethod('GET', new apigateway.LambdaIntegration(queryConstruct.playersLambda));
+    xgResource.addMethod('GET', new apigateway.LambdaIntegration(queryConstruct.xgLambda));
+    passNetworkResource.addMethod('GET', new apigateway.LambdaIntegration(queryConstruct.passNetworkLambda));
+    possessionsResource.addMethod('GET', new apigateway.LambdaIntegration(queryConstruct.possessionsLambda));
+    lineupResource.addMethod('GET', new apigateway.LambdaIntegration(queryConstruct.lineupLambda));
+    matchEventsResource.addMethod('GET', new apigateway.LambdaIntegration(eventProcessing.queryLambda));
+
+    // ✅ **Season Routes**
+    const standingsResource = api.root.addResource('seasons').addResource('{season}').addResource('standings');
+    standingsResource.addMethod('GET', new apigateway.LambdaIntegration(queryConstruct.standingsLambda));
+
+    // ✅ **Admin Routes (IAM-signed requests only)**
+    const adminResource = api.root.addResource('admin');
+    const replayResource = adminResource.addResource('replay');
+    replayResource.addMethod('POST', new apigateway.LambdaIntegration(eventProcessing.replayLambda), {
+      authorizationType: apigateway.AuthorizationType.IAM,
+    });
+
+    const dlqMessagesResource = adminResource.addResource('dlq').addResource('messages');
+    const dlqMessageResource = dlqMessagesResource.addResource('{message_id}');
+    const dlqAdminIntegration = new apigateway.LambdaIntegration(eventProcessing.dlqAdminLambda);
+    const adminMethodOptions = { authorizationType: apigateway.AuthorizationType.IAM };
+    dlqMessagesResource.addMethod('GET', dlqAdminIntegration, adminMethodOptions);
+    dlqMessageResource.addMethod('GET', dlqAdminIntegration, adminMethodOptions);
+    dlqMessageResource.addResource('redrive').addMethod('POST', dlqAdminIntegration, adminMethodOptions);
+    dlqMessageResource.addResource('discard').addMethod('POST', dlqAdminIntegration, adminMethodOptions);
 
     // ✅ **Stack Outputs**
     new cdk.CfnOutput(this, 'APIGatewayURL', { value: api.url });
@@ -67,8 +101,56 @@ export class MatchProcessingStack extends cdk.Stack {
       value: `${api.url}/matches/{match_id}/passes` 
     });
 
+    new cdk.CfnOutput(this, 'DataQualityAPIEndpoint', { 
+      value: `${api.url}/matches/{match_id}/data-quality` 
+    });
+
+    new cdk.CfnOutput(this, 'PlayersAPIEndpoint', { 
+      value: `${api.url}/matches/{match_id}/players` 
+    });
+
+    new cdk.CfnOutput(this, 'XGAPIEndpoint', { 
+      value: `${api.url}/matches/{match_id}/xg` 
+    });
+
+    new cdk.CfnOutput(this, 'PassNetworkAPIEndpoint', { 
+      value: `${api.url}/matches/{match_id}/pass-network` 
+    });
+
+    new cdk.CfnOutput(this, 'PossessionsAPIEndpoint', { 
+      value: `${api.url}/matches/{match_id}/possessions` 
+    });
+
+    new cdk.CfnOutput(this, 'LineupAPIEndpoint', { 
+      value: `${api.url}/matches/{match_id}/lineup` 
+    });
+
+    new cdk.CfnOutput(this, 'MatchEventsAPIEndpoint', { 
+      value: `${api.url}/matches/{match_id}/events` 
+    });
+
+    new cdk.CfnOutput(this, 'StandingsAPIEndpoint', { 
+      value: `${api.url}/seasons/{season}/standings` 
+    });
+
+    new cdk.CfnOutput(this, 'ReplayAPIEndpoint', { 
+      value: `${api.url}/admin/replay` 
+    });
+
+    new cdk.CfnOutput(this, 'DlqAdminAPIEndpoint', { 
+      value: `${api.url}/admin/dlq/messages` 
+    });
+
     new cdk.CfnOutput(this, 'EventsAPIEndpoint', { 
       value: `${api.url}/events`
     });
+
+    new cdk.CfnOutput(this, 'EventsBatchAPIEndpoint', { 
+      value: `${api.url}/events/batch`
+    });
+
+    new cdk.CfnOutput(this, 'WebhooksAPIEndpoint', { 
+      value: `${api.url}/webhooks/{provider}`
+    });
   }
 }
@@ -57,6 +57,8 @@ export function createLoggingContext(environment: Environment): LoggingContext {
   };
 }
 
+export type DynamoTableKey = 'events' | 'matches' | 'idempotency' | 'providers';
+
 export interface AppContext {
   eventBusName: string;
   project: string;
@@ -70,7 +72,7 @@ export interface AppContext {
   endpoint?: string; // Custom endpoint for local environment
   s3ForcePathStyle: boolean; // For local S3 compatibility
   
-  dynamoTables: Record<'events' | 'matches', string>; // ✅ Fixed error
+  dynamoTables: Record<DynamoTableKey, string>; // ✅ Fixed error
   s3Buckets: Record<'rawData' | 'logs' | 'backups' | 'errors', string>;
   eventnameGenerator: EventNameGenerator;
   getS3BucketName: (bucketType: keyof AppContext['s3Buckets']) => string;
@@ -90,9 +92,11 @@ export function createAppContext(overrides: Partial<AppContext> = {}): AppContex
   const s3ForcePathStyle = isLocal;
   const logging = createLoggingContext(environment);
 
-  const dynamoTables: Record<'events' | 'matches', string> = {
+  const dynamoTables: Record<DynamoTableKey, string> = {
     events: `${project}-${environment}-events`,
     matches: `${project}-${environment}-matches`,
+    idempotency: `${project}-${environment}-idempotency`,
+    providers: `${project}-${environment}-providers`,
   };
 
   const s3Buckets: Record<'rawData' | 'logs' | 'backups' | 'errors', string> = {
@@ -0,0 +1,18 @@
+#!/bin/bash
+# Two-step rollout of the events table GSIs (EventIdIndex, MatchOrderIndex).
+# CloudFormation can only add one GSI per update to an existing table, so stacks
+# deployed before both indexes existed need EventIdIndex first, then MatchOrderIndex.
+#
+# Usage: CDK=cdklocal ./scripts/deploy-events-indexes.sh [extra cdk deploy args]
+
+set -euo pipefail
+
+CDK="${CDK:-cdk}"
+
+echo "🔄 STEP 1: deploying with EventIdIndex only"
+"$CDK" deploy --require-approval never -c eventsTableIndexStage=1 "$@"
+
+echo "🔄 STEP 2: deploying with MatchOrderIndex"
+"$CDK" deploy --require-approval never "$@"
+
+echo "✅ Events table indexes deployed"
@@ -0,0 +1,37 @@
+import { getFinalPeriod, matchTimestamp, periodMarkerEventType } from '../lambda/adapters/adapter-utils';
+
+describe('periodMarkerEventType', () => {
+  test.each<['start' | 'end', number, number, string | undefined]>([
+    ['start', 1, 2, 'kickoff'],
+    ['start', 5, 5, 'kickoff'],
+    ['end', 1, 2, 'halftime'],
+    ['end', 2, 2, 'fulltime'],
+    ['end', 2, 4, undefined],
+    ['end', 3, 4, 'halftime'],
+    ['end', 4, 4, 'fulltime'],
+    ['end', 4, 5, undefined],
+    ['end', 5, 5, 'fulltime'],
+    ['start', 0, 2, undefined],
+    ['start', 6, 6, undefined],
+  ])('%s of period %d (final period %d) is %s', (marker, period, finalPeriod, eventType) => {
+    expect(periodMarkerEventType(marker, period, finalPeriod)).toBe(eventType);
+  });
+});
+
+describe('getFinalPeriod', () => {
+  test('is the highest integer period', () => {
+    expect(getFinalPeriod([1, 1, 2, 3, undefined, '5', 2.5])).toBe(3);
+    expect(getFinalPeriod([])).toBe(0);
+  });
+});
+
+describe('matchTimestamp', () => {
+  test('adds the match clock to the kickoff', () => {
+    expect(matchTimestamp('2024-03-02T16:00:00+01:00', 93, 15)).toBe('2024-03-02T16:33:15.000Z');
+  });
+
+  test('requires a valid kickoff', () => {
+    expect(() => matchTimestamp(undefined, 1, 0)).toThrow('kickoff is required');
+    expect(() => matchTimestamp('not a date', 1, 0)).toThrow('kickoff must be a valid ISO date');
+  });
+});
@@ -0,0 +1,103 @@
+import { AmendmentEvent } from '../lambda/dtos/amendments';
+import { applyAmendments, applyChanges, buildAmendmentSortKey, validateCorrection } from '../lambda/utils/amendments';
+
+const goal = {
+  pk: 'SEASON#2023-2024#MATCH#m1',
+  sk: 'EVENT#e1',
+  event_id: 'e1',
+  event_type: 'goal',
+  match_id: 'm1',
+  team: 'Arsenal',
+  player: 'Saka',
+  timestamp: '2024-03-02T15:23:00.000Z',
+  match_order: '2024-03-02T15:23:00.000Z#000000001',
+  sequence: 1,
+  schema_version: 3,
+};
+
+const amendment = (eventId: string, amendedAt: string, fields: Partial<AmendmentEvent>): AmendmentEvent => ({
+  pk: goal.pk,
+  sk: `AMENDMENT#e1#${amendedAt}#${eventId}`,
+  event_id: eventId,
+  parent_id: 'e1',
+  match_id: 'm1',
+  event_type: 'amendment',
+  amendment_type: 'correction',
+  amended_event_type: 'goal',
+  amended_by: 'statsbomb',
+  amended_at: amendedAt,
+  season: '2023-2024',
+  timestamp: amendedAt,
+  ...fields,
+});
+
+describe('validateCorrection', () => {
+  test('accepts a correction that keeps the event valid', () => {
+    expect(validateCorrection(goal, { player: 'Odegaard', assist: 'Saka' })).toEqual([]);
+  });
+
+  test('requires a non-empty object of changes', () => {
+    for (const changes of [undefined, {}, [], 'player']) {
+      expect(validateCorrection(goal, changes)).toEqual(['changes must be a non-empty object of corrected fields']);
+    }
+  });
+
+  test('rejects changes to identifying and derived fields', () => {
+    expect(validateCorrection(goal, { match_order: 'x', sequence: 9, schema_version: 1, xg: 0.9, event_id: 'e2' })).toEqual([
+      'these fields cannot be corrected: match_order, sequence, schema_version, xg, event_id',
+    ]);
+  });
+
+  test('rejects a correction that breaks the event schema', () => {
+    expect(validateCorrection(goal, { player: null })).toEqual(['goal requires a scorer (player)']);
+  });
+});
+
+describe('applyChanges', () => {
+  test('sets changed fields and removes null ones', () => {
+    expect(applyChanges({ player: 'Saka', assist: 'Rice' }, { player: 'Odegaard', assist: null })).toEqual({ player: 'Odegaard' });
+  });
+});
+
+describe('applyAmendments', () => {
+  test('applies corrections in amendment order, whatever the item order', () => {
+    const items = [
+      amendment('a2', '2024-03-02T16:00:00.000Z', { changes: { player: 'Martinelli' } }),
+      goal,
+      amendment('a1', '2024-03-02T15:30:00.000Z', { changes: { player: 'Odegaard', assist: 'Saka' } }),
+    ];
+
+    const { pk, sk, ...event } = goal;
+
+    expect(applyAmendments(items)).toEqual([{
+      ...event,
+      player: 'Martinelli',
+      assist: 'Saka',
+      amended: true,
+      last_amended_at: '2024-03-02T16:00:00.000Z',
+    }]);
+  });
+
+  test('leaves out retracted events unless the history is requested', () => {
+    const items = [goal, amendment('a1', '2024-03-02T15:30:00.000Z', { amendment_type: 'retraction', reason: 'VAR: offside' })];
+
+    expect(applyAmendments(items)).toEqual([]);
+
+    const [withHistory] = applyAmendments(items, { includeHistory: true });
+    expect(withHistory.retracted).toBe(true);
+    expect(withHistory.history!.original).not.toHaveProperty('pk');
+    expect(withHistory.history!.amendments.map((item) => item.event_id)).toEqual(['a1']);
+  });
+
+  test('returns unamended events unchanged, without storage fields', () => {
+    const { pk, sk, ...event } = goal;
+
+    expect(applyAmendments([goal])).toEqual([event]);
+  });
+});
+
+describe('buildAmendmentSortKey', () => {
+  test('sorts amendments under their event by time', () => {
+    expect(buildAmendmentSortKey(amendment('a1', '2024-03-02T15:30:00.000Z', {}))).toBe('AMENDMENT#e1#2024-03-02T15:30:00.000Z#a1');
+  });
+});
@@ -0,0 +1,187 @@
+import * as AWS from 'aws-sdk';
+import { DLQMessage } from '../lambda/dtos/dlq';
+import {
+  DLQ_ENVELOPE_VERSION,
+  classifyFailure,
+  createDLQEnvelope,
+  getRedrivePayload,
+  groupDLQMessages,
+  parseDLQMessage
+} from '../lambda/utils/dlq';
+
+const goal = { event_id: 'e1', event_type: 'goal', match_id: 'm1', team: 'Arsenal', player: 'Saka' };
+const SENT_AT = '2024-03-02T15:30:00.000Z';
+
+const message = (body: unknown, fields: Partial<AWS.SQS.Message> = {}): AWS.SQS.Message => ({
+  MessageId: 'msg-1',
+  ReceiptHandle: 'handle-1',
+  Body: typeof body === 'string' ? body : JSON.stringify(body),
+  Attributes: { SentTimestamp: String(new Date(SENT_AT).getTime()), ApproximateReceiveCount: '2' },
+  ...fields,
+});
+
+const namedError = (name: string, text = 'failed') => Object.assign(new Error(text), { name });
+
+describe('classifyFailure', () => {
+  test.each([
+    { label: 'ConditionalCheckFailedException', error: namedError('ConditionalCheckFailedException'), reason: 'conditional_check' },
+    { label: 'ProvisionedThroughputExceededException', error: namedError('ProvisionedThroughputExceededException'), reason: 'throttling' },
+    { label: 'a rate exceeded message', error: new Error('Rate exceeded'), reason: 'throttling' },
+    { label: 'ValidationError', error: namedError('ValidationError'), reason: 'validation' },
+    { label: 'TimeoutError', error: namedError('TimeoutError'), reason: 'timeout' },
+    { label: 'ResourceNotFoundException', error: namedError('ResourceNotFoundException'), reason: 'not_found' },
+    { label: 'any other error', error: new Error('boom'), reason: 'processing_error' },
+    { label: 'no error', error: undefined, reason: 'unknown' },
+  ])('$label is $reason', ({ error, reason }) => {
+    expect(classifyFailure(error)).toBe(reason);
+  });
+});
+
+describe('createDLQEnvelope', () => {
+  test('lifts the event identity out of the payload and counts the retry', () => {
+    const envelope = createDLQEnvelope({ ...goal, retry_count: 1, idempotencyKey: 'key-1' }, {
+      origin: 'ingestion',
+      error: namedError('ThrottlingException', 'slow down'),
+    });
+
+    expect(envelope).toEqual(expect.objectContaining({
+      envelope_version: DLQ_ENVELOPE_VERSION,
+      origin: 'ingestion',
+      reason: 'throttling',
+      error_name: 'ThrottlingException',
+      error_message: 'slow down',
+      retry_count: 2,
+      match_id: 'm1',
+      event_type: 'goal',
+      idempotency_key: 'key-1',
+    }));
+  });
+});
+
+describe('parseDLQMessage', () => {
+  test('reads an envelope as sent', () => {
+    const envelope = createDLQEnvelope(goal, { origin: 'event-processing', reason: 'rule_violation' });
+    const parsed = parseDLQMessage(message(envelope));
+
+    expect(parsed).toEqual({
+      message_id: 'msg-1',
+      receipt_handle: 'handle-1',
+      sent_at: SENT_AT,
+      receive_count: 2,
+      envelope,
+      normalized: false,
+    });
+  });
+
+  test('converts an EventBridge rule target failure', () => {
+    const parsed = parseDLQMessage(message({ source: 'football.events', 'detail-type': 'goal', detail: goal }, {
+      MessageAttributes: {
+        ERROR_CODE: { DataType: 'String', StringValue: 'SDK_CLIENT_ERROR' },
+        RULE_ARN: { DataType: 'String', StringValue: 'arn:rule' },
+      },
+    }));
+
+    expect(parsed.normalized).toBe(true);
+    expect(parsed.envelope).toEqual(expect.objectContaining({
+      origin: 'eventbridge-rule',
+      reason: 'delivery_failed',
+      error_name: 'SDK_CLIENT_ERROR',
+      event_source: 'football.events',
+      detail_type: 'goal',
+      payload: goal,
+      failed_at: SENT_AT,
+    }));
+  });
+
+  test('converts a message the processing queue moved', () => {
+    const parsed = parseDLQMessage(message(goal, {
+      Attributes: { SentTimestamp: String(new Date(SENT_AT).getTime()), DeadLetterQueueSourceArn: 'arn:queue' },
+    }));
+
+    expect(parsed.envelope).toEqual(expect.objectContaining({
+      origin: 'sqs-redrive',
+      reason: 'max_receives_exceeded',
+      context: { source_queue_arn: 'arn:queue' },
+      payload: goal,
+    }));
+  });
+
+  test('converts a legacy DynamoDB write failure', () => {
+    const parsed = parseDLQMessage(message({ tableName: 'events', item: { pk: 'p', sk: 's', ...goal }, failedAt: '2024-03-02T15:00:00.000Z' }));
+
+    expect(parsed.envelope).toEqual(expect.objectContaining({
+      origin: 'dynamodb-write',
+      failed_at: '2024-03-02T15:00:00.000Z',
+      context: { table_name: 'events' },
+    }));
+    expect(getRedrivePayload(parsed.envelope)).toEqual(goal);
+  });
+
+  test('converts a legacy publish failure', () => {
+    const parsed = parseDLQMessage(message({ idempotency_key: 'key-1', match_id: 'm1', event_type: 'goal', payload: { player: 'Saka' } }));
+
+    expect(parsed.envelope).toEqual(expect.objectContaining({
+      origin: 'eventbridge-publish',
+      reason: 'publish_failed',
+      idempotency_key: 'key-1',
+      detail_type: 'goal',
+      payload: { match_id: 'm1', player: 'Saka' },
+    }));
+  });
+
+  test('converts a legacy processing failure', () => {
+    const parsed = parseDLQMessage(message({ ...goal, dlq_timestamp: '2024-03-02T15:10:00.000Z', retry_count: 3, validation_errors: ['player is required'] }));
+
+    expect(parsed.envelope).toEqual(expect.objectContaining({
+      origin: 'event-processing',
+      reason: 'validation',
+      error_message: 'player is required',
+      retry_count: 3,
+      failed_at: '2024-03-02T15:10:00.000Z',
+      payload: goal,
+    }));
+  });
+
+  test('keeps a body that is not JSON', () => {
+    const parsed = parseDLQMessage(message('not json'));
+
+    expect(parsed.envelope).toEqual(expect.objectContaining({ origin: 'unknown', reason: 'unknown', payload: { raw: 'not json' } }));
+  });
+});
+
+describe('groupDLQMessages', () => {
+  const parsed = (id: string, origin: 'ingestion' | 'event-processing', failedAt: string): DLQMessage => ({
+    message_id: id,
+    receive_count: 1,
+    normalized: false,
+    envelope: { ...createDLQEnvelope(goal, { origin, reason: 'validation' }), failed_at: failedAt },
+  });
+
+  test('groups by origin and reason, largest groups first, oldest message first', () => {
+    const groups = groupDLQMessages([
+      parsed('a', 'ingestion', '2024-03-02T15:00:00.000Z'),
+      parsed('b', 'event-processing', '2024-03-02T15:20:00.000Z'),
+      parsed('c', 'event-processing', '2024-03-02T15:10:00.000Z'),
+    ]);
+
+    expect(groups.map((group) => [group.origin, group.count, group.oldest, group.newest])).toEqual([
+      ['event-processing', 2, '2024-03-02T15:10:00.000Z', '2024-03-02T15:20:00.000Z'],
+      ['ingestion', 1, '2024-03-02T15:00:00.000Z', '2024-03-02T15:00:00.000Z'],
+    ]);
+    expect(groups[0].messages.map((summary) => summary.message_id)).toEqual(['c', 'b']);
+  });
+});
+
+describe('getRedrivePayload', () => {
+  test('strips storage fields from event writes', () => {
+    const envelope = createDLQEnvelope({ pk: 'p', sk: 's', gsi1pk: 'g', processed_at: 'now', ...goal }, { origin: 'dynamodb-write' });
+
+    expect(getRedrivePayload(envelope)).toEqual(goal);
+  });
+
+  test('has nothing to redrive for a write that is not an event', () => {
+    const envelope = createDLQEnvelope({ pk: 'IDEMPOTENCY#key-1', sk: 'RESPONSE', status: 'IN_PROGRESS' }, { origin: 'dynamodb-write' });
+
+    expect(getRedrivePayload(envelope)).toBeUndefined();
+  });
+});
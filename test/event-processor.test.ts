@@ -0,0 +1,84 @@
+jest.mock('../lambda/clients/dynamo-client', () => require('./in-memory-dynamo'));
+jest.mock('../lambda/clients/eventbridge-client', () => ({
+  EventBridgeClient: class {
+    public async publishMatchEvents() {
+      return [];
+    }
+  },
+}));
+
+import { createAppContext } from '../lib/utils/app-context';
+import { EventLogger, LambdaUtils } from '../lambda/utils/lambda-utils';
+import { EventProcessor } from '../lambda/utils/event-processor';
+import { resetTables, tableItems } from './in-memory-dynamo';
+
+const silentLogger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+const createProcessor = () => {
+  const baseContext = createAppContext();
+  const appContext = createAppContext({ logging: { ...baseContext.logging, logger: silentLogger } });
+  const logger = new EventLogger(silentLogger);
+  return new EventProcessor(appContext, new LambdaUtils(logger, appContext), logger);
+};
+
+const pass = (eventId: string, toPlayer: string) => ({
+  event_id: eventId,
+  event_type: 'pass',
+  match_id: 'm1',
+  timestamp: '2024-03-02T15:10:05.000Z',
+  team: 'Arsenal',
+  from_player: 'Rice',
+  to_player: toPlayer,
+  minute: 10,
+  period: 1,
+});
+
+const storedEvents = () => tableItems('events').filter((item) => String(item.sk).startsWith('EVENT#'));
+
+describe('EventProcessor', () => {
+  beforeEach(() => resetTables());
+
+  test('stores two passes of one team at one timestamp', async () => {
+    const processor = createProcessor();
+
+    expect((await processor.process(pass('e1', 'Saka'))).status).toBe('success');
+    expect((await processor.process(pass('e2', 'Odegaard'))).status).toBe('success');
+
+    expect(storedEvents().map((event) => event.to_player).sort()).toEqual(['Odegaard', 'Saka']);
+  });
+
+  test('stores a redelivered event once', async () => {
+    const processor = createProcessor();
+
+    await processor.process(pass('e1', 'Saka'));
+    const redelivery = await processor.process(pass('e1', 'Saka'));
+
+    expect(redelivery.status).toBe('skipped');
+    expect(storedEvents()).toHaveLength(1);
+  });
+
+  test('releases a quarantined second-half event once the second half kicks off', async () => {
+    const processor = createProcessor();
+    const marker = (eventId: string, eventType: string, period: number, timestamp: string) =>
+      ({ event_id: eventId, event_type: eventType, match_id: 'm1', period, minute: period === 2 ? 45 : 0, timestamp });
+    const goal = {
+      event_id: 'g1',
+      event_type: 'goal',
+      match_id: 'm1',
+      team: 'Arsenal',
+      player: 'Saka',
+      period: 2,
+      minute: 47,
+      timestamp: '2024-03-02T16:04:00.000Z',
+    };
+
+    await processor.process(marker('k1', 'kickoff', 1, '2024-03-02T15:00:00.000Z'));
+    await processor.process(marker('h1', 'halftime', 1, '2024-03-02T15:47:00.000Z'));
+    expect((await processor.process(goal)).status).toBe('quarantined');
+
+    await processor.process(marker('k2', 'kickoff', 2, '2024-03-02T16:02:00.000Z'));
+
+    expect(storedEvents().map((event) => event.event_id)).toContain('g1');
+    expect(tableItems('events').filter((item) => String(item.sk).startsWith('QUARANTINE#'))).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import { createEventFilter, decodeCursor, encodeCursor, getQueryFingerprint, parseEventQuery } from '../lambda/utils/event-query';
+
+const SECRET = 'cursor-secret';
+const state = { home_team: 'Arsenal', away_team: 'Chelsea' };
+
+describe('parseEventQuery', () => {
+  test('reads filters, order and page size', () => {
+    expect(parseEventQuery({ type: 'pass', team: 'Home', from_minute: '10', to_minute: '20', order: 'desc', limit: '5' }).query)
+      .toEqual({ filter: { type: 'pass', team: 'Home', from_minute: 10, to_minute: 20 }, order: 'desc', limit: 5 });
+    expect(parseEventQuery({}).query).toEqual({ filter: {}, order: 'asc', limit: 50 });
+  });
+
+  test('rejects invalid parameters', () => {
+    expect(parseEventQuery({ type: 'dribble' }).error).toBeDefined();
+    expect(parseEventQuery({ from_minute: '30', to_minute: '20' }).error).toBeDefined();
+    expect(parseEventQuery({ period: '0' }).error).toBeDefined();
+    expect(parseEventQuery({ order: 'up' }).error).toBeDefined();
+    expect(parseEventQuery({ limit: '201' }).error).toBeDefined();
+  });
+});
+
+describe('createEventFilter', () => {
+  const pass = { event_type: 'pass', team: 'Arsenal', from_player: 'Rice', to_player: 'Saka', minute: 12, period: 1 };
+
+  test('matches Home / Away and the team name against each other', () => {
+    expect(createEventFilter(state, { team: 'Home' })(pass)).toBe(true);
+    expect(createEventFilter(state, { team: 'Arsenal' })({ ...pass, team: 'Home' })).toBe(true);
+    expect(createEventFilter(state, { team: 'Away' })(pass)).toBe(false);
+  });
+
+  test('matches any player field', () => {
+    expect(createEventFilter(state, { player: 'Saka' })(pass)).toBe(true);
+    expect(createEventFilter(state, { player: 'Kane' })(pass)).toBe(false);
+  });
+
+  test('combines type, minute range and period with AND', () => {
+    expect(createEventFilter(state, { type: 'pass', from_minute: 10, to_minute: 12, period: 1 })(pass)).toBe(true);
+    expect(createEventFilter(state, { type: 'pass', to_minute: 11 })(pass)).toBe(false);
+    expect(createEventFilter(state, { period: 2 })(pass)).toBe(false);
+    expect(createEventFilter(state, { from_minute: 0 })({ ...pass, minute: undefined })).toBe(false);
+  });
+});
+
+describe('cursors', () => {
+  const fingerprint = getQueryFingerprint({ type: 'pass' }, 'asc');
+  const key = { pk: 'SEASON#2023-2024#MATCH#m1', sk: 'EVENT#e3', match_order: '0003' };
+
+  test('round-trip the key of the query they were issued for', () => {
+    const cursor = encodeCursor(SECRET, { match_id: 'm1', query: fingerprint, key });
+    expect(decodeCursor(SECRET, cursor, 'm1', fingerprint)).toEqual({ key });
+  });
+
+  test('are bound to the filter, order and match', () => {
+    const cursor = encodeCursor(SECRET, { match_id: 'm1', query: fingerprint, key });
+    expect(getQueryFingerprint({ type: 'pass' }, 'desc')).not.toBe(fingerprint);
+    expect(decodeCursor(SECRET, cursor, 'm1', getQueryFingerprint({ type: 'goal' }, 'asc')).error).toMatch(/different match or query/);
+    expect(decodeCursor(SECRET, cursor, 'm2', fingerprint).error).toMatch(/different match or query/);
+  });
+
+  test('reject tampered, foreign and malformed tokens', () => {
+    const cursor = encodeCursor(SECRET, { match_id: 'm1', query: fingerprint, key });
+    const [, signature] = cursor.split('.');
+    const forged = `${Buffer.from(JSON.stringify({ match_id: 'm1', query: fingerprint, key: { ...key, sk: 'EVENT#e9' } })).toString('base64url')}.${signature}`;
+
+    expect(decodeCursor(SECRET, forged, 'm1', fingerprint).error).toMatch(/signature/);
+    expect(decodeCursor('other-secret', cursor, 'm1', fingerprint).error).toMatch(/signature/);
+    expect(decodeCursor(SECRET, 'not-a-cursor', 'm1', fingerprint).error).toMatch(/malformed/);
+    expect(decodeCursor(SECRET, `${cursor}.extra`, 'm1', fingerprint).error).toMatch(/malformed/);
+  });
+
+  test('fingerprints do not depend on the order of filter fields', () => {
+    expect(getQueryFingerprint({ type: 'pass', team: 'Home' }, 'asc')).toBe(getQueryFingerprint({ team: 'Home', type: 'pass' }, 'asc'));
+  });
+});
@@ -0,0 +1,112 @@
+// In-memory stand-in for lambda/clients/dynamo-client, for tests that run the event processor.
+// Supports the key conditions and filters the projections use: pk = :pk, begins_with(sk, ...),
+// attribute_exists(...) filters, attribute_not_exists(pk) conditions, the match order index and paging.
+
+type Item = Record<string, any>;
+
+export const tables = new Map<string, Map<string, Item>>();
+
+export function resetTables(): void {
+  tables.clear();
+}
+
+/**
+ * Items of a table, sorted by pk and sk
+ */
+export function tableItems(table: string): Item[] {
+  return [...(tables.get(table)?.values() || [])]
+    .sort((a, b) => String(a.pk).localeCompare(String(b.pk)) || String(a.sk).localeCompare(String(b.sk)));
+}
+
+function conditionalCheckFailed(): Error {
+  const error = new Error('The conditional request failed');
+  error.name = 'ConditionalCheckFailedException';
+  return error;
+}
+
+export class DynamoDBClient {
+  public static isConditionalCheckFailed(error: any): boolean {
+    return Boolean(error) && error.name === 'ConditionalCheckFailedException';
+  }
+
+  constructor(_context?: unknown) {}
+
+  public async getItem<T = Item>(table: string, key: Item): Promise<T | null> {
+    const item = this.table(table).get(this.id(key));
+    return item ? (structuredClone(item) as T) : null;
+  }
+
+  public async putItem<T extends Item>(
+    table: string,
+    item: T,
+    options: { conditionExpression?: string; expressionAttributeValues?: Record<string, any> } = {}
+  ): Promise<T> {
+    const existing = this.table(table).get(this.id(item));
+    if (existing && options.conditionExpression?.startsWith('attribute_not_exists(pk)')) {
+      // The idempotency store may take over a claim whose lock expired
+      const lockExpired = options.conditionExpression.includes('lock_expires_at < :now')
+        && existing.status === 'IN_PROGRESS' && existing.lock_expires_at < options.expressionAttributeValues?.[':now'];
+      if (!lockExpired) {
+        throw conditionalCheckFailed();
+      }
+    }
+    this.table(table).set(this.id(item), structuredClone(item));
+    return item;
+  }
+
+  public async deleteItem(table: string, key: Item): Promise<void> {
+    this.table(table).delete(this.id(key));
+  }
+
+  public async query<T = Item>(
+    table: string,
+    keyConditionExpression: string,
+    values: Record<string, any>,
+    options: {
+      filterExpression?: string;
+      indexName?: string;
+      scanIndexForward?: boolean;
+      limit?: number;
+      exclusiveStartKey?: Item;
+    } = {}
+  ): Promise<{ items: T[]; lastEvaluatedKey?: Item }> {
+    const prefix = /begins_with\(sk, (:\w+)\)/.exec(keyConditionExpression)?.[1];
+    const exists = /^attribute_exists\((\w+)\)$/.exec(options.filterExpression || '')?.[1];
+    // The match order index only holds items with a match_order
+    let items = tableItems(table).filter((item) => item.pk === values[':pk']
+      && (!prefix || String(item.sk).startsWith(values[prefix]))
+      && (!options.indexName || item.match_order !== undefined));
+    if (options.indexName) {
+      items.sort((a, b) => String(a.match_order).localeCompare(String(b.match_order)));
+    }
+    if (options.scanIndexForward === false) {
+      items.reverse();
+    }
+    if (options.exclusiveStartKey) {
+      const start = items.findIndex((item) => this.id(item) === this.id(options.exclusiveStartKey!));
+      items = items.slice(start + 1);
+    }
+
+    // Like DynamoDB, the limit counts items read before the filter
+    const read = options.limit !== undefined ? items.slice(0, options.limit) : items;
+    const last = read[read.length - 1];
+    const lastEvaluatedKey = read.length < items.length
+      ? { pk: last.pk, sk: last.sk, ...(options.indexName ? { match_order: last.match_order } : {}) }
+      : undefined;
+    return {
+      items: structuredClone(read.filter((item) => !exists || item[exists] !== undefined)) as T[],
+      ...(lastEvaluatedKey ? { lastEvaluatedKey } : {}),
+    };
+  }
+
+  private table(name: string): Map<string, Item> {
+    if (!tables.has(name)) {
+      tables.set(name, new Map());
+    }
+    return tables.get(name)!;
+  }
+
+  private id(key: Item): string {
+    return `${key.pk}|${key.sk}`;
+  }
+}
@@ -0,0 +1,66 @@
+jest.mock('../lambda/clients/dynamo-client', () => require('./in-memory-dynamo'));
+jest.mock('../lambda/clients/s3-client', () => ({
+  S3Client: class {
+    public async uploadRawData() {}
+  },
+}));
+jest.mock('../lambda/clients/eventbridge-client', () => ({
+  EventBridgeClient: class {
+    public async publishMatchEvents(entries: unknown[]) {
+      published.push(...entries);
+      return entries.map((_, index) => ({ index, eventId: `eb-${published.length - entries.length + index}` }));
+    }
+  },
+}));
+
+import { createAppContext } from '../lib/utils/app-context';
+import { EventLogger, LambdaUtils } from '../lambda/utils/lambda-utils';
+import { IngestionPipeline } from '../lambda/utils/ingestion-pipeline';
+import { resetTables } from './in-memory-dynamo';
+
+const published: unknown[] = [];
+const silentLogger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+const createPipeline = () => {
+  const baseContext = createAppContext();
+  const appContext = createAppContext({ logging: { ...baseContext.logging, logger: silentLogger } });
+  const logger = new EventLogger(silentLogger);
+  return new IngestionPipeline(appContext, new LambdaUtils(logger, appContext), logger);
+};
+
+const pass = (toPlayer: string) => ({
+  event_type: 'pass',
+  match_id: 'm1',
+  timestamp: '2024-03-02T15:10:05.000Z',
+  team: 'Arsenal',
+  from_player: 'Rice',
+  to_player: toPlayer,
+});
+
+describe('IngestionPipeline.ingestBatch', () => {
+  beforeEach(() => {
+    resetTables();
+    published.length = 0;
+  });
+
+  test('accepts different events that share the hashed identifying fields', async () => {
+    const results = await createPipeline().ingestBatch([pass('Saka'), pass('Odegaard')]);
+
+    expect(results.map((result) => result.status)).toEqual(['accepted', 'accepted']);
+    expect(published).toHaveLength(2);
+  });
+
+  test('replays the items of a retried batch instead of publishing them again', async () => {
+    const pipeline = createPipeline();
+    const first = await pipeline.ingestBatch([pass('Saka'), pass('Odegaard')]);
+    const retry = await pipeline.ingestBatch([pass('Saka'), pass('Odegaard'), pass('Martinelli')]);
+
+    expect(retry.map((result) => [result.status, Boolean(result.replayed)])).toEqual([
+      ['accepted', true],
+      ['accepted', true],
+      ['accepted', false],
+    ]);
+    expect(retry.slice(0, 2).map((result) => result.event_id)).toEqual(first.map((result) => result.event_id));
+    expect(published).toHaveLength(3);
+  });
+});
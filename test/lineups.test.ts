@@ -0,0 +1,90 @@
+import { MatchState } from '../lambda/dtos/match-state';
+import { findTeamLineup, getLineupsAt, getMinutesPlayed, toTeamLineup } from '../lambda/utils/lineups';
+import { createMatchState } from '../lambda/utils/match-state';
+
+const createState = (overrides: Partial<MatchState> = {}): MatchState => ({
+  ...createMatchState('m1'),
+  home_team: 'Arsenal',
+  away_team: 'Chelsea',
+  lineups: {
+    Arsenal: toTeamLineup({
+      event_id: 'l1',
+      team: 'Arsenal',
+      formation: '4-3-3',
+      starting: ['Saka', { player: 'Rice', player_id: 41, shirt_number: '41' }, 'White'],
+      bench: ['Trossard'],
+    }),
+  },
+  ...overrides,
+});
+
+const names = (players: { player: string }[]) => players.map((player) => player.player);
+
+describe('toTeamLineup', () => {
+  test('turns names into players and keeps the details the feed sends', () => {
+    const lineup = createState().lineups!.Arsenal;
+
+    expect(lineup.starting).toEqual([{ player: 'Saka' }, { player: 'Rice', player_id: '41', shirt_number: 41 }, { player: 'White' }]);
+    expect(lineup).toMatchObject({ event_id: 'l1', formation: '4-3-3', bench: [{ player: 'Trossard' }] });
+  });
+});
+
+describe('findTeamLineup', () => {
+  test('finds a lineup by team name or side', () => {
+    const state = createState();
+
+    expect(findTeamLineup(state, 'Home')?.event_id).toBe('l1');
+    expect(findTeamLineup(state, 'Arsenal')?.event_id).toBe('l1');
+    expect(findTeamLineup(state, 'Away')).toBeUndefined();
+  });
+});
+
+describe('getMinutesPlayed', () => {
+  test('counts from coming on to going off or the minute asked for', () => {
+    expect(getMinutesPlayed(0, undefined, 30)).toBe(30);
+    expect(getMinutesPlayed(0, 60, 90)).toBe(60);
+    expect(getMinutesPlayed(60, undefined, 90)).toBe(30);
+    expect(getMinutesPlayed(70, undefined, 60)).toBe(0);
+  });
+});
+
+describe('getLineupsAt', () => {
+  const state = createState({
+    substitutions: [
+      { event_id: 's1', team: 'Home', player_in: 'Trossard', player_out: 'Saka', minute: 60, formation: '4-4-2' },
+      { event_id: 's2', team: 'Arsenal', player_in: 'Nelson', player_out: 'Rice', minute: 80 },
+      { event_id: 's3', team: 'Chelsea', player_in: 'Mudryk', player_out: 'Palmer', minute: 10 },
+    ],
+    cards: [
+      { event_id: 'c1', team: 'Arsenal', player: 'White', card_type: 'yellow', minute: 20 },
+      { event_id: 'c2', team: 'Arsenal', player: 'White', card_type: 'yellow', minute: 70, second_yellow: true },
+      { event_id: 'c3', team: 'Arsenal', player: 'White', card_type: 'red', minute: 70, implied_by: 'c2' },
+    ],
+  });
+
+  test('leaves the starting lineup on the pitch before any change', () => {
+    const [arsenal] = getLineupsAt(state, 30);
+
+    expect(names(arsenal.on_pitch)).toEqual(['Saka', 'Rice', 'White']);
+    expect(names(arsenal.bench)).toEqual(['Trossard']);
+    expect(arsenal.formation).toBe('4-3-3');
+    expect(arsenal.on_pitch.map((player) => player.minutes_played)).toEqual([30, 30, 30]);
+  });
+
+  test('applies the team\'s substitutions and their formation up to the minute', () => {
+    const [arsenal] = getLineupsAt(state, 65);
+
+    expect(names(arsenal.on_pitch)).toEqual(['Rice', 'White', 'Trossard']);
+    expect(arsenal.substituted_off).toEqual([expect.objectContaining({ player: 'Saka', on_minute: 0, off_minute: 60, minutes_played: 60 })]);
+    expect(arsenal.on_pitch.find((player) => player.player === 'Trossard')).toMatchObject({ on_minute: 60, minutes_played: 5 });
+    expect(arsenal.formation).toBe('4-4-2');
+  });
+
+  test('sends a player off once for a second yellow, and brings on players missing from the bench', () => {
+    const [arsenal] = getLineupsAt(state, 90);
+
+    expect(names(arsenal.on_pitch)).toEqual(['Trossard', 'Nelson']);
+    expect(arsenal.sent_off).toEqual([expect.objectContaining({ player: 'White', off_minute: 70, minutes_played: 70 })]);
+    expect(names(arsenal.substituted_off)).toEqual(['Saka', 'Rice']);
+  });
+});
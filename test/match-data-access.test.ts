@@ -0,0 +1,106 @@
+import { createAppContext } from '../lib/utils/app-context';
+import { DynamoDBClient as AwsDynamoDBClient } from '../lambda/clients/dynamo-client';
+import { MatchDataAccess } from '../lambda/utils/match-data-access';
+import { createEventFilter } from '../lambda/utils/event-query';
+import { DynamoDBClient, resetTables } from './in-memory-dynamo';
+
+const PK = 'SEASON#2023-2024#MATCH#m1';
+const location = { match_id: 'm1', season: '2023-2024', partition_key: PK };
+const state = { home_team: 'Arsenal', away_team: 'Chelsea' };
+
+const storeEvent = (dynamo: DynamoDBClient, order: number, fields: Record<string, any> = {}) =>
+  dynamo.putItem('events', {
+    pk: PK,
+    sk: `EVENT#e${order}`,
+    event_id: `e${order}`,
+    event_type: 'foul',
+    match_id: 'm1',
+    team: 'Arsenal',
+    player: 'Rice',
+    minute: order,
+    period: 1,
+    match_order: String(order).padStart(4, '0'),
+    ...fields,
+  });
+
+const storeAmendment = (dynamo: DynamoDBClient, parentId: string, fields: Record<string, any>) =>
+  dynamo.putItem('events', {
+    pk: PK,
+    sk: `AMENDMENT#${parentId}#2024-03-02T16:00:00.000Z#a-${parentId}`,
+    event_id: `a-${parentId}`,
+    parent_id: parentId,
+    event_type: 'amendment',
+    amended_event_type: 'foul',
+    amended_at: '2024-03-02T16:00:00.000Z',
+    ...fields,
+  });
+
+const createMatchData = (dynamo: DynamoDBClient) =>
+  new MatchDataAccess(createAppContext(), dynamo as unknown as AwsDynamoDBClient);
+
+describe('MatchDataAccess.queryEvents', () => {
+  let dynamo: DynamoDBClient;
+
+  beforeEach(async () => {
+    resetTables();
+    dynamo = new DynamoDBClient();
+    for (let order = 1; order <= 5; order++) {
+      await storeEvent(dynamo, order);
+    }
+  });
+
+  test('filters on corrected values', async () => {
+    await storeAmendment(dynamo, 'e2', { amendment_type: 'correction', changes: { player: 'Partey' } });
+    const matchData = createMatchData(dynamo);
+
+    const byOriginal = await matchData.queryEvents(location, {
+      filter: createEventFilter(state, { player: 'Rice' }), ascending: true, limit: 10,
+    });
+    const byCorrected = await matchData.queryEvents(location, {
+      filter: createEventFilter(state, { player: 'Partey' }), ascending: true, limit: 10,
+    });
+
+    expect(byOriginal.events.map((event) => event.event_id)).toEqual(['e1', 'e3', 'e4', 'e5']);
+    expect(byCorrected.events).toEqual([expect.objectContaining({ event_id: 'e2', player: 'Partey', amended: true })]);
+  });
+
+  test('retracted events do not take a place in the page', async () => {
+    await storeAmendment(dynamo, 'e2', { amendment_type: 'retraction' });
+    const page = await createMatchData(dynamo).queryEvents(location, {
+      filter: createEventFilter(state, {}), ascending: true, limit: 2,
+    });
+
+    expect(page.events.map((event) => event.event_id)).toEqual(['e1', 'e3']);
+    expect(page.lastEvaluatedKey).toEqual({ pk: PK, sk: 'EVENT#e3', match_order: '0003' });
+  });
+
+  test('pages through every matching event once, in either order', async () => {
+    const matchData = createMatchData(dynamo);
+    const readAll = async (ascending: boolean) => {
+      const ids: string[] = [];
+      let exclusiveStartKey: Record<string, any> | undefined;
+      do {
+        const page = await matchData.queryEvents(location, {
+          filter: createEventFilter(state, { from_minute: 2 }), ascending, limit: 2, exclusiveStartKey,
+        });
+        ids.push(...page.events.map((event) => event.event_id));
+        exclusiveStartKey = page.lastEvaluatedKey;
+      } while (exclusiveStartKey);
+      return ids;
+    };
+
+    expect(await readAll(true)).toEqual(['e2', 'e3', 'e4', 'e5']);
+    expect(await readAll(false)).toEqual(['e5', 'e4', 'e3', 'e2']);
+  });
+
+  test('skips reading amendments of a match known to have none', async () => {
+    await storeAmendment(dynamo, 'e1', { amendment_type: 'retraction' });
+    const query = jest.spyOn(dynamo, 'query');
+    const page = await createMatchData(dynamo).queryEvents({ ...location, has_amendments: false }, {
+      filter: createEventFilter(state, {}), ascending: true, limit: 10,
+    });
+
+    expect(query).toHaveBeenCalledTimes(1);
+    expect(page.events).toHaveLength(5);
+  });
+});
@@ -0,0 +1,108 @@
+import { MatchPhase, MatchState } from '../lambda/dtos/match-state';
+import {
+  LIFECYCLE_TRANSITIONS,
+  checkLifecycle,
+  getLifecyclePeriod,
+  getLifecycleTarget,
+  getMatchPhase
+} from '../lambda/utils/match-lifecycle';
+import { createMatchState } from '../lambda/utils/match-state';
+
+const STOPPAGE_MINUTES = 15;
+
+const stateIn = (phase: MatchPhase, period: number): MatchState => ({ ...createMatchState('m1'), phase, period });
+
+const rulesOf = (state: MatchState, event: Record<string, any>) =>
+  checkLifecycle(state, event, STOPPAGE_MINUTES).findings.map((finding) => finding.rule);
+
+describe('getLifecycleTarget', () => {
+  test.each<[MatchPhase, Record<string, any>, MatchPhase]>([
+    ['scheduled', { event_type: 'kickoff' }, 'first_half'],
+    ['postponed', { event_type: 'kickoff' }, 'first_half'],
+    ['halftime', { event_type: 'kickoff' }, 'second_half'],
+    ['finished', { event_type: 'kickoff', period: 3 }, 'extra_time'],
+    ['extra_time', { event_type: 'kickoff', period: 5 }, 'penalties'],
+    ['first_half', { event_type: 'halftime' }, 'halftime'],
+    ['extra_time', { event_type: 'halftime' }, 'extra_time'],
+    ['second_half', { event_type: 'fulltime' }, 'finished'],
+    ['scheduled', { event_type: 'postponed' }, 'postponed'],
+    ['second_half', { event_type: 'abandoned' }, 'abandoned'],
+  ])('%s + %j moves to %s', (phase, event, target) => {
+    expect(getLifecycleTarget(phase, event)).toBe(target);
+  });
+
+  test('periods follow the kickoff, or the phase for other markers', () => {
+    expect(getLifecyclePeriod('extra_time', 3, { event_type: 'kickoff', period: 4 })).toBe(4);
+    expect(getLifecyclePeriod('second_half', 1, { event_type: 'kickoff' })).toBe(2);
+    expect(getLifecyclePeriod('penalties', 4, { event_type: 'kickoff' })).toBe(5);
+  });
+});
+
+describe('checkLifecycle', () => {
+  test('allows every transition of the table and rejects the others', () => {
+    const markers: Record<string, any>[] = [
+      { event_type: 'kickoff', period: 1 },
+      { event_type: 'kickoff', period: 2 },
+      { event_type: 'kickoff', period: 3 },
+      { event_type: 'kickoff', period: 5 },
+      { event_type: 'halftime' },
+      { event_type: 'fulltime' },
+      { event_type: 'abandoned' },
+      { event_type: 'postponed' },
+    ];
+    for (const phase of Object.keys(LIFECYCLE_TRANSITIONS) as MatchPhase[]) {
+      for (const marker of markers) {
+        const target = getLifecycleTarget(phase, marker);
+        const check = checkLifecycle(stateIn(phase, 1), marker, STOPPAGE_MINUTES);
+        if (check.redundant) {
+          continue;
+        }
+        const allowed = LIFECYCLE_TRANSITIONS[phase].includes(target);
+        expect([phase, marker, check.findings.length === 0]).toEqual([phase, marker, allowed]);
+      }
+    }
+  });
+
+  test('a marker that repeats the phase is redundant, not a violation', () => {
+    const check = checkLifecycle(stateIn('first_half', 1), { event_type: 'kickoff', period: 1 }, STOPPAGE_MINUTES);
+
+    expect(check).toEqual({ findings: [], redundant: expect.stringContaining('first_half') });
+  });
+
+  test('the halftime of extra time is not redundant', () => {
+    expect(checkLifecycle(stateIn('extra_time', 3), { event_type: 'halftime' }, STOPPAGE_MINUTES).redundant).toBeUndefined();
+  });
+
+  test('a second-half event before the second-half kickoff is a period mismatch', () => {
+    const goal = { event_type: 'goal', period: 2, minute: 47 };
+
+    expect(rulesOf(stateIn('first_half', 1), goal)).toEqual(['period_mismatch']);
+    expect(rulesOf(stateIn('halftime', 1), goal)).toEqual(['period_mismatch']);
+    expect(rulesOf(stateIn('second_half', 2), goal)).toEqual([]);
+  });
+
+  test('play at halftime, or in a closed match, is not in play', () => {
+    expect(rulesOf(stateIn('halftime', 1), { event_type: 'shot', period: 1, minute: 45 })).toEqual(['match_not_in_play']);
+    expect(rulesOf(stateIn('halftime', 1), { event_type: 'card', period: 1, minute: 45 })).toEqual([]);
+    expect(rulesOf(stateIn('finished', 2), { event_type: 'goal', period: 2, minute: 80 })).toEqual(['match_not_in_play']);
+  });
+
+  test('minutes must fall within the period and its stoppage time', () => {
+    expect(rulesOf(stateIn('first_half', 1), { event_type: 'goal', period: 1, minute: 45 + STOPPAGE_MINUTES })).toEqual([]);
+    expect(rulesOf(stateIn('first_half', 1), { event_type: 'goal', period: 1, minute: 46 + STOPPAGE_MINUTES })).toEqual(['period_mismatch']);
+    expect(rulesOf(stateIn('second_half', 2), { event_type: 'goal', period: 2, minute: 30 })).toEqual(['period_mismatch']);
+  });
+
+  test('lineups must come before kickoff', () => {
+    expect(rulesOf(stateIn('scheduled', 0), { event_type: 'lineup', team: 'Arsenal' })).toEqual([]);
+    expect(rulesOf(stateIn('first_half', 1), { event_type: 'lineup', team: 'Arsenal' })).toEqual(['period_mismatch']);
+  });
+});
+
+describe('getMatchPhase', () => {
+  test('derives the phase of states written before it was tracked', () => {
+    expect(getMatchPhase({ status: 'live', period: 2 })).toBe('second_half');
+    expect(getMatchPhase({ status: 'live', period: 4 })).toBe('extra_time');
+    expect(getMatchPhase({ status: 'finished', period: 2 })).toBe('finished');
+  });
+});
@@ -0,0 +1,139 @@
+import { DynamoDBClient as AwsDynamoDBClient } from '../lambda/clients/dynamo-client';
+import { MatchState } from '../lambda/dtos/match-state';
+import {
+  DEFAULT_MATCH_RULES,
+  MatchRuleEngine,
+  evaluateMatchRules,
+  getViolationAction,
+  mergeRulesConfig
+} from '../lambda/utils/match-rules';
+import { applyEventToState, buildMatchStateKey, createMatchState } from '../lambda/utils/match-state';
+import { buildMatchOrder } from '../lambda/utils/match-sequencer';
+import { DynamoDBClient, resetTables } from './in-memory-dynamo';
+
+const PK = 'SEASON#2023-2024#MATCH#m1';
+const silentLogger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+let sequence = 0;
+const event = (fields: Record<string, any>) => {
+  const timestamp = fields.timestamp || `2024-03-02T15:${String(10 + sequence).padStart(2, '0')}:00.000Z`;
+  sequence++;
+  return {
+    event_id: `e${sequence}`,
+    match_id: 'm1',
+    team: 'Arsenal',
+    period: 1,
+    minute: 10,
+    timestamp,
+    match_order: buildMatchOrder(timestamp, sequence),
+    ...fields,
+  };
+};
+
+const kickoff = () => event({ event_type: 'kickoff', home_team: 'Arsenal', away_team: 'Chelsea', team: undefined, minute: 0 });
+const card = (player: string, cardType: 'yellow' | 'red', fields: Record<string, any> = {}) =>
+  event({ event_type: 'card', player, card_type: cardType, ...fields });
+const substitution = (playerOut: string, playerIn: string) =>
+  event({ event_type: 'substitution', player_out: playerOut, player_in: playerIn });
+
+const stateAfter = (events: Record<string, any>[]): MatchState => events.reduce(applyEventToState, createMatchState('m1'));
+
+describe('evaluateMatchRules', () => {
+  beforeEach(() => { sequence = 0; });
+
+  test('a second yellow implies a red card', () => {
+    const state = stateAfter([kickoff(), card('Rice', 'yellow')]);
+    const second = card('Rice', 'yellow');
+    const evaluation = evaluateMatchRules(state, second, DEFAULT_MATCH_RULES, second.event_id);
+
+    expect(evaluation.violations).toEqual([]);
+    expect(evaluation.implied).toEqual([expect.objectContaining({
+      event_id: `${second.event_id}-second-yellow-red`,
+      card_type: 'red',
+      second_yellow: true,
+      implied_by: second.event_id,
+    })]);
+  });
+
+  test('the red card a feed sends after an implied one is redundant', () => {
+    const yellow = card('Rice', 'yellow', { minute: 60 });
+    const state = stateAfter([kickoff(), card('Rice', 'yellow'), yellow, { ...card('Rice', 'red', { minute: 60 }), implied_by: yellow.event_id }]);
+    const feedRed = card('Rice', 'red', { minute: 60 });
+
+    expect(evaluateMatchRules(state, feedRed, DEFAULT_MATCH_RULES, feedRed.event_id).redundant).toMatch(/already recorded/);
+  });
+
+  test('no implied red card when the competition turns it off', () => {
+    const state = stateAfter([kickoff(), card('Rice', 'yellow')]);
+    const second = card('Rice', 'yellow');
+    const config = mergeRulesConfig({ second_yellow_red: false });
+
+    expect(evaluateMatchRules(state, second, config, second.event_id).implied).toEqual([]);
+  });
+
+  test('rejects events of sent-off and substituted players', () => {
+    const state = stateAfter([kickoff(), card('Rice', 'red'), substitution('Saka', 'Trossard')]);
+    const foul = event({ event_type: 'foul', player: 'Rice' });
+    const pass = event({ event_type: 'pass', from_player: 'Odegaard', to_player: 'Saka' });
+
+    expect(evaluateMatchRules(state, foul, DEFAULT_MATCH_RULES, foul.event_id).violations)
+      .toEqual([expect.objectContaining({ rule: 'sent_off_player', action: 'reject', player: 'Rice' })]);
+    expect(evaluateMatchRules(state, pass, DEFAULT_MATCH_RULES, pass.event_id).violations)
+      .toEqual([expect.objectContaining({ rule: 'substituted_player', player: 'Saka' })]);
+  });
+
+  test('flags a third yellow and substitutions past the limit', () => {
+    const config = mergeRulesConfig({ max_substitutions: 1 });
+    const state = stateAfter([kickoff(), card('Rice', 'yellow'), card('Rice', 'yellow', { second_yellow: true }), substitution('Saka', 'Trossard')]);
+    const third = card('Rice', 'yellow');
+    const secondSub = substitution('Odegaard', 'Trossard');
+
+    expect(evaluateMatchRules(state, third, config, third.event_id).violations.map((violation) => violation.rule)).toContain('third_yellow');
+    expect(evaluateMatchRules(state, secondSub, config, secondSub.event_id).violations.map((violation) => violation.rule))
+      .toEqual(['max_substitutions', 'substitute_already_played']);
+  });
+
+  test('rules set to off are not reported', () => {
+    const state = stateAfter([kickoff(), card('Rice', 'red')]);
+    const foul = event({ event_type: 'foul', player: 'Rice' });
+    const config = mergeRulesConfig({ rules: { sent_off_player: 'off' } as any });
+
+    expect(evaluateMatchRules(state, foul, config, foul.event_id).violations).toEqual([]);
+  });
+});
+
+describe('getViolationAction', () => {
+  test('one rejecting rule rejects the event', () => {
+    expect(getViolationAction([])).toBeUndefined();
+    expect(getViolationAction([{ rule: 'period_mismatch', action: 'quarantine', message: '' }])).toBe('quarantine');
+    expect(getViolationAction([
+      { rule: 'period_mismatch', action: 'quarantine', message: '' },
+      { rule: 'sent_off_player', action: 'reject', message: '' },
+    ])).toBe('reject');
+  });
+});
+
+describe('MatchRuleEngine', () => {
+  beforeEach(() => {
+    resetTables();
+    sequence = 0;
+  });
+
+  test('checks a late event against the match at its time, across offsets and precisions', async () => {
+    const dynamo = new DynamoDBClient();
+    const events = [
+      kickoff(),
+      card('Rice', 'red', { timestamp: '2024-03-02T16:00:05.123Z' }),
+    ];
+    for (const stored of events) {
+      await dynamo.putItem('events', { pk: PK, sk: `EVENT#${stored.event_id}`, ...stored });
+    }
+    await dynamo.putItem('matches', { ...stateAfter(events), ...buildMatchStateKey('m1') });
+
+    // 16:00:05Z, before the red card; as strings it sorts after it
+    const foul = event({ event_type: 'foul', player: 'Rice', timestamp: '2024-03-02T17:00:05+01:00' });
+    const engine = new MatchRuleEngine(dynamo as unknown as AwsDynamoDBClient, silentLogger);
+
+    expect((await engine.evaluate(foul, PK, foul.event_id)).violations).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+import { OptaAdapter } from '../lambda/adapters/opta-adapter';
+import { getEventValidationRules } from '../lambda/utils/event-schemas';
+
+const GAME = {
+  id: 'g1',
+  home_team_id: 't1',
+  away_team_id: 't2',
+  home_team_name: 'Arsenal',
+  away_team_name: 'Chelsea',
+  game_date: '2024-03-02T15:00:00Z',
+};
+
+let nextId = 0;
+const optaEvent = (typeId: number, fields: Record<string, any> = {}) => ({
+  id: String(++nextId),
+  type_id: typeId,
+  period_id: 1,
+  min: 10,
+  sec: 0,
+  team_id: 't1',
+  qualifiers: [],
+  ...fields,
+});
+
+const normalize = (events: unknown[], game: Record<string, any> = GAME) =>
+  new OptaAdapter().normalize(JSON.stringify({ game, events }), {});
+
+const schemaErrors = (event: Record<string, any>) =>
+  getEventValidationRules(event.event_type).filter((rule) => !rule.validator(event[rule.field], event)).map((rule) => rule.message);
+
+describe('OptaAdapter', () => {
+  test('emits unsuccessful passes as incomplete, without a recipient', () => {
+    const { events, skipped } = normalize([
+      optaEvent(1, { player_id: 'p1', outcome: 1, x: 50, y: 50 }),
+      optaEvent(1, { player_id: 'p2', outcome: 0, qualifiers: [{ qualifier_id: 140, value: '80' }, { qualifier_id: 141, value: '50' }] }),
+      optaEvent(1, { player_id: 'p3', outcome: 1, team_id: 't2' }),
+    ]);
+
+    expect(events.map(({ event }) => [event.from_player, event.to_player, event.success, event.outcome])).toEqual([
+      ['p1', 'p2', true, undefined],
+      ['p2', undefined, false, 'incomplete'],
+    ]);
+    expect(events[1].event.end_position).toEqual({ x: 84, y: 34 });
+    expect(events.map(({ event }) => schemaErrors(event))).toEqual([[], []]);
+    // The last pass has no next actor to receive it
+    expect(skipped).toEqual([expect.objectContaining({ reason: 'Pass without an identifiable recipient' })]);
+  });
+
+  test('maps shots, own goals, the offending side of fouls, cards and substitutions', () => {
+    const { events, skipped } = normalize([
+      optaEvent(16, { player_id: 'p9', x: 90, y: 50, qualifiers: [{ qualifier_id: 15 }, { qualifier_id: 9 }] }),
+      optaEvent(16, { player_id: 'p4', team_id: 't2', qualifiers: [{ qualifier_id: 28 }] }),
+      optaEvent(15, { player_id: 'p9', x: 85, y: 40, qualifiers: [{ qualifier_id: 82 }] }),
+      optaEvent(4, { player_id: 'p5', outcome: 0 }),
+      optaEvent(4, { player_id: 'p6', outcome: 1, team_id: 't2' }),
+      optaEvent(17, { player_id: 'p5', qualifiers: [{ qualifier_id: 32 }] }),
+      optaEvent(18, { player_id: 'p9', min: 70 }),
+      optaEvent(19, { player_id: 'p12', min: 70 }),
+    ]);
+
+    expect(events.map(({ event }) => event.event_type)).toEqual(['shot', 'goal', 'goal', 'shot', 'foul', 'card', 'substitution']);
+    expect(events[0].event).toMatchObject({ body_part: 'head', situation: 'penalty', outcome: 'goal', team: 'Arsenal' });
+    expect(events[2].event).toMatchObject({ own_goal: true, team: 'Chelsea' });
+    expect(events[3].event.outcome).toBe('blocked');
+    expect(events[5].event).toMatchObject({ card_type: 'yellow', second_yellow: true });
+    expect(events[6].event).toMatchObject({ player_out: 'p9', player_in: 'p12' });
+    expect(skipped.map((entry) => entry.reason)).toEqual(['Fouled-player side of a foul']);
+  });
+
+  test('places events without a timestamp relative to the game date', () => {
+    const { events } = normalize([
+      optaEvent(4, { player_id: 'p5', outcome: 0, min: 47, sec: 30, period_id: 2 }),
+      optaEvent(4, { player_id: 'p5', outcome: 0, timestamp: '2024-03-02T16:05:01.250' }),
+    ]);
+
+    expect(events.map(({ event }) => event.timestamp)).toEqual(['2024-03-02T15:47:30.000Z', '2024-03-02T16:05:01.250Z']);
+    expect(() => normalize([optaEvent(4, { outcome: 0 })], { ...GAME, game_date: undefined })).toThrow('kickoff is required');
+  });
+
+  test('maps period markers of the home team through extra time and penalties', () => {
+    const markers = [1, 2, 3, 4, 5].flatMap((period) => [
+      optaEvent(32, { period_id: period }),
+      optaEvent(32, { period_id: period, team_id: 't2' }),
+      optaEvent(30, { period_id: period }),
+    ]);
+    const { events } = normalize(markers);
+
+    expect(events.map(({ event }) => `${event.event_type}:${event.period}`)).toEqual([
+      'kickoff:1', 'halftime:1',
+      'kickoff:2',
+      'kickoff:3', 'halftime:3',
+      'kickoff:4',
+      'kickoff:5', 'fulltime:5',
+    ]);
+    expect(events[0].event).toMatchObject({ home_team: 'Arsenal', away_team: 'Chelsea' });
+  });
+
+  test('reads the F24 XML form', () => {
+    const xml = `<Games><Game id="g1" home_team_id="t1" away_team_id="t2" home_team_name="Arsenal &amp; Co" game_date="2024-03-02T15:00:00Z">
+      <Event id="1" type_id="17" period_id="1" min="12" sec="5" team_id="t1" player_id="p5"><Q qualifier_id="33"/></Event>
+    </Game></Games>`;
+    const { events } = new OptaAdapter().normalize(xml, {});
+
+    expect(events[0].event).toMatchObject({ event_type: 'card', card_type: 'red', team: 'Arsenal & Co', match_id: 'g1' });
+  });
+});
@@ -0,0 +1,108 @@
+import { buildPassNetwork, buildPassNetworks, computeBetweenness } from '../lambda/utils/pass-network';
+
+const pass = (fromPlayer: string, toPlayer: string | undefined, overrides: Record<string, any> = {}) => ({
+  event_type: 'pass',
+  team: 'Arsenal',
+  from_player: fromPlayer,
+  ...(toPlayer ? { to_player: toPlayer } : {}),
+  ...overrides,
+});
+
+describe('buildPassNetwork', () => {
+  test('counts edges and the completed-pass matrix, failed passes towards the intended recipient', () => {
+    const network = buildPassNetwork('Arsenal', [
+      pass('Rice', 'Saka', { position: { x: 40, y: 30 } }),
+      pass('Rice', 'Saka', { success: false, outcome: 'incomplete', position: { x: 50, y: 40 } }),
+      pass('Saka', 'Odegaard'),
+    ]);
+
+    expect(network.edges).toEqual([
+      { from_player_id: 'Rice', from_player: 'Rice', to_player_id: 'Saka', to_player: 'Saka', passes: 2, completed: 1 },
+      { from_player_id: 'Saka', from_player: 'Saka', to_player_id: 'Odegaard', to_player: 'Odegaard', passes: 1, completed: 1 },
+    ]);
+    expect(network.matrix).toEqual({ Rice: { Saka: 1 }, Saka: { Odegaard: 1 } });
+    expect(network).toMatchObject({ total_passes: 3, completed_passes: 2, completion_rate: 66.7 });
+
+    const rice = network.players.find((player) => player.player_id === 'Rice')!;
+    expect(rice).toMatchObject({ passes_attempted: 2, passes_completed: 1, completion_rate: 50, average_position: { x: 45, y: 35 } });
+  });
+
+  test('counts an incomplete pass without a recipient for the passer only', () => {
+    const network = buildPassNetwork('Arsenal', [
+      pass('Rice', 'Saka'),
+      pass('Rice', undefined, { success: false, outcome: 'incomplete', position: { x: 60, y: 20 } }),
+    ]);
+
+    expect(network.edges).toHaveLength(1);
+    expect(network.players.map((player) => player.player_id)).toEqual(['Rice', 'Saka']);
+    expect(network.players[0]).toMatchObject({ passes_attempted: 2, passes_completed: 1, positioned_passes: 1, average_position: { x: 60, y: 20 } });
+  });
+
+  test('keys players by id when the feed sends one', () => {
+    const network = buildPassNetwork('Arsenal', [
+      pass('B. Saka', 'M. Odegaard', { from_player_id: 'p7', to_player_id: 'p8' }),
+      pass('Saka', 'Odegaard', { from_player_id: 'p7', to_player_id: 'p8' }),
+    ]);
+
+    expect(network.edges).toEqual([expect.objectContaining({ from_player_id: 'p7', to_player_id: 'p8', passes: 2 })]);
+    expect(network.players.map((player) => player.player_id)).toEqual(['p7', 'p8']);
+  });
+
+  test('computes degree and betweenness from completed passes', () => {
+    const network = buildPassNetwork('Arsenal', [
+      pass('Rice', 'Saka'),
+      pass('Saka', 'Odegaard'),
+      pass('Rice', 'Odegaard', { success: false }),
+    ]);
+    const centrality = Object.fromEntries(network.players.map((player) =>
+      [player.player_id, [player.out_degree, player.in_degree, player.degree_centrality, player.betweenness_centrality]]));
+
+    expect(centrality).toEqual({
+      Rice: [1, 0, 0.5, 0],
+      Saka: [1, 1, 1, 0.5],
+      Odegaard: [0, 1, 0.5, 0],
+    });
+  });
+});
+
+describe('computeBetweenness', () => {
+  test('prefers frequent connections and splits equally short paths', () => {
+    // A reaches D through B (2 passes each way) rather than C (1 pass each way)
+    const strong = computeBetweenness(['A', 'B', 'C', 'D'], {
+      A: { B: 2, C: 1 },
+      B: { D: 2 },
+      C: { D: 1 },
+    });
+    expect(strong.get('B')).toBeGreaterThan(0);
+    expect(strong.get('C')).toBe(0);
+
+    const even = computeBetweenness(['A', 'B', 'C', 'D'], {
+      A: { B: 1, C: 1 },
+      B: { D: 1 },
+      C: { D: 1 },
+    });
+    expect(even.get('B')).toBe(even.get('C'));
+    expect(even.get('B')).toBeCloseTo(0.5 / 6, 4);
+  });
+});
+
+describe('buildPassNetworks', () => {
+  const state = { home_team: 'Arsenal', away_team: 'Chelsea' };
+
+  test('groups Home / Away passes under the team names and applies the minute range', () => {
+    const networks = buildPassNetworks(state, [
+      pass('Rice', 'Saka', { team: 'Home', minute: 5 }),
+      pass('Rice', 'Saka', { team: 'Arsenal', minute: 50 }),
+      pass('Enzo', 'Palmer', { team: 'Chelsea', minute: 20 }),
+      { event_type: 'shot', team: 'Arsenal', minute: 10 },
+    ], { to_minute: 45 });
+
+    expect(networks.map((network) => [network.team, network.total_passes])).toEqual([['Arsenal', 1], ['Chelsea', 1]]);
+  });
+
+  test('returns only the requested team', () => {
+    const networks = buildPassNetworks(state, [pass('Enzo', 'Palmer', { team: 'Away' })], { team: 'Away' });
+
+    expect(networks.map((network) => [network.team, network.total_passes])).toEqual([['Chelsea', 1]]);
+  });
+});
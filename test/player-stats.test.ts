@@ -0,0 +1,60 @@
+import { DynamoDBClient as AwsDynamoDBClient } from '../lambda/clients/dynamo-client';
+import { createAppContext } from '../lib/utils/app-context';
+import { PlayerStatsAggregator } from '../lambda/utils/player-stats';
+import { DynamoDBClient, resetTables, tableItems } from './in-memory-dynamo';
+
+const PK = 'SEASON#2023-2024#MATCH#m1';
+const silentLogger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+const pass = (eventId: string, fields: Record<string, any> = {}) => ({
+  pk: PK,
+  sk: `EVENT#${eventId}`,
+  event_id: eventId,
+  event_type: 'pass',
+  match_id: 'm1',
+  team: 'Arsenal',
+  from_player: 'Rice',
+  from_player_id: 'p1',
+  to_player: 'Saka',
+  to_player_id: 'p2',
+  ...fields,
+});
+
+const createAggregator = () =>
+  new PlayerStatsAggregator(new DynamoDBClient() as unknown as AwsDynamoDBClient, silentLogger, createAppContext().eventnameGenerator);
+
+const itemsWithPrefix = (prefix: string) => tableItems('events').filter((item) => String(item.sk).startsWith(prefix));
+
+describe('PlayerStatsAggregator.apply', () => {
+  beforeEach(() => resetTables());
+
+  test('counts a redelivered event once and keeps no list of counted events', async () => {
+    const aggregator = createAggregator();
+
+    await aggregator.apply(PK, pass('e1'));
+    await aggregator.apply(PK, pass('e2', { success: false, to_player: undefined, to_player_id: undefined, outcome: 'incomplete' }));
+    await aggregator.apply(PK, pass('e1'));
+
+    const players = itemsWithPrefix('PLAYER#');
+    expect(players.map((item) => [item.player, item.passes_attempted, item.passes_completed, item.passes_received])).toEqual([
+      ['Rice', 2, 1, 0],
+      ['Saka', 0, 0, 1],
+    ]);
+    expect(players.every((item) => item.counted_events === undefined)).toBe(true);
+    expect(itemsWithPrefix('COUNTED#').map((item) => item.sk)).toEqual(['COUNTED#e1#passer', 'COUNTED#e1#receiver', 'COUNTED#e2#passer']);
+    expect(itemsWithPrefix('COUNTED#').every((item) => item.expires_at > Date.now() / 1000)).toBe(true);
+  });
+
+  test('drops the counted list of items written before the markers', async () => {
+    const aggregator = createAggregator();
+    await aggregator.apply(PK, pass('e1'));
+    const [rice] = itemsWithPrefix('PLAYER#');
+    await new DynamoDBClient().putItem('events', { ...rice, counted_events: ['e0#passer'] });
+
+    await aggregator.apply(PK, pass('e3'));
+
+    const [updated] = itemsWithPrefix('PLAYER#');
+    expect(updated.passes_attempted).toBe(2);
+    expect(updated.counted_events).toBeUndefined();
+  });
+});
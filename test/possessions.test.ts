@@ -0,0 +1,100 @@
+import { buildPossessionChains, summarizePossession } from '../lambda/utils/possessions';
+
+const state = { home_team: 'Arsenal', away_team: 'Chelsea' };
+
+let counter = 0;
+const event = (eventType: string, team: string | undefined, minute: number, second: number, fields: Record<string, any> = {}) => ({
+  event_id: `e${++counter}`,
+  event_type: eventType,
+  ...(team ? { team } : {}),
+  period: minute < 45 ? 1 : 2,
+  minute,
+  second,
+  ...fields,
+});
+const pass = (team: string, minute: number, second: number, fields: Record<string, any> = {}) =>
+  event('pass', team, minute, second, { from_player: 'A', to_player: 'B', ...fields });
+
+const endings = (events: Record<string, any>[]) =>
+  buildPossessionChains(state, events).map((chain) => [chain.team, chain.ended_by]);
+
+describe('buildPossessionChains', () => {
+  beforeEach(() => { counter = 0; });
+
+  test('follows one team until the other team acts, and times the chain on the match clock', () => {
+    const chains = buildPossessionChains(state, [
+      pass('Arsenal', 10, 0, { from_player: 'Rice', to_player: 'Saka' }),
+      pass('Home', 10, 12, { from_player: 'Saka', to_player: 'Odegaard' }),
+      pass('Chelsea', 10, 20),
+    ]);
+
+    expect(chains[0]).toMatchObject({
+      sequence: 1,
+      team: 'Arsenal',
+      actions: 2,
+      passes: 2,
+      completed_passes: 2,
+      players: ['Rice', 'Saka', 'Odegaard'],
+      duration_seconds: 12,
+      ended_by: 'turnover',
+    });
+    expect(chains[1]).toMatchObject({ sequence: 2, team: 'Chelsea', ended_by: 'ongoing' });
+  });
+
+  test('ends a chain on a failed pass, as a turnover or out of play', () => {
+    expect(endings([
+      pass('Arsenal', 1, 0, { success: false }),
+      pass('Arsenal', 2, 0, { success: false, out_of_play: true }),
+    ])).toEqual([['Arsenal', 'turnover'], ['Arsenal', 'out_of_play']]);
+  });
+
+  test('ends a chain on a shot and credits a following goal to it', () => {
+    const chains = buildPossessionChains(state, [
+      pass('Arsenal', 5, 0),
+      event('shot', 'Arsenal', 5, 4, { player: 'Saka', position: { x: 94, y: 34 }, body_part: 'foot', situation: 'open_play' }),
+      event('goal', 'Arsenal', 5, 4, { player: 'Saka' }),
+      event('shot', 'Chelsea', 20, 0, { player: 'Palmer', position: { x: 60, y: 10 }, body_part: 'foot', situation: 'penalty' }),
+    ]);
+
+    expect(chains.map((chain) => [chain.team, chain.ended_by, chain.xg])).toEqual([
+      ['Arsenal', 'goal', expect.closeTo(0.225, 3)],
+      ['Chelsea', 'shot', 0.76],
+    ]);
+  });
+
+  test('ends a chain on fouls, stoppages and period markers, and skips events without a team', () => {
+    expect(endings([
+      pass('Arsenal', 1, 0),
+      event('foul', 'Chelsea', 1, 5),
+      pass('Chelsea', 2, 0),
+      event('card', 'Chelsea', 2, 10),
+      pass('Chelsea', 3, 0),
+      event('pass', undefined, 3, 5),
+      event('halftime', undefined, 45, 0),
+    ])).toEqual([['Arsenal', 'foul'], ['Chelsea', 'out_of_play'], ['Chelsea', 'period_end']]);
+  });
+});
+
+describe('summarizePossession', () => {
+  beforeEach(() => { counter = 0; });
+
+  test('splits possession time per half and for the match', () => {
+    const chains = buildPossessionChains(state, [
+      pass('Arsenal', 10, 0),
+      pass('Arsenal', 10, 30),
+      pass('Chelsea', 11, 0),
+      pass('Chelsea', 11, 10),
+      event('halftime', undefined, 45, 0),
+      pass('Chelsea', 50, 0),
+      pass('Chelsea', 50, 20),
+    ]);
+
+    const splits = summarizePossession(chains, ['Arsenal', 'Chelsea']);
+
+    expect(splits.map((split) => [split.part, split.teams.map((team) => [team.team, team.chains, team.seconds, team.percentage])])).toEqual([
+      ['first_half', [['Arsenal', 1, 30, 75], ['Chelsea', 1, 10, 25]]],
+      ['second_half', [['Arsenal', 0, 0, 0], ['Chelsea', 1, 20, 100]]],
+      ['match', [['Arsenal', 1, 30, 50], ['Chelsea', 2, 30, 50]]],
+    ]);
+  });
+});
@@ -0,0 +1,19 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { getRateLimitRejection } from '../lambda/utils/provider-access';
+
+const withAuthorizer = (authorizer?: Record<string, any>): APIGatewayProxyEvent =>
+  ({ requestContext: { authorizer } } as unknown as APIGatewayProxyEvent);
+
+describe('getRateLimitRejection', () => {
+  test('answers 429 with Retry-After for rate-limited requests', () => {
+    const response = getRateLimitRejection(withAuthorizer({ providerId: 'opta', rateLimited: 'true', retryAfterSeconds: '3' }));
+    expect(response?.statusCode).toBe(429);
+    expect(response?.headers).toEqual({ 'Retry-After': '3' });
+    expect(JSON.parse(response!.body).status).toBe('rate_limited');
+  });
+
+  test('lets requests within the limit and routes without an authorizer through', () => {
+    expect(getRateLimitRejection(withAuthorizer({ providerId: 'opta', allowedCompetitions: '[]' }))).toBeUndefined();
+    expect(getRateLimitRejection(withAuthorizer())).toBeUndefined();
+  });
+});
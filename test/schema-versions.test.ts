@@ -0,0 +1,79 @@
+import { CURRENT_SCHEMA_VERSION } from '../lambda/utils/event-schemas';
+import { getSchemaVersion, isEventObject, upcastEvent } from '../lambda/utils/schema-versions';
+
+describe('getSchemaVersion', () => {
+  test('treats events without schema_version as v1', () => {
+    expect(getSchemaVersion({ event_type: 'goal' })).toBe(1);
+  });
+
+  test('returns known versions', () => {
+    expect(getSchemaVersion({ schema_version: 2 })).toBe(2);
+    expect(getSchemaVersion({ schema_version: CURRENT_SCHEMA_VERSION })).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  test('returns undefined for unknown versions and values that are not objects', () => {
+    expect(getSchemaVersion({ schema_version: CURRENT_SCHEMA_VERSION + 1 })).toBeUndefined();
+    expect(getSchemaVersion({ schema_version: '2' })).toBeUndefined();
+    expect(getSchemaVersion(null as any)).toBeUndefined();
+    expect(getSchemaVersion('x' as any)).toBeUndefined();
+  });
+});
+
+describe('upcastEvent', () => {
+  test('v1 score strings become a nested score object', () => {
+    const event = upcastEvent({ event_type: 'goal', match_id: 'm1', player: 'Kane', score: '2-1' });
+    expect(event.score).toEqual({ home: 2, away: 1 });
+    expect(event.schema_version).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  test('v1 flat home_score / away_score become a nested score object', () => {
+    const event = upcastEvent({ event_type: 'goal', player: 'Kane', home_score: 1, away_score: 0 });
+    expect(event.score).toEqual({ home: 1, away: 0 });
+    expect(event).not.toHaveProperty('home_score');
+    expect(event).not.toHaveProperty('away_score');
+  });
+
+  test('v2 player references get a player id', () => {
+    const event = upcastEvent({ schema_version: 2, event_type: 'pass', from_player: 'Rice', to_player: 'Saka', to_player_id: '7' });
+    expect(event.from_player_id).toBe('Rice');
+    expect(event.to_player_id).toBe('7');
+    expect(event.schema_version).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  test('runs the whole chain for v1 events', () => {
+    const event = upcastEvent({ event_type: 'goal', player: 'Kane', score: '1:0' });
+    expect(event).toMatchObject({ score: { home: 1, away: 0 }, player_id: 'Kane', schema_version: CURRENT_SCHEMA_VERSION });
+  });
+
+  test('leaves current events as they are', () => {
+    const current = { schema_version: CURRENT_SCHEMA_VERSION, event_type: 'goal', player: 'Kane', player_id: '9' };
+    expect(upcastEvent(current)).toEqual(current);
+  });
+
+  test('rewrites legacy event types at every version', () => {
+    expect(upcastEvent({ event_type: 'yellow_card', player: 'Rice' })).toMatchObject({ event_type: 'card', card_type: 'yellow' });
+  });
+
+  test('returns events with an unknown version unchanged', () => {
+    const future = { schema_version: CURRENT_SCHEMA_VERSION + 1, event_type: 'goal' };
+    expect(upcastEvent(future)).toBe(future);
+  });
+
+  test('returns values that are not objects unchanged', () => {
+    expect(upcastEvent(null as any)).toBeNull();
+    expect(upcastEvent(undefined as any)).toBeUndefined();
+    expect(upcastEvent('x' as any)).toBe('x');
+    expect(upcastEvent(3 as any)).toBe(3);
+    const list = [{ event_type: 'goal' }];
+    expect(upcastEvent(list as any)).toBe(list);
+  });
+});
+
+describe('isEventObject', () => {
+  test('accepts plain objects only', () => {
+    expect(isEventObject({})).toBe(true);
+    expect(isEventObject(null)).toBe(false);
+    expect(isEventObject([])).toBe(false);
+    expect(isEventObject('x')).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+import { MatchResultRecord } from '../lambda/dtos/standings';
+import { MatchState } from '../lambda/dtos/match-state';
+import { computeStandingsRows, parseTieBreakers, rankStandings, toMatchResult } from '../lambda/utils/standings';
+import { createMatchState } from '../lambda/utils/match-state';
+
+let day = 0;
+const result = (homeTeam: string, awayTeam: string, homeGoals: number, awayGoals: number): MatchResultRecord => {
+  day++;
+  return {
+    pk: 'STANDINGS#2023/2024',
+    sk: `default#RESULT#m${day}`,
+    season: '2023/2024',
+    competition: 'default',
+    match_id: `m${day}`,
+    home_team: homeTeam,
+    away_team: awayTeam,
+    home_goals: homeGoals,
+    away_goals: awayGoals,
+    finished_at: `2024-03-${String(day).padStart(2, '0')}T17:00:00.000Z`,
+    updated_at: '2024-04-01T00:00:00.000Z',
+  };
+};
+
+const ranking = (results: MatchResultRecord[], tieBreakers?: Parameters<typeof rankStandings>[2]) =>
+  rankStandings(computeStandingsRows(results), results, tieBreakers).map((row) => row.team);
+
+describe('computeStandingsRows', () => {
+  beforeEach(() => { day = 0; });
+
+  test('counts points, goals and the last five results, most recent first', () => {
+    const results = [
+      result('Arsenal', 'Chelsea', 2, 0),
+      result('Chelsea', 'Arsenal', 1, 1),
+      result('Arsenal', 'Chelsea', 0, 3),
+      result('Arsenal', 'Chelsea', 1, 0),
+      result('Arsenal', 'Chelsea', 1, 0),
+      result('Arsenal', 'Chelsea', 4, 4),
+    ];
+    const arsenal = computeStandingsRows(results).find((row) => row.team === 'Arsenal')!;
+
+    expect(arsenal).toEqual({
+      team: 'Arsenal',
+      played: 6,
+      won: 3,
+      drawn: 2,
+      lost: 1,
+      goals_for: 9,
+      goals_against: 8,
+      goal_difference: 1,
+      points: 11,
+      form: ['D', 'W', 'W', 'L', 'D'],
+    });
+  });
+});
+
+describe('rankStandings', () => {
+  beforeEach(() => { day = 0; });
+
+  // Wolves and Arsenal are level on points, goal difference and goals; Wolves won their meeting
+  const levelPair = () => [
+    result('Wolves', 'Arsenal', 1, 0),
+    result('Wolves', 'Chelsea', 0, 1),
+    result('Arsenal', 'Everton', 1, 0),
+  ];
+
+  test('separates teams level on points by the tie-breakers, then head-to-head', () => {
+    expect(ranking(levelPair())).toEqual(['Chelsea', 'Wolves', 'Arsenal', 'Everton']);
+  });
+
+  test('falls back to the team name when every tie-breaker is level', () => {
+    expect(ranking(levelPair(), ['goal_difference', 'goals_for'])).toEqual(['Chelsea', 'Arsenal', 'Wolves', 'Everton']);
+  });
+
+  test('ranks fewer goals conceded higher, and counts wins', () => {
+    const results = [result('Ants', 'Cats', 1, 0), result('Bees', 'Dogs', 3, 2)];
+
+    expect(ranking(results)).toEqual(['Bees', 'Ants', 'Dogs', 'Cats']);
+    expect(ranking(results, ['goals_against'])).toEqual(['Ants', 'Bees', 'Cats', 'Dogs']);
+    expect(ranking(results, ['wins'])).toEqual(['Ants', 'Bees', 'Cats', 'Dogs']);
+  });
+
+  test('numbers the positions', () => {
+    expect(rankStandings(computeStandingsRows(levelPair()), levelPair()).map((row) => row.position)).toEqual([1, 2, 3, 4]);
+  });
+});
+
+describe('parseTieBreakers', () => {
+  test('defaults, and reports unknown names', () => {
+    expect(parseTieBreakers(undefined).tieBreakers).toEqual(['goal_difference', 'goals_for', 'head_to_head']);
+    expect(parseTieBreakers('wins, head_to_head,away_goals')).toEqual({ tieBreakers: ['wins', 'head_to_head'], invalid: ['away_goals'] });
+  });
+});
+
+describe('toMatchResult', () => {
+  test('needs the season and both teams', () => {
+    const state: MatchState = { ...createMatchState('m1'), season: '2023/2024', home_team: 'Arsenal', away_team: 'Chelsea', score: { home: 2, away: 1 } };
+
+    expect(toMatchResult(state)).toMatchObject({ sk: 'default#RESULT#m1', home_goals: 2, away_goals: 1 });
+    expect(toMatchResult({ ...state, away_team: undefined })).toBeUndefined();
+  });
+});
@@ -0,0 +1,85 @@
+import { StatsBombAdapter } from '../lambda/adapters/statsbomb-adapter';
+import { getEventValidationRules } from '../lambda/utils/event-schemas';
+
+const CONTEXT = { matchId: 'm1', kickoff: '2024-03-02T15:00:00.000Z', homeTeam: 'Arsenal', awayTeam: 'Chelsea' };
+
+const arsenal = { id: 1, name: 'Arsenal' };
+const providerEvent = (typeName: string, fields: Record<string, any> = {}) => ({
+  id: `sb-${typeName}-${fields.minute ?? 0}`,
+  type: { name: typeName },
+  period: 1,
+  minute: 0,
+  second: 0,
+  team: arsenal,
+  ...fields,
+});
+
+const normalize = (events: unknown[], context: Record<string, any> = CONTEXT) =>
+  new StatsBombAdapter().normalize(JSON.stringify(events), context);
+
+const schemaErrors = (event: Record<string, any>) =>
+  getEventValidationRules(event.event_type).filter((rule) => !rule.validator(event[rule.field], event)).map((rule) => rule.message);
+
+describe('StatsBombAdapter', () => {
+  test('maps passes, including incomplete passes without a recipient', () => {
+    const { events, skipped } = normalize([
+      providerEvent('Pass', {
+        player: { id: 7, name: 'Saka' },
+        location: [60, 40],
+        pass: { recipient: { name: 'Odegaard' }, end_location: [80, 30] },
+      }),
+      providerEvent('Pass', { player: { id: 8, name: 'Rice' }, pass: { outcome: { name: 'Incomplete' } } }),
+      providerEvent('Pass', { player: { id: 8, name: 'Rice' }, pass: {} }),
+    ]);
+
+    expect(events.map(({ event }) => [event.from_player, event.to_player, event.success, event.outcome])).toEqual([
+      ['Saka', 'Odegaard', true, undefined],
+      ['Rice', undefined, false, 'incomplete'],
+    ]);
+    expect(events[0].event).toMatchObject({ position: { x: 52.5, y: 34 }, player_id: '7', source_provider: 'statsbomb' });
+    expect(events.map(({ event }) => schemaErrors(event))).toEqual([[], []]);
+    expect(skipped).toEqual([expect.objectContaining({ reason: 'Pass without a recipient' })]);
+  });
+
+  test('maps a goal to a shot and a goal, and cards from fouls', () => {
+    const { events } = normalize([
+      providerEvent('Shot', {
+        minute: 23,
+        player: { name: 'Saka' },
+        location: [108, 40],
+        shot: { body_part: { name: 'Head' }, type: { name: 'Corner' }, outcome: { name: 'Goal' } },
+      }),
+      providerEvent('Foul Committed', { minute: 30, player: { name: 'Rice' }, foul_committed: { card: { name: 'Second Yellow' } } }),
+    ]);
+
+    expect(events.map(({ event }) => event.event_type)).toEqual(['shot', 'goal', 'foul', 'card']);
+    expect(events[0].event).toMatchObject({ body_part: 'head', situation: 'set_piece', outcome: 'goal' });
+    expect(events[3].event).toMatchObject({ card_type: 'yellow', second_yellow: true });
+  });
+
+  test('places events relative to the kickoff, which is required', () => {
+    const { events } = normalize([providerEvent('Own Goal Against', { minute: 47, second: 30, period: 2, player: { name: 'Rice' } })]);
+
+    expect(events[0].event.timestamp).toBe('2024-03-02T15:47:30.000Z');
+    expect(() => normalize([], { matchId: 'm1' })).toThrow('kickoff query parameter is required');
+  });
+
+  test('maps period markers through extra time and penalties', () => {
+    const markers = [1, 2, 3, 4, 5].flatMap((period) => [
+      providerEvent('Half Start', { period }),
+      providerEvent('Half Start', { period, team: { id: 2, name: 'Chelsea' } }),
+      providerEvent('Half End', { period }),
+    ]);
+    const { events } = normalize(markers);
+
+    expect(events.map(({ event }) => `${event.event_type}:${event.period}`)).toEqual([
+      'kickoff:1', 'halftime:1',
+      'kickoff:2',
+      'kickoff:3', 'halftime:3',
+      'kickoff:4',
+      'kickoff:5', 'fulltime:5',
+    ]);
+    expect(events[0].event).toMatchObject({ home_team: 'Arsenal', away_team: 'Chelsea' });
+    expect(events[0].event.team).toBeUndefined();
+  });
+});
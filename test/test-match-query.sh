@@ -9,6 +9,7 @@ NC='\033[0m' # No Color
 
 # Configuration
 API_URL="http://localhost:4566/restapis/wch2w4vqwu/local/_user_request_"
+API_KEY="${API_KEY:-local-test-key}" # Provider API key registered in the providers table
 MAX_RETRIES=3
 RETRY_WAIT=2
 
@@ -97,11 +98,13 @@ insert_test_data() {
     # Insert a goal event
     curl -s -X POST "${API_URL}/events" \
         -H "Content-Type: application/json" \
+        -H "x-api-key: ${API_KEY}" \
         -d '{"match_id":"'$match_id'","event_type":"goal","timestamp":"2025-03-18T15:30:00Z","team":"Home","player":"John Doe","minute":15,"second":20,"score":{"home":1,"away":0}}' \
         > /dev/null
     
     curl -s -X POST "${API_URL}/events" \
         -H "Content-Type: application/json" \
+        -H "x-api-key: ${API_KEY}" \
         -d '{"match_id":"'$match_id'","event_type":"goal","timestamp":"2025-03-18T16:05:00Z","team":"Away","player":"Jane Smith","minute":50,"second":12,"score":{"home":1,"away":1}}' \
         > /dev/null
     
@@ -110,11 +113,13 @@ insert_test_data() {
     # Insert pass events
     curl -s -X POST "${API_URL}/events" \
         -H "Content-Type: application/json" \
+        -H "x-api-key: ${API_KEY}" \
         -d '{"match_id":"'$match_id'","event_type":"pass","timestamp":"2025-03-18T15:10:00Z","team":"Home","from_player":"John Doe","to_player":"Mark Johnson","minute":10,"second":5,"success":true}' \
         > /dev/null
     
     curl -s -X POST "${API_URL}/events" \
         -H "Content-Type: application/json" \
+        -H "x-api-key: ${API_KEY}" \
         -d '{"match_id":"'$match_id'","event_type":"pass","timestamp":"2025-03-18T15:12:00Z","team":"Away","from_player":"Jane Smith","to_player":"Bob Williams","minute":12,"second":30,"success":false}' \
         > /dev/null
     
@@ -17,6 +17,7 @@ S3_BUCKET="football-serverless-local-raw-data"
 EVENT_QUEUE="football-serverless-local-event-processing-queue"
 DLQ="football-serverless-local-event-dlq"
 ENDPOINT="http://localhost:4566"
+API_KEY="${API_KEY:-local-test-key}" # Provider API key registered in the providers table
 MAX_RETRIES=10
 RETRY_WAIT=3
 
@@ -41,6 +42,7 @@ test_event_flow() {
     local response=$(curl -s -X POST \
         "$ENDPOINT/restapis/$API_ID/$STAGE/_user_request_/events" \
         -H "Content-Type: application/json" \
+        -H "x-api-key: $API_KEY" \
         -d "$payload")
     
     if echo "$response" | grep -q "success"; then
@@ -0,0 +1,66 @@
+import { DynamoDBClient as AwsDynamoDBClient } from '../lambda/clients/dynamo-client';
+import { IdempotencyStore } from '../lambda/utils/idempotency-store';
+import { getSignatureDigest, signWebhookPayload, verifyWebhookSignature } from '../lambda/utils/webhook-signature';
+import { DynamoDBClient, resetTables } from './in-memory-dynamo';
+
+const SECRET = 'provider-secret';
+const NOW = 1709392200;
+const BODY = JSON.stringify({ events: [{ type: 'pass' }] });
+const silentLogger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+const verify = (overrides: Record<string, any> = {}) => verifyWebhookSignature({
+  rawBody: BODY,
+  signature: signWebhookPayload(SECRET, String(NOW), BODY),
+  timestamp: String(NOW),
+  secret: SECRET,
+  toleranceSeconds: 300,
+  now: NOW,
+  ...overrides,
+});
+
+describe('verifyWebhookSignature', () => {
+  test('accepts a valid signature', () => {
+    expect(verify()).toEqual({ valid: true });
+  });
+
+  test('rejects a signature made with another secret', () => {
+    expect(verify({ signature: signWebhookPayload('other-secret', String(NOW), BODY) })).toEqual({
+      valid: false,
+      reason: 'Signature does not match',
+    });
+  });
+
+  test('rejects a tampered body', () => {
+    expect(verify({ rawBody: BODY.replace('pass', 'goal') }).valid).toBe(false);
+  });
+
+  test('rejects a stale timestamp, even with its own valid signature', () => {
+    const stale = String(NOW - 301);
+    const result = verify({ timestamp: stale, signature: signWebhookPayload(SECRET, stale, BODY) });
+
+    expect(result.valid).toBe(false);
+    expect(result.reason).toContain('tolerance window');
+  });
+
+  test.each([
+    ['a missing signature', { signature: undefined }],
+    ['a signature without the sha256= prefix', { signature: 'abc123' }],
+    ['a missing timestamp', { timestamp: undefined }],
+    ['a timestamp that is not epoch seconds', { timestamp: '2024-03-02T15:10:00Z' }],
+  ])('rejects %s', (_, overrides) => {
+    expect(verify(overrides).valid).toBe(false);
+  });
+});
+
+describe('IdempotencyStore.recordWebhookDelivery', () => {
+  beforeEach(() => resetTables());
+
+  test('accepts a signed delivery once', async () => {
+    const store = new IdempotencyStore(new DynamoDBClient() as unknown as AwsDynamoDBClient, silentLogger);
+    const digest = getSignatureDigest(signWebhookPayload(SECRET, String(NOW), BODY));
+
+    expect(await store.recordWebhookDelivery('statsbomb', digest, NOW + 300)).toBe(true);
+    expect(await store.recordWebhookDelivery('statsbomb', digest, NOW + 300)).toBe(false);
+    expect(await store.recordWebhookDelivery('opta', digest, NOW + 300)).toBe(true);
+  });
+});
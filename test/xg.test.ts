@@ -0,0 +1,71 @@
+import { MatchState, ShotRecord } from '../lambda/dtos/match-state';
+import { createMatchState } from '../lambda/utils/match-state';
+import { computeShotXG, getShotAngle, getShotDistance, PENALTY_XG, scoreShot, summarizeXG, XG_MODEL_VERSION } from '../lambda/utils/xg';
+
+const PENALTY_SPOT = { x: 94, y: 34 };
+
+const shot = (overrides: Partial<ShotRecord> = {}): ShotRecord => ({
+  event_id: 's1',
+  team: 'Arsenal',
+  player: 'Saka',
+  position: PENALTY_SPOT,
+  body_part: 'foot',
+  situation: 'open_play',
+  outcome: 'off_target',
+  xg: 0,
+  ...overrides,
+});
+
+describe('scoreShot', () => {
+  test('scores a shot from the penalty spot with the logistic model and tags the model version', () => {
+    expect(getShotDistance(PENALTY_SPOT)).toBeCloseTo(11);
+    expect(getShotAngle(PENALTY_SPOT)).toBeCloseTo(2 * Math.atan(3.66 / 11));
+    expect(scoreShot(shot())).toEqual({ xg: expect.closeTo(0.225, 3), xg_model: XG_MODEL_VERSION });
+  });
+
+  test('gives every penalty the same value, wherever it is recorded', () => {
+    expect(scoreShot(shot({ situation: 'penalty', position: { x: 60, y: 10 } })).xg).toBe(PENALTY_XG);
+  });
+
+  test('is deterministic and rounded to four decimals', () => {
+    const { xg } = scoreShot(shot({ position: { x: 87.3, y: 41.2 } }));
+
+    expect(scoreShot(shot({ position: { x: 87.3, y: 41.2 } })).xg).toBe(xg);
+    expect(Math.round(xg * 10_000) / 10_000).toBe(xg);
+  });
+
+  test('values closer, more central, footed and open-play shots higher', () => {
+    const base = computeShotXG(shot());
+
+    expect(computeShotXG(shot({ position: { x: 99.5, y: 34 } }))).toBeGreaterThan(base);
+    expect(computeShotXG(shot({ position: { x: 80, y: 34 } }))).toBeLessThan(base);
+    expect(computeShotXG(shot({ position: { x: 94, y: 10 } }))).toBeLessThan(base);
+    expect(computeShotXG(shot({ body_part: 'head' }))).toBeLessThan(computeShotXG(shot({ body_part: 'other' })));
+    expect(computeShotXG(shot({ body_part: 'other' }))).toBeLessThan(base);
+    expect(computeShotXG(shot({ situation: 'set_piece' }))).toBeLessThan(base);
+  });
+});
+
+describe('summarizeXG', () => {
+  test('totals teams in home / away order and players by xG', () => {
+    const state: MatchState = {
+      ...createMatchState('m1'),
+      home_team: 'Arsenal',
+      away_team: 'Chelsea',
+      shots: [
+        shot({ event_id: 's1', player: 'Saka', outcome: 'goal', xg: 0.3 }),
+        shot({ event_id: 's2', player: 'Odegaard', outcome: 'saved', xg: 0.3 }),
+        shot({ event_id: 's3', player: 'Saka', outcome: 'blocked', xg: 0.05 }),
+      ],
+    };
+
+    const summary = summarizeXG(state);
+
+    expect(summary.teams).toEqual([
+      { team: 'Arsenal', shots: 3, shots_on_target: 2, goals: 1, xg: 0.65 },
+      { team: 'Chelsea', shots: 0, shots_on_target: 0, goals: 0, xg: 0 },
+    ]);
+    expect(summary.players.map((player) => [player.player, player.xg])).toEqual([['Saka', 0.35], ['Odegaard', 0.3]]);
+    expect(summary.shots.map((entry) => entry.distance)).toEqual([11, 11, 11]);
+  });
+});